@@ -1,35 +1,35 @@
-import { useState } from 'react'
-import reactLogo from './assets/react.svg'
-import viteLogo from '/vite.svg'
-import './App.css'
+import { useLayoutEffect, useState, type CSSProperties } from 'react'
+import PanelApp from './panel/App'
+import { setBackend, type OpfsBackend } from './panel/api'
+import { createDirectBackend } from './panel/directBackend'
 
-function App() {
-  const [count, setCount] = useState(0)
+export interface OpfsExplorerProps {
+  /** Storage to explore. Defaults to the current page's own OPFS. Only read on mount. */
+  backend?: OpfsBackend
+  className?: string
+  style?: CSSProperties
+}
+
+/**
+ * The OPFS Explorer panel as an embeddable component that explores the
+ * embedding page's own OPFS instead of an inspected tab. The panel keeps its
+ * backend in module state, so mount at most one explorer per page.
+ */
+function OpfsExplorer({ backend, className, style }: OpfsExplorerProps) {
+  const [resolvedBackend] = useState(() => backend ?? createDirectBackend())
+
+  // A layout effect runs before the panel's passive effects issue their
+  // first requests, so nothing reaches the default backend.
+  useLayoutEffect(() => {
+    setBackend(resolvedBackend)
+    return () => setBackend(null)
+  }, [resolvedBackend])
 
   return (
-    <>
-      <div>
-        <a href="https://vite.dev" target="_blank">
-          <img src={viteLogo} className="logo" alt="Vite logo" />
-        </a>
-        <a href="https://react.dev" target="_blank">
-          <img src={reactLogo} className="logo react" alt="React logo" />
-        </a>
-      </div>
-      <h1>Vite + React</h1>
-      <div className="card">
-        <button onClick={() => setCount((count) => count + 1)}>
-          count is {count}
-        </button>
-        <p>
-          Edit <code>src/App.tsx</code> and save to test HMR
-        </p>
-      </div>
-      <p className="read-the-docs">
-        Click on the Vite and React logos to learn more
-      </p>
-    </>
+    <div className={className} style={{ height: '100%', ...style }}>
+      <PanelApp />
+    </div>
   )
 }
 
-export default App
+export default OpfsExplorer
@@ -0,0 +1,52 @@
+import { PANEL_PORT_NAME, PAGE_PORT_NAME, type BridgeMessage } from "../page/protocol";
+
+/**
+ * Relays bridge messages between a DevTools panel and the content script of
+ * the tab it inspects. One page port is kept per panel port; it is replaced
+ * whenever the panel re-attaches (e.g. after the inspected page navigates or
+ * another frame is selected).
+ */
+chrome.runtime.onConnect.addListener((panelPort) => {
+  if (panelPort.name !== PANEL_PORT_NAME) return;
+
+  let panelConnected = true;
+  let pagePort: chrome.runtime.Port | null = null;
+
+  const sendToPanel = (message: BridgeMessage) => {
+    if (panelConnected) panelPort.postMessage(message);
+  };
+
+  const attach = (message: Extract<BridgeMessage, { type: "attach" }>) => {
+    pagePort?.disconnect();
+    // Without a frameId the port reaches every frame of the tab; the content
+    // scripts of frames other than the requested one disconnect themselves.
+    const port = message.frameURL
+      ? chrome.tabs.connect(message.tabId, { name: PAGE_PORT_NAME })
+      : chrome.tabs.connect(message.tabId, { name: PAGE_PORT_NAME, frameId: 0 });
+    pagePort = port;
+    port.onMessage.addListener((message: BridgeMessage) => sendToPanel(message));
+    port.onDisconnect.addListener(() => {
+      // Reading lastError marks it as handled — "Receiving end does not
+      // exist" is expected on pages where the content script can't run.
+      void chrome.runtime.lastError;
+      if (pagePort !== port) return;
+      pagePort = null;
+      sendToPanel({ type: "detached" });
+    });
+    port.postMessage(message);
+  };
+
+  panelPort.onMessage.addListener((message: BridgeMessage) => {
+    if (message.type === "attach") {
+      attach(message);
+    } else {
+      pagePort?.postMessage(message);
+    }
+  });
+
+  panelPort.onDisconnect.addListener(() => {
+    panelConnected = false;
+    pagePort?.disconnect();
+    pagePort = null;
+  });
+});
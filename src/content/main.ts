@@ -0,0 +1,75 @@
+import { createOpfsRuntime } from "../page/runtime";
+import { PAGE_PORT_NAME, type BridgeMessage } from "../page/protocol";
+import type { OperationProgress } from "../types";
+
+/**
+ * Content script that hosts the OPFS runtime next to the inspected page.
+ * Content scripts share the page's origin, so the runtime sees the same OPFS
+ * as the page itself, and results are pushed back over the port as soon as
+ * an operation settles — no polling.
+ */
+const runtime = createOpfsRuntime();
+
+/** Minimum time between progress messages for one operation */
+const PROGRESS_INTERVAL_MS = 100;
+
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== PAGE_PORT_NAME) return;
+
+  let connected = true;
+  port.onDisconnect.addListener(() => {
+    connected = false;
+  });
+
+  const send = (message: BridgeMessage) => {
+    // The panel may have closed while an operation was still running
+    if (connected) port.postMessage(message);
+  };
+
+  // Call ids are only unique per panel, and several panels (e.g. DevTools
+  // docked and undocked) can share this runtime. The session also tells
+  // this frame's calls apart from those of another frame with the same URL.
+  const session = Math.random().toString(36).slice(2);
+  const callPrefix = session + ":";
+
+  port.onMessage.addListener(async (message: BridgeMessage) => {
+    if (message.type === "attach") {
+      // The port reaches every frame when the panel targets an iframe
+      if (message.frameURL && message.frameURL !== location.href) {
+        connected = false;
+        port.disconnect();
+        return;
+      }
+      send({ type: "ready", session });
+      return;
+    }
+    if (message.type === "cancel") {
+      if (message.session === session) runtime.cancel(callPrefix + message.id);
+      return;
+    }
+    if (message.type !== "invoke" || message.session !== session) return;
+
+    let lastProgressAt = 0;
+    const onProgress = (progress: OperationProgress) => {
+      const now = Date.now();
+      if (now - lastProgressAt < PROGRESS_INTERVAL_MS && progress.done < progress.total) return;
+      lastProgressAt = now;
+      send({ type: "progress", id: message.id, progress });
+    };
+
+    try {
+      const result = await runtime.start(callPrefix + message.id, message.op, message.args as never, onProgress);
+      send({ type: "result", id: message.id, result });
+    } catch (err) {
+      // Errors don't survive port serialization — send the name along so
+      // the panel can tell a NotFoundError from a QuotaExceededError.
+      const { name, message: text } = (err ?? {}) as { name?: unknown; message?: unknown };
+      send({
+        type: "error",
+        id: message.id,
+        error: typeof text === "string" ? text : String(err),
+        name: typeof name === "string" ? name : undefined,
+      });
+    }
+  });
+});
@@ -0,0 +1,22 @@
+import { StrictMode, createElement } from 'react'
+import { createRoot } from 'react-dom/client'
+import './index.css'
+import OpfsExplorer, { type OpfsExplorerProps } from './App'
+
+export { OpfsExplorer }
+export type { OpfsExplorerProps }
+export { createDirectBackend } from './panel/directBackend'
+export { createMemoryBackend, type MemorySeed } from './panel/memoryBackend'
+export type { OpfsBackend } from './panel/backend'
+export { OpfsError, isOpfsError, type OpfsErrorCode } from './panel/errors'
+export type { BatchOperation, BatchOperationResult, FileEntry, FileReadResult, SnapshotManifest, SnapshotManifestEntry, StorageBucketInfo, StorageEstimate, WalkEntry, WalkOptions, WalkResult, ZipOptions, ZipResult } from './types'
+
+/**
+ * Renders the explorer into `container` for apps that don't use React
+ * themselves. Returns a function that unmounts it.
+ */
+export function mountOpfsExplorer(container: Element, props: OpfsExplorerProps = {}): () => void {
+  const root = createRoot(container)
+  root.render(createElement(StrictMode, null, createElement(OpfsExplorer, props)))
+  return () => root.unmount()
+}
@@ -0,0 +1,43 @@
+import type { OperationProgress } from "../types";
+import type { RuntimeOp } from "./runtime";
+
+/**
+ * Message protocol for the content-script bridge.
+ *
+ *   panel ──(PANEL_PORT_NAME)──▶ background ──(PAGE_PORT_NAME)──▶ content script
+ *
+ * The background service worker only relays messages between the two ports;
+ * DevTools pages can't talk to a tab's content scripts directly.
+ *
+ * To reach an iframe, the page port is opened to every frame of the tab and
+ * only content scripts whose document URL matches `frameURL` answer "ready";
+ * the rest disconnect. Frames can share a URL, so each ready content script
+ * names a session, and ignores calls addressed to any other.
+ */
+
+/** Port opened by the DevTools panel to the background service worker */
+export const PANEL_PORT_NAME = "opfs-explorer-panel";
+
+/** Port opened by the background service worker to the content script */
+export const PAGE_PORT_NAME = "opfs-explorer-page";
+
+export type BridgeMessage =
+  /**
+   * panel → background → content script: connect me to the content script of
+   * this tab — of the frame with this URL, or of the top frame when omitted
+   */
+  | { type: "attach"; tabId: number; frameURL?: string }
+  /** content script → panel: the runtime is ready to accept calls for this session */
+  | { type: "ready"; session: string }
+  /** background → panel: the content script is missing or went away */
+  | { type: "detached" }
+  /** panel → content script: run an operation */
+  | { type: "invoke"; session: string; id: number; op: RuntimeOp; args: unknown }
+  /** panel → content script: stop a running operation */
+  | { type: "cancel"; session: string; id: number }
+  /** content script → panel: an operation made progress */
+  | { type: "progress"; id: number; progress: OperationProgress }
+  /** content script → panel: an operation finished */
+  | { type: "result"; id: number; result: unknown }
+  /** content script → panel: an operation failed, with the thrown error's name (e.g. "NotFoundError") */
+  | { type: "error"; id: number; error: string; name?: string };
@@ -0,0 +1,1362 @@
+import type {
+  BatchOperation, BatchOperationResult, FileEntry, FileRange, FileReadResult, OperationProgress, SnapshotManifest, StorageBucketInfo, StorageEstimate,
+  WalkEntry, WalkOptions, WalkResult, WebLockInfo, WebLocksSnapshot, ZipOptions, ZipResult,
+} from "../types";
+
+/**
+ * Connects a running operation to its caller: operations check for
+ * cancellation between chunks or entries, and report how far they've got.
+ */
+export interface OperationContext {
+  /** Throws an AbortError if the caller cancelled the operation */
+  throwIfCancelled(): void;
+  progress(progress: OperationProgress): void;
+}
+
+/** Selects the storage bucket an operation works in */
+export interface BucketArgs {
+  /** Name of a Storage Buckets API bucket; the default bucket when omitted */
+  bucket?: string;
+}
+
+/**
+ * Operations exposed by the page-side runtime, keyed by name. Every operation
+ * takes a single JSON-serializable argument object and resolves to a
+ * JSON-serializable result so it can travel over a runtime port or an eval
+ * result unchanged.
+ */
+export interface RuntimeOps {
+  list(args: { path: string } & BucketArgs, context: OperationContext): Promise<FileEntry[]>;
+  /**
+   * List everything below `path` in one call, depth-first in list() order.
+   * Stops after `limit` entries (10,000 by default) and sets `truncated`.
+   */
+  walk(args: { path: string } & WalkOptions & BucketArgs, context: OperationContext): Promise<WalkResult>;
+  readWithMeta(args: { path: string; forceText?: boolean } & BucketArgs, context: OperationContext): Promise<FileReadResult>;
+  /** Read up to `length` bytes from `offset` — at most 16 MB per call */
+  readRange(args: { path: string; offset: number; length: number } & BucketArgs, context: OperationContext): Promise<FileRange>;
+  write(args: { path: string; content: string; isBinary?: boolean } & BucketArgs, context: OperationContext): Promise<boolean>;
+  /**
+   * Open a write stream for `path`, for payloads too large to send in one
+   * call. The file keeps its old contents until the stream is committed, and
+   * a file the stream created is removed again if it's discarded.
+   */
+  openWrite(args: { path: string } & BucketArgs, context: OperationContext): Promise<{ stream: string }>;
+  /** Append base64-encoded bytes to an open write stream */
+  writeChunk(args: { stream: string; content: string }, context: OperationContext): Promise<boolean>;
+  /** Commit the stream's contents to the file, or discard them */
+  closeWrite(args: { stream: string; commit: boolean }, context: OperationContext): Promise<boolean>;
+  rename(args: { path: string; newName: string } & BucketArgs, context: OperationContext): Promise<boolean>;
+  move(args: { oldPath: string; newPath: string } & BucketArgs, context: OperationContext): Promise<boolean>;
+  /**
+   * Copy a file, or a directory and everything in it, to `dest`, which must
+   * not exist yet. A failed or cancelled copy removes what it created.
+   */
+  copy(args: { src: string; dest: string } & BucketArgs, context: OperationContext): Promise<boolean>;
+  create(args: { path: string; kind: "file" | "directory" } & BucketArgs, context: OperationContext): Promise<boolean>;
+  delete(args: { path: string } & BucketArgs, context: OperationContext): Promise<boolean>;
+  /**
+   * Run several operations one after another in a single call, reporting
+   * progress in operations. A failed operation doesn't stop the rest unless
+   * `stopOnError` is set; cancelling stops the whole batch.
+   */
+  batch(
+    args: { operations: BatchOperation[]; stopOnError?: boolean } & BucketArgs,
+    context: OperationContext
+  ): Promise<BatchOperationResult[]>;
+  download(args: { path: string } & BucketArgs, context: OperationContext): Promise<boolean>;
+  /**
+   * Save files and folders to the user's downloads as one ZIP archive, with
+   * paths relative to the folder they share. An empty path stands for the
+   * root. Progress is reported in bytes read.
+   */
+  downloadZip(args: { paths: string[] } & ZipOptions & BucketArgs, context: OperationContext): Promise<ZipResult>;
+  getStorageEstimate(args: BucketArgs, context: OperationContext): Promise<StorageEstimate>;
+  exists(args: { path: string } & BucketArgs, context: OperationContext): Promise<boolean>;
+  /**
+   * The files among `paths` — or below them, for directories — that the page
+   * holds a sync access handle on, so they can't be written, moved or deleted.
+   */
+  probeLocks(args: { paths: string[] } & BucketArgs, context: OperationContext): Promise<string[]>;
+  /**
+   * SHA-256 of each file's contents, as hex, keyed by path. Paths that
+   * aren't files are left out, and so are files over 64 MB: a file is read
+   * into memory whole to hash it. Progress is reported in bytes hashed.
+   */
+  hashFiles(args: { paths: string[] } & BucketArgs, context: OperationContext): Promise<Record<string, string>>;
+  /** Named storage buckets of the origin; empty where the Storage Buckets API isn't available */
+  listBuckets(args: Record<string, never>, context: OperationContext): Promise<StorageBucketInfo[]>;
+  /** Web Locks held and requested across the origin; empty where the API isn't available */
+  queryLocks(args: Record<string, never>, context: OperationContext): Promise<WebLocksSnapshot>;
+}
+
+export type RuntimeOp = keyof RuntimeOps;
+export type RuntimeArgs<K extends RuntimeOp> = Parameters<RuntimeOps[K]>[0];
+export type RuntimeResult<K extends RuntimeOp> = Awaited<ReturnType<RuntimeOps[K]>>;
+
+/**
+ * Overrides for where the runtime finds its storage. Without one, the runtime
+ * operates on the origin's real OPFS root.
+ */
+export interface RuntimeEnvironment {
+  /** Returns the directory handle every path is resolved against */
+  getRoot(): Promise<FileSystemDirectoryHandle>;
+}
+
+export interface OpfsRuntime {
+  ops: RuntimeOps;
+  /** Runs an operation, checking `context` (if given) for cancellation */
+  invoke<K extends RuntimeOp>(op: K, args: RuntimeArgs<K>, context?: OperationContext): Promise<RuntimeResult<K>>;
+  /**
+   * Runs an operation under a caller-chosen id, for transports that can only
+   * reach the runtime through later, separate calls: `cancel(id)` stops it and
+   * `getProgress(id)` returns the latest progress while it runs.
+   */
+  start<K extends RuntimeOp>(
+    id: string,
+    op: K,
+    args: RuntimeArgs<K>,
+    onProgress?: (progress: OperationProgress) => void
+  ): Promise<RuntimeResult<K>>;
+  cancel(id: string): void;
+  getProgress(id: string): OperationProgress | null;
+}
+
+// FileSystemHandle.move() is not in the DOM lib yet (Chromium-only today)
+type MovableHandle = FileSystemHandle & {
+  move(destination: FileSystemDirectoryHandle | string, newName?: string): Promise<void>;
+};
+
+// Nor is the Storage Buckets API
+interface StorageBucketHandle {
+  persisted(): Promise<boolean>;
+  durability(): Promise<"strict" | "relaxed">;
+  estimate(): Promise<globalThis.StorageEstimate>;
+  expires(): Promise<number | null>;
+  getDirectory(): Promise<FileSystemDirectoryHandle>;
+}
+interface StorageBucketManager {
+  open(name: string): Promise<StorageBucketHandle>;
+  keys(): Promise<string[]>;
+}
+
+// A write stream opened by openWrite(), with where its file lives and
+// whether the stream created it
+interface OpenWrite {
+  writable: FileSystemWritableFileStream;
+  dir: FileSystemDirectoryHandle;
+  name: string;
+  created: boolean;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Creates the OPFS runtime that executes inside the inspected page's origin —
+ * either in the isolated world of the content script or in the main world.
+ *
+ * The eval transport installs the runtime by serializing this factory with
+ * Function.prototype.toString(), so it must stay fully self-contained: every
+ * helper lives inside the function body and nothing outside it (other than
+ * types and browser globals) may be referenced.
+ *
+ * An `env` swaps the OPFS root for another directory handle, e.g. the
+ * in-memory tree the panel uses outside DevTools.
+ */
+export function createOpfsRuntime(env?: RuntimeEnvironment): OpfsRuntime {
+  // Errors raised by the runtime itself carry a name like the DOMExceptions
+  // thrown by OPFS, so the panel can tell failures apart without parsing
+  // messages (see OpfsErrorCode).
+  function namedError(name: string, message: string) {
+    const error = new Error(message);
+    error.name = name;
+    return error;
+  }
+
+  function assertOpfs() {
+    if (env) return;
+    if (!isSecureContext) throw namedError("NotSecureContextError", "OPFS requires a Secure Context (HTTPS or localhost).");
+    if (!navigator.storage?.getDirectory) throw namedError("NotSupportedError", "OPFS API not supported in this browser.");
+  }
+
+  // Split "a/b/c.txt" into its parent directory path and entry name
+  function splitPath(path: string) {
+    const parts = path.split("/");
+    const name = parts.pop() || "";
+    return { dirPath: parts.join("/"), name };
+  }
+
+  function getBucketManager(): StorageBucketManager | undefined {
+    return (navigator as Navigator & { storageBuckets?: StorageBucketManager }).storageBuckets;
+  }
+
+  // Open an existing bucket. StorageBucketManager.open() creates missing
+  // buckets, and browsing must never do that.
+  async function openBucket(name: string): Promise<StorageBucketHandle> {
+    const manager = env ? undefined : getBucketManager();
+    if (!env && !manager) throw namedError("NotSupportedError", "Storage Buckets API not supported in this browser.");
+    if (!manager || (await manager.keys()).indexOf(name) === -1) {
+      throw namedError("NotFoundError", "Storage bucket \"" + name + "\" not found.");
+    }
+    return manager.open(name);
+  }
+
+  // Resolve a path string to a DirectoryHandle in the given bucket
+  async function resolvePath(path: string, bucket?: string): Promise<FileSystemDirectoryHandle> {
+    const root = bucket
+      ? await (await openBucket(bucket)).getDirectory()
+      : env ? await env.getRoot() : await navigator.storage.getDirectory();
+    if (!path || path === "") return root;
+    const parts = path.split("/").filter(p => p.length > 0);
+    let current = root;
+    for (const part of parts) {
+      current = await current.getDirectoryHandle(part);
+    }
+    return current;
+  }
+
+  // Known text file extensions — extensionless / custom-ext files fall through to content sniffing
+  const textExtensions = [
+    ".txt", ".json", ".js", ".jsx", ".ts", ".tsx", ".css", ".scss", ".sass",
+    ".html", ".htm", ".md", ".markdown", ".xml", ".yaml", ".yml", ".toml",
+    ".ini", ".cfg", ".env", ".gitignore", ".sh", ".bash", ".zsh", ".fish",
+    ".py", ".rb", ".php", ".java", ".c", ".cpp", ".h", ".hpp", ".rs", ".go",
+    ".swift", ".kt", ".sql", ".graphql", ".vue", ".svelte", ".astro",
+    // Game / 3D engine assets
+    ".scene", ".prefab", ".asset", ".meta", ".shader", ".glsl", ".wgsl",
+    ".hlsl", ".material", ".anim", ".controller", ".tscn", ".gd", ".tres",
+    ".godot", ".unity",
+    // Config & data formats
+    ".conf", ".config", ".lock", ".map", ".csv", ".tsv", ".log",
+    ".properties", ".plist", ".strings", ".tf", ".hcl", ".proto",
+    // Additional languages
+    ".lua", ".r", ".dart", ".ex", ".exs", ".erl", ".hs", ".elm",
+    ".clj", ".cljs", ".coffee", ".asm", ".s"
+  ];
+
+  // Known binary file extensions — skip content sniffing for these
+  const binaryExtensions = [
+    ".wasm", ".db", ".sqlite", ".sqlite3", ".bin", ".dat", ".exe", ".dll",
+    ".so", ".dylib", ".o", ".obj", ".lib", ".a", ".class", ".pyc", ".pyo",
+    ".zip", ".tar", ".gz", ".tgz", ".bz2", ".xz", ".7z", ".rar",
+    ".pdf", ".doc", ".docx", ".xls", ".xlsx", ".ppt", ".pptx",
+    ".mp3", ".mp4", ".avi", ".mov", ".mkv", ".wav", ".flac", ".ogg", ".aac",
+    ".pb", ".onnx", ".parquet", ".arrow", ".npy", ".npz",
+    ".ttf", ".otf", ".woff", ".woff2"
+  ];
+
+  // Check if file is an image
+  function isImageFile(file: File) {
+    const imageExtensions = [".jpg", ".jpeg", ".png", ".gif", ".webp", ".svg", ".ico", ".bmp", ".avif"];
+    const name = file.name.toLowerCase();
+    return file.type.startsWith("image/") || imageExtensions.some(ext => name.endsWith(ext));
+  }
+
+  // Multi-strategy file type detection: MIME type → extension → content sniffing
+  async function detectFileType(file: File): Promise<"text" | "binary" | "image" | "unknown"> {
+    // Strategy 1: Image
+    if (isImageFile(file)) return "image";
+
+    // Strategy 2: MIME type clues
+    if (
+      file.type.startsWith("text/") ||
+      file.type === "application/json" ||
+      file.type === "application/javascript" ||
+      file.type === "application/xml"
+    ) return "text";
+    if (
+      file.type === "application/octet-stream" ||
+      file.type === "application/wasm" ||
+      file.type.startsWith("audio/") ||
+      file.type.startsWith("video/") ||
+      file.type === "application/pdf" ||
+      file.type === "application/zip" ||
+      (file.type.startsWith("application/vnd.") && file.type !== "application/vnd.apple.mpegurl")
+    ) return "binary";
+
+    // Strategy 3: Extension matching
+    const name = file.name.toLowerCase();
+    if (textExtensions.some(ext => name.endsWith(ext))) return "text";
+    if (binaryExtensions.some(ext => name.endsWith(ext))) return "binary";
+
+    // Strategy 4: Content sniffing on first 4096 bytes
+    if (file.size === 0) return "text";
+    try {
+      const sampleSize = Math.min(4096, file.size);
+      const buffer = await file.slice(0, sampleSize).arrayBuffer();
+      const bytes = new Uint8Array(buffer);
+
+      if (bytes.length >= 2) {
+        const b0 = bytes[0], b1 = bytes[1];
+        const b2 = bytes.length > 2 ? bytes[2] : 0;
+        const b3 = bytes.length > 3 ? bytes[3] : 0;
+        // Magic byte signatures for well-known binary formats
+        if (b0 === 0x89 && b1 === 0x50 && b2 === 0x4E && b3 === 0x47) return "binary"; // PNG
+        if (b0 === 0xFF && b1 === 0xD8) return "binary"; // JPEG
+        if (b0 === 0x47 && b1 === 0x49 && b2 === 0x46) return "binary"; // GIF
+        if (b0 === 0x25 && b1 === 0x50 && b2 === 0x44 && b3 === 0x46) return "binary"; // PDF %PDF
+        if (b0 === 0x50 && b1 === 0x4B) return "binary"; // ZIP/DOCX/etc PK header
+        if (b0 === 0x7F && b1 === 0x45 && b2 === 0x4C && b3 === 0x46) return "binary"; // ELF
+        if (b0 === 0x00 && b1 === 0x61 && b2 === 0x73 && b3 === 0x6D) return "binary"; // WASM \0asm
+        if (b0 === 0x53 && b1 === 0x51 && b2 === 0x4C && b3 === 0x69) return "binary"; // SQLite
+        if (b0 === 0x1F && b1 === 0x8B) return "binary"; // GZip
+        if (b0 === 0x42 && b1 === 0x5A && b2 === 0x68) return "binary"; // BZip2
+        if (b0 === 0xFD && b1 === 0x37 && b2 === 0x7A) return "binary"; // XZ
+        if (b0 === 0x52 && b1 === 0x49 && b2 === 0x46 && b3 === 0x46) return "binary"; // RIFF (WAV/AVI/WebP)
+        if (b0 === 0x4F && b1 === 0x67 && b2 === 0x67 && b3 === 0x53) return "binary"; // OGG
+        if (b0 === 0xCA && b1 === 0xFE && b2 === 0xBA && b3 === 0xBE) return "binary"; // Java class
+        if (b0 === 0x4D && b1 === 0x5A) return "binary"; // PE/EXE MZ
+        if (b0 === 0x37 && b1 === 0x7A && b2 === 0xBC && b3 === 0xAF) return "binary"; // 7-zip
+      }
+
+      // Byte statistics
+      let nullCount = 0;
+      let highCount = 0;
+      let controlCount = 0; // non-printable control chars (< 0x20, excluding tab/LF/CR)
+      for (let i = 0; i < bytes.length; i++) {
+        const b = bytes[i];
+        if (b === 0x00) nullCount++;
+        else if (b > 0x7E) highCount++;
+        else if (b < 0x20 && b !== 0x09 && b !== 0x0A && b !== 0x0D) controlCount++;
+      }
+
+      // Null bytes are a strong binary indicator
+      if (nullCount > 0) return "binary";
+      // High ratio of non-ASCII bytes → likely binary
+      if (highCount / bytes.length > 0.30) return "binary";
+      // High ratio of control characters → likely binary
+      if (controlCount / bytes.length > 0.10) return "binary";
+
+      // Content probe: look for common text patterns at the start
+      const decoder = new TextDecoder("utf-8", { fatal: false });
+      const text = decoder.decode(bytes).trimStart();
+      if (
+        text.startsWith("{") || text.startsWith("[") || // JSON
+        text.startsWith("<") || // XML/HTML
+        text.startsWith("#") || text.startsWith("//") || text.startsWith("/*") || // Code comments
+        text.startsWith("--") || text.startsWith(";") || // SQL / INI
+        text.startsWith("---") // YAML front-matter
+      ) return "text";
+
+      // Entirely printable ASCII with no suspicious bytes
+      if (nullCount === 0 && highCount === 0 && controlCount === 0) return "text";
+
+      return "unknown";
+    } catch {
+      return "unknown";
+    }
+  }
+
+  // Get MIME type
+  function getMimeType(file: File) {
+    if (file.type) return file.type;
+    const name = file.name.toLowerCase();
+    const ext = name.split(".").pop();
+    const mimeMap: Record<string, string> = {
+      jpg: "image/jpeg", jpeg: "image/jpeg", png: "image/png", gif: "image/gif",
+      webp: "image/webp", svg: "image/svg+xml", ico: "image/x-icon", bmp: "image/bmp",
+      avif: "image/avif", json: "application/json", js: "application/javascript",
+      html: "text/html", css: "text/css", xml: "application/xml", md: "text/markdown",
+      txt: "text/plain"
+    };
+    return mimeMap[ext || ""] || "application/octet-stream";
+  }
+
+  // Encode bytes as base64 in 8 KB chunks to avoid the call-stack overflow
+  // that occurs when spreading large buffers into String.fromCharCode.
+  function bytesToBase64(bytes: Uint8Array) {
+    let binary = "";
+    const CHUNK = 8192;
+    for (let i = 0; i < bytes.length; i += CHUNK) {
+      binary += String.fromCharCode.apply(null, bytes.subarray(i, i + CHUNK) as unknown as number[]);
+    }
+    return btoa(binary);
+  }
+
+  function base64ToBytes(base64: string) {
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  // Removes an entry from a directory, self-healing "ghost" entries that OPFS
+  // can occasionally leave behind (e.g. after a create/move operation is
+  // interrupted by the page being paused at a debugger breakpoint, or after
+  // browser-level storage corruption). A ghost entry shows up when iterating
+  // dirHandle.entries()/keys() but throws NotFoundError when removeEntry() is
+  // called directly — the directory's index still references it, but the
+  // underlying node is gone.
+  //
+  // The fix is to force the browser to (re)materialize a fresh, valid entry
+  // with the exact same name — by calling getFileHandle/getDirectoryHandle
+  // with { create: true } — which repairs the directory index, and then retry
+  // the removal against that now-valid entry.
+  async function removeEntryRobust(dirHandle: FileSystemDirectoryHandle, name: string) {
+    try {
+      await dirHandle.removeEntry(name, { recursive: true });
+      return;
+    } catch (err) {
+      const e = err as Error | null;
+      const isNotFound = e && (e.name === "NotFoundError" || /not.*found/i.test(e.message || ""));
+      if (!isNotFound) throw err;
+
+      let lastErr = err;
+      for (const kind of ["directory", "file"]) {
+        try {
+          if (kind === "directory") {
+            await dirHandle.getDirectoryHandle(name, { create: true });
+          } else {
+            await dirHandle.getFileHandle(name, { create: true });
+          }
+          await dirHandle.removeEntry(name, { recursive: true });
+          return; // Repaired and removed successfully
+        } catch (repairErr) {
+          lastErr = repairErr;
+        }
+      }
+      throw lastErr;
+    }
+  }
+
+  // Counts a handle and everything below it, as the total for entry progress
+  async function countEntries(
+    handle: FileSystemFileHandle | FileSystemDirectoryHandle,
+    context: OperationContext
+  ): Promise<number> {
+    if (handle.kind === "file") return 1;
+    let count = 1;
+    for await (const [, child] of handle.entries()) {
+      context.throwIfCancelled();
+      count += await countEntries(child, context);
+    }
+    return count;
+  }
+
+  // Returns a callback that reports one more entry done out of `total`
+  function entryProgress(context: OperationContext, total: number) {
+    let done = 0;
+    return function() {
+      done++;
+      context.progress({ unit: "entries", done: done, total: total });
+    };
+  }
+
+  // Polyfill for recursive copy (used when move() is not supported)
+  async function copyEntry(
+    sourceHandle: FileSystemFileHandle | FileSystemDirectoryHandle,
+    destParentHandle: FileSystemDirectoryHandle,
+    context: OperationContext,
+    step: () => void,
+    newName?: string
+  ): Promise<void> {
+    context.throwIfCancelled();
+    if (sourceHandle.kind === "file") {
+      const destFile = await destParentHandle.getFileHandle(newName || sourceHandle.name, { create: true });
+      const srcFile = await sourceHandle.getFile();
+      const writable = await destFile.createWritable();
+      // Streamed, so copying a multi-GB database doesn't load it into memory
+      await srcFile.stream().pipeTo(writable);
+      step();
+    } else if (sourceHandle.kind === "directory") {
+      const destDir = await destParentHandle.getDirectoryHandle(newName || sourceHandle.name, { create: true });
+      step();
+      for await (const [name, handle] of sourceHandle.entries()) {
+        await copyEntry(handle, destDir, context, step, name);
+      }
+    }
+  }
+
+  // Removes an entry one descendant at a time so a large recursive delete
+  // can be cancelled part-way. Entries that can't be opened as a directory
+  // (files, ghosts) are removed directly.
+  async function removeTree(
+    dirHandle: FileSystemDirectoryHandle,
+    name: string,
+    context: OperationContext,
+    step: () => void
+  ): Promise<void> {
+    const handle = await dirHandle.getDirectoryHandle(name).catch(() => null);
+    if (handle) {
+      // Collect names first — removing entries while iterating is undefined
+      const childNames: string[] = [];
+      for await (const childName of handle.keys()) childNames.push(childName);
+      for (const childName of childNames) {
+        context.throwIfCancelled();
+        await removeTree(handle, childName, context, step);
+      }
+    }
+    context.throwIfCancelled();
+    await removeEntryRobust(dirHandle, name);
+    step();
+  }
+
+  // A file is locked while the page holds a FileSystemSyncAccessHandle on it
+  // (SQLite wasm, workers): createWritable() then fails with a
+  // NoModificationAllowedError. Aborting the probe's writable leaves the file
+  // untouched, and without keepExistingData nothing is copied to the swap
+  // file first. The probe holds the file for a moment, so it's only run when
+  // asked for.
+  async function isLocked(handle: FileSystemFileHandle): Promise<boolean> {
+    try {
+      const writable = await handle.createWritable({ keepExistingData: false });
+      await writable.abort();
+      return false;
+    } catch (err) {
+      return !!err && (err as Error).name === "NoModificationAllowedError";
+    }
+  }
+
+  // Reads a directory's entries, directories first and then by name. With
+  // `includeMeta`, files get their size, modification time and MIME type.
+  async function readEntries(
+    dirHandle: FileSystemDirectoryHandle,
+    path: string,
+    includeMeta: boolean,
+    context: OperationContext,
+    step: () => void
+  ): Promise<{ entry: FileEntry; handle: FileSystemFileHandle | FileSystemDirectoryHandle }[]> {
+    const children: { entry: FileEntry; handle: FileSystemFileHandle | FileSystemDirectoryHandle }[] = [];
+    for await (const [name, handle] of dirHandle.entries()) {
+      context.throwIfCancelled();
+      const entry: FileEntry = {
+        name: name,
+        kind: handle.kind,
+        path: path ? path + "/" + name : name
+      };
+      if (includeMeta && handle.kind === "file") {
+        try {
+          const file = await handle.getFile();
+          entry.size = file.size;
+          entry.lastModified = file.lastModified;
+          if (file.type) entry.mimeType = file.type;
+        } catch {
+          // Unreadable entries are still listed, just without metadata
+        }
+      }
+      children.push({ entry: entry, handle: handle });
+      step();
+    }
+    return children.sort((a, b) => {
+      if (a.entry.kind === b.entry.kind) return a.entry.name.localeCompare(b.entry.name);
+      return a.entry.kind === "directory" ? -1 : 1;
+    });
+  }
+
+  // Entries walk() returns when the caller doesn't set a limit
+  const WALK_LIMIT = 10000;
+
+  async function getFile(path: string, bucket?: string) {
+    const { dirPath, name } = splitPath(path);
+    const dirHandle = await resolvePath(dirPath, bucket);
+    const fileHandle = await dirHandle.getFileHandle(name);
+    return fileHandle.getFile();
+  }
+
+  // Hands a blob to the browser as a download
+  function saveBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    a.style.display = "none";
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    // Delay revocation so the browser has time to read the object URL and
+    // initiate the download. Revoking synchronously after click() causes the
+    // browser to see a revoked (empty) URL, resulting in a 0-byte or
+    // corrupted file — especially noticeable with binary files like Arrow.
+    setTimeout(function() { URL.revokeObjectURL(url); }, 30000);
+  }
+
+  // ZIP archives are assembled as a Blob of headers and file data. Stored
+  // files are referenced rather than copied, so nothing is held as one big
+  // buffer. Without ZIP64, entries and offsets must fit in 32 bits.
+  const ZIP_MAX = 0xffffffff;
+  let crcTable: Uint32Array | null = null;
+
+  function crc32(crc: number, bytes: Uint8Array) {
+    if (!crcTable) {
+      crcTable = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        crcTable[n] = c >>> 0;
+      }
+    }
+    let c = crc ^ 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) c = crcTable[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+    return (c ^ 0xffffffff) >>> 0;
+  }
+
+  // MS-DOS date and time, as ZIP headers store them (2-second resolution)
+  function dosDateTime(ms: number) {
+    const d = new Date(ms);
+    const year = Math.min(Math.max(d.getFullYear(), 1980), 2107);
+    return {
+      time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+      date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+    };
+  }
+
+  // Reads a file once for its CRC-32 and, when compressing, its deflated
+  // bytes — kept only if they're smaller than the file
+  async function zipFileData(file: File, compress: boolean, context: OperationContext, onRead: (bytes: number) => void) {
+    let crc = 0;
+    let writer: WritableStreamDefaultWriter<BufferSource> | null = null;
+    let deflated: Promise<Blob> | null = null;
+    if (compress) {
+      const compression = new CompressionStream("deflate-raw");
+      writer = compression.writable.getWriter();
+      deflated = new Response(compression.readable).blob();
+      // Rejects once the writer is aborted; awaited only when reading succeeded
+      deflated.catch(function() {});
+    }
+    const reader = file.stream().getReader();
+    try {
+      for (;;) {
+        context.throwIfCancelled();
+        const { done, value } = await reader.read();
+        if (done) break;
+        crc = crc32(crc, value);
+        if (writer) await writer.write(value);
+        onRead(value.length);
+      }
+      if (writer) await writer.close();
+    } catch (err) {
+      reader.cancel().catch(function() {});
+      if (writer) writer.abort().catch(function() {});
+      throw err;
+    }
+    const data = deflated ? await deflated : null;
+    if (data && data.size < file.size) return { crc: crc, method: 8, data: data as Blob };
+    return { crc: crc, method: 0, data: file as Blob };
+  }
+
+  // Write streams opened by openWrite(), by id. A stream the panel stops
+  // feeding (closed DevTools, navigated away) is aborted after a while, which
+  // releases the file and discards the partial upload.
+  const STREAM_IDLE_MS = 60000;
+  const streams = new Map<string, OpenWrite>();
+
+  // Discards what a stream wrote. A file the stream created is removed too,
+  // so an upload that never finished doesn't leave an empty file behind.
+  async function discardStream(open: OpenWrite) {
+    await open.writable.abort().catch(function() {});
+    if (open.created) await open.dir.removeEntry(open.name).catch(function() {});
+  }
+
+  function expireStream(id: string) {
+    const open = streams.get(id);
+    if (!open) return;
+    streams.delete(id);
+    discardStream(open);
+  }
+
+  // Claim a stream for one call; the caller puts it back if it stays open
+  function takeStream(id: string) {
+    const open = streams.get(id);
+    if (!open) throw namedError("NotFoundError", "The upload stream was closed or timed out.");
+    streams.delete(id);
+    clearTimeout(open.timer);
+    return open;
+  }
+
+  const ops: RuntimeOps = {
+    async list({ path, bucket }, context) {
+      assertOpfs();
+      const dirHandle = await resolvePath(path, bucket);
+      const children = await readEntries(dirHandle, path, true, context, entryProgress(context, 0));
+      return children.map(child => child.entry);
+    },
+
+    async walk({ path, maxDepth, includeMeta, limit, bucket }, context) {
+      assertOpfs();
+      const root = await resolvePath(path, bucket);
+      const max = limit && limit > 0 ? limit : WALK_LIMIT;
+      const step = entryProgress(context, 0);
+      const entries: WalkEntry[] = [];
+      let truncated = false;
+
+      async function visit(dirHandle: FileSystemDirectoryHandle, dirPath: string, depth: number): Promise<void> {
+        let children;
+        try {
+          children = await readEntries(dirHandle, dirPath, !!includeMeta, context, step);
+        } catch (err) {
+          // A subdirectory that can't be read (e.g. a ghost entry) is listed
+          // but not descended into
+          if (depth === 0 || (err instanceof Error && err.name === "AbortError")) throw err;
+          return;
+        }
+        for (const { entry, handle } of children) {
+          if (entries.length >= max) {
+            truncated = true;
+            return;
+          }
+          entries.push({ ...entry, depth: depth });
+          if (handle.kind === "directory" && (!maxDepth || depth + 1 < maxDepth)) {
+            await visit(handle, entry.path, depth + 1);
+            if (truncated) return;
+          }
+        }
+      }
+
+      await visit(root, path, 0);
+      return { entries: entries, truncated: truncated };
+    },
+
+    async readWithMeta({ path, forceText, bucket }, context) {
+      assertOpfs();
+      const file = await getFile(path, bucket);
+      context.throwIfCancelled();
+      const mimeType = getMimeType(file);
+
+      // When forceText is true (user clicked "Open as Text"), skip detection
+      const detectedType = forceText ? "text" : await detectFileType(file);
+
+      // Images — return as base64 data URL (up to 5 MB)
+      if (detectedType === "image") {
+        if (file.size > 5 * 1024 * 1024) {
+          return {
+            content: "[TOO_LARGE] Image is too large to preview (" + (file.size / 1024 / 1024).toFixed(2) + " MB)",
+            mimeType: mimeType,
+            size: file.size,
+            isBase64: false,
+            detectedType: "image",
+            isLargeText: false
+          };
+        }
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        return {
+          content: "data:" + mimeType + ";base64," + bytesToBase64(bytes),
+          mimeType: mimeType,
+          size: file.size,
+          isBase64: true,
+          detectedType: "image",
+          isLargeText: false
+        };
+      }
+
+      // Text files — allow up to 10 MB; files between 1–10 MB are flagged as large
+      if (detectedType === "text") {
+        const TEXT_MAX = 10 * 1024 * 1024; // 10 MB hard cap
+        const LARGE_THRESHOLD = 1024 * 1024; // 1 MB
+        if (file.size > TEXT_MAX) {
+          return {
+            content: "[TOO_LARGE] File is too large to preview (" + (file.size / 1024 / 1024).toFixed(2) + " MB). Download to view.",
+            mimeType: mimeType,
+            size: file.size,
+            isBase64: false,
+            detectedType: "text",
+            isLargeText: false
+          };
+        }
+        return {
+          content: await file.text(),
+          mimeType: mimeType,
+          size: file.size,
+          isBase64: false,
+          detectedType: "text",
+          isLargeText: file.size > LARGE_THRESHOLD
+        };
+      }
+
+      // Unknown type — content sniffing was inconclusive; let the user decide
+      if (detectedType === "unknown") {
+        return {
+          content: "[UNKNOWN_TYPE] Cannot determine whether this file is text or binary. Use \"Open as Text\" to force text editing, or download to inspect.",
+          mimeType: mimeType,
+          size: file.size,
+          isBase64: false,
+          detectedType: "unknown",
+          isLargeText: false
+        };
+      }
+
+      // Binary files
+      return {
+        content: "[BINARY] Type: " + mimeType + ", Size: " + file.size + " bytes",
+        mimeType: mimeType,
+        size: file.size,
+        isBase64: false,
+        detectedType: "binary",
+        isLargeText: false
+      };
+    },
+
+    async readRange({ path, offset, length, bucket }, context) {
+      assertOpfs();
+      // Bounds how much a single port message or eval result has to carry
+      const RANGE_MAX = 16 * 1024 * 1024;
+      const file = await getFile(path, bucket);
+      const start = Math.min(Math.max(0, Math.floor(offset) || 0), file.size);
+      const end = Math.min(file.size, start + Math.min(Math.max(0, Math.floor(length) || 0), RANGE_MAX));
+      const bytes = new Uint8Array(await file.slice(start, end).arrayBuffer());
+      context.progress({ unit: "bytes", done: bytes.length, total: end - start });
+      return {
+        content: bytesToBase64(bytes),
+        offset: start,
+        length: bytes.length,
+        size: file.size
+      };
+    },
+
+    async write({ path, content, isBinary, bucket }, context) {
+      assertOpfs();
+      context.throwIfCancelled();
+
+      const { dirPath, name } = splitPath(path);
+      const dirHandle = await resolvePath(dirPath, bucket);
+      const fileHandle = await dirHandle.getFileHandle(name, { create: true });
+      const writable = await fileHandle.createWritable();
+
+      // Write in 1 MB chunks so a large upload can be cancelled part-way.
+      // Aborting the stream discards everything written so far, leaving the
+      // file as it was.
+      const bytes = isBinary ? base64ToBytes(content) : new TextEncoder().encode(content);
+      const CHUNK = 1024 * 1024;
+      try {
+        for (let offset = 0; offset < bytes.length; offset += CHUNK) {
+          context.throwIfCancelled();
+          await writable.write(bytes.subarray(offset, offset + CHUNK));
+          context.progress({ unit: "bytes", done: Math.min(offset + CHUNK, bytes.length), total: bytes.length });
+        }
+        context.throwIfCancelled();
+      } catch (err) {
+        await writable.abort().catch(function() {});
+        throw err;
+      }
+      await writable.close();
+      return true;
+    },
+
+    async openWrite({ path, bucket }) {
+      assertOpfs();
+      const { dirPath, name } = splitPath(path);
+      const dirHandle = await resolvePath(dirPath, bucket);
+      const created = await dirHandle.getFileHandle(name).then(function() { return false; }, function() { return true; });
+      const fileHandle = await dirHandle.getFileHandle(name, { create: true });
+      const writable = await fileHandle.createWritable();
+      const id = Date.now().toString(36) + Math.random().toString(36).slice(2);
+      streams.set(id, {
+        writable: writable,
+        dir: dirHandle,
+        name: name,
+        created: created,
+        timer: setTimeout(function() { expireStream(id); }, STREAM_IDLE_MS),
+      });
+      return { stream: id };
+    },
+
+    async writeChunk({ stream, content }, context) {
+      const open = takeStream(stream);
+      try {
+        context.throwIfCancelled();
+        await open.writable.write(base64ToBytes(content));
+      } catch (err) {
+        await discardStream(open);
+        throw err;
+      }
+      open.timer = setTimeout(function() { expireStream(stream); }, STREAM_IDLE_MS);
+      streams.set(stream, open);
+      return true;
+    },
+
+    async closeWrite({ stream, commit }) {
+      const open = takeStream(stream);
+      if (commit) {
+        await open.writable.close();
+      } else {
+        await discardStream(open);
+      }
+      return true;
+    },
+
+    async rename({ path, newName, bucket }, context) {
+      assertOpfs();
+      const { dirPath, name: oldName } = splitPath(path);
+      const dirHandle = await resolvePath(dirPath, bucket);
+
+      let handle: FileSystemFileHandle | FileSystemDirectoryHandle;
+      try {
+        handle = await dirHandle.getFileHandle(oldName);
+      } catch {
+        try {
+          handle = await dirHandle.getDirectoryHandle(oldName);
+        } catch {
+          // The entry shows up in the parent's listing but can't be resolved
+          // as a file or directory — a corrupted/orphaned "ghost" entry.
+          // Renaming it isn't meaningful (there's no real content to move),
+          // but we can still repair the directory index so it can be deleted.
+          throw namedError("NotFoundError", "This item appears to be corrupted (a known OPFS storage issue) and can't be renamed. Try deleting it instead.");
+        }
+      }
+
+      context.throwIfCancelled();
+      if ("move" in handle) {
+        await (handle as MovableHandle).move(newName);
+      } else {
+        // Polyfill for browsers that don't support move() (e.g. Firefox, Safari)
+        const step = entryProgress(context, await countEntries(handle, context));
+        await copyEntry(handle, dirHandle, context, step, newName);
+        context.throwIfCancelled();
+        await removeEntryRobust(dirHandle, oldName);
+      }
+      return true;
+    },
+
+    async move({ oldPath, newPath, bucket }, context) {
+      assertOpfs();
+      // Resolve source
+      const { dirPath: oldDirPath, name: oldName } = splitPath(oldPath);
+      const oldDirHandle = await resolvePath(oldDirPath, bucket);
+
+      let handle: FileSystemFileHandle | FileSystemDirectoryHandle;
+      try {
+        handle = await oldDirHandle.getFileHandle(oldName);
+      } catch {
+        handle = await oldDirHandle.getDirectoryHandle(oldName);
+      }
+
+      // Resolve destination
+      const { dirPath: newDirPath, name: newName } = splitPath(newPath);
+      const newDirHandle = await resolvePath(newDirPath, bucket);
+
+      context.throwIfCancelled();
+      if ("move" in handle) {
+        await (handle as MovableHandle).move(newDirHandle, newName);
+      } else {
+        // Polyfill for browsers that don't support move() (e.g. Firefox, Safari)
+        const step = entryProgress(context, await countEntries(handle, context));
+        await copyEntry(handle, newDirHandle, context, step, newName);
+        context.throwIfCancelled();
+        await removeEntryRobust(oldDirHandle, oldName);
+      }
+      return true;
+    },
+
+    async copy({ src, dest, bucket }, context) {
+      assertOpfs();
+      if (dest === src || dest.startsWith(src + "/")) {
+        throw namedError("InvalidModificationError", "Can't copy \"" + src + "\" into itself.");
+      }
+      const { dirPath: srcDirPath, name: srcName } = splitPath(src);
+      const srcDirHandle = await resolvePath(srcDirPath, bucket);
+      let handle: FileSystemFileHandle | FileSystemDirectoryHandle;
+      try {
+        handle = await srcDirHandle.getFileHandle(srcName);
+      } catch {
+        handle = await srcDirHandle.getDirectoryHandle(srcName);
+      }
+
+      const { dirPath: destDirPath, name: destName } = splitPath(dest);
+      const destDirHandle = await resolvePath(destDirPath, bucket);
+      for await (const name of destDirHandle.keys()) {
+        if (name === destName) throw namedError("InvalidModificationError", "\"" + dest + "\" already exists.");
+      }
+
+      const step = entryProgress(context, await countEntries(handle, context));
+      try {
+        await copyEntry(handle, destDirHandle, context, step, destName);
+      } catch (err) {
+        await removeEntryRobust(destDirHandle, destName).catch(function() {});
+        throw err;
+      }
+      return true;
+    },
+
+    async create({ path, kind, bucket }) {
+      assertOpfs();
+      const { dirPath, name } = splitPath(path);
+      const dirHandle = await resolvePath(dirPath, bucket);
+      if (kind === "directory") {
+        await dirHandle.getDirectoryHandle(name, { create: true });
+      } else {
+        await dirHandle.getFileHandle(name, { create: true });
+      }
+      return true;
+    },
+
+    async delete({ path, bucket }, context) {
+      assertOpfs();
+      const { dirPath, name } = splitPath(path);
+      const dirHandle = await resolvePath(dirPath, bucket);
+      // Files and ghost entries can't be opened as a directory; they count as one
+      const directory = await dirHandle.getDirectoryHandle(name).catch(() => null);
+      const total = directory ? await countEntries(directory, context) : 1;
+      await removeTree(dirHandle, name, context, entryProgress(context, total));
+      return true;
+    },
+
+    async batch({ operations, stopOnError, bucket }, context) {
+      assertOpfs();
+      // Progress of the individual operations would mix up units and totals,
+      // so only operations done are reported
+      const quiet: OperationContext = { throwIfCancelled: context.throwIfCancelled, progress: function() {} };
+      const step = entryProgress(context, operations.length);
+      const results: BatchOperationResult[] = [];
+      let failed = false;
+      for (const operation of operations) {
+        if (failed && stopOnError) {
+          results.push({ ok: false, skipped: true });
+          continue;
+        }
+        context.throwIfCancelled();
+        try {
+          switch (operation.op) {
+            case "create":
+              await ops.create({ path: operation.path, kind: operation.kind, bucket: bucket }, quiet);
+              break;
+            case "delete":
+              await ops.delete({ path: operation.path, bucket: bucket }, quiet);
+              break;
+            case "move":
+              await ops.move({ oldPath: operation.oldPath, newPath: operation.newPath, bucket: bucket }, quiet);
+              break;
+            case "copy":
+              await ops.copy({ src: operation.src, dest: operation.dest, bucket: bucket }, quiet);
+              break;
+            case "write":
+              await ops.write({ path: operation.path, content: operation.content, isBinary: operation.isBinary, bucket: bucket }, quiet);
+              break;
+            case "download":
+              await ops.download({ path: operation.path, bucket: bucket }, quiet);
+              break;
+            default:
+              throw namedError("NotSupportedError", "Unknown batch operation.");
+          }
+          results.push({ ok: true });
+        } catch (err) {
+          const error = err as { name?: string; message?: string };
+          if (error && error.name === "AbortError") throw err;
+          failed = true;
+          results.push({ ok: false, error: { name: (error && error.name) || "Error", message: (error && error.message) || String(err) } });
+        }
+        step();
+      }
+      return results;
+    },
+
+    async download({ path, bucket }) {
+      assertOpfs();
+      const file = await getFile(path, bucket);
+      saveBlob(file, file.name);
+      return true;
+    },
+
+    async downloadZip({ paths, name, compress, snapshot, bucket }, context) {
+      assertOpfs();
+      const deflate = compress !== false && typeof CompressionStream !== "undefined";
+      // Entries inside another selected folder come along with it
+      const roots = paths.includes("") ? [""] : paths.filter(function(path) {
+        return !paths.some(function(other) { return other !== path && path.startsWith(other + "/"); });
+      });
+      // Archive paths start below the deepest folder all entries share
+      let common = roots.length === 1 ? splitPath(roots[0]).dirPath : "";
+      if (roots.length > 1) {
+        const parents = roots.map(function(path) { return splitPath(path).dirPath.split("/").filter(Boolean); });
+        const shared: string[] = [];
+        for (let i = 0; parents.every(function(parts) { return i < parts.length && parts[i] === parents[0][i]; }); i++) {
+          shared.push(parents[0][i]);
+        }
+        common = shared.join("/");
+      }
+
+      const items: { zipPath: string; file: File | null }[] = [];
+      async function collect(handle: FileSystemFileHandle | FileSystemDirectoryHandle, zipPath: string): Promise<void> {
+        context.throwIfCancelled();
+        if (handle.kind === "file") {
+          items.push({ zipPath: zipPath, file: await handle.getFile() });
+          return;
+        }
+        if (zipPath) items.push({ zipPath: zipPath + "/", file: null });
+        for await (const [childName, child] of handle.entries()) {
+          await collect(child, zipPath ? zipPath + "/" + childName : childName);
+        }
+      }
+      for (const path of roots) {
+        if (!path) {
+          await collect(await resolvePath("", bucket), "");
+          continue;
+        }
+        const { dirPath, name: entryName } = splitPath(path);
+        const dirHandle = await resolvePath(dirPath, bucket);
+        let handle: FileSystemFileHandle | FileSystemDirectoryHandle;
+        try {
+          handle = await dirHandle.getFileHandle(entryName);
+        } catch {
+          handle = await dirHandle.getDirectoryHandle(entryName);
+        }
+        await collect(handle, common ? path.slice(common.length + 1) : path);
+      }
+      if (snapshot) {
+        // A snapshot keeps the entries under files/ and describes them in manifest.json
+        const manifest: SnapshotManifest = {
+          format: "opfs-snapshot",
+          version: 1,
+          origin: snapshot.origin,
+          exportedAt: Date.now(),
+          entries: items.map(function(item) {
+            return item.file
+              ? { path: item.zipPath, kind: "file" as const, size: item.file.size, lastModified: item.file.lastModified }
+              : { path: item.zipPath.slice(0, -1), kind: "directory" as const };
+          }),
+        };
+        if (bucket) manifest.bucket = bucket;
+        for (const item of items) item.zipPath = "files/" + item.zipPath;
+        items.unshift({ zipPath: "manifest.json", file: new File([JSON.stringify(manifest, null, 2)], "manifest.json", { type: "application/json" }) });
+      }
+      if (items.length >= 0xffff) throw namedError("NotSupportedError", "Too many entries for a ZIP archive (65,535 at most).");
+
+      const total = items.reduce(function(sum, item) { return sum + (item.file ? item.file.size : 0); }, 0);
+      let done = 0;
+      const encoder = new TextEncoder();
+      const parts: BlobPart[] = [];
+      const central: Uint8Array<ArrayBuffer>[] = [];
+      let offset = 0;
+      for (const item of items) {
+        const nameBytes = encoder.encode(item.zipPath);
+        const { time, date } = dosDateTime(item.file ? item.file.lastModified : Date.now());
+        const entry = item.file
+          ? await zipFileData(item.file, deflate, context, function(bytes) {
+            done += bytes;
+            context.progress({ unit: "bytes", done: done, total: total });
+          })
+          : { crc: 0, method: 0, data: null };
+        const size = item.file ? item.file.size : 0;
+        const compressedSize = entry.data ? entry.data.size : 0;
+        if (size >= ZIP_MAX || offset + 30 + nameBytes.length + compressedSize >= ZIP_MAX) {
+          throw namedError("NotSupportedError", "The archive would be larger than 4 GB, which ZIP files without ZIP64 can't hold.");
+        }
+
+        // Local file header; bit 11 marks UTF-8 names
+        const local = new Uint8Array(30 + nameBytes.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, 0x04034b50, true);
+        lv.setUint16(4, 20, true);
+        lv.setUint16(6, 0x0800, true);
+        lv.setUint16(8, entry.method, true);
+        lv.setUint16(10, time, true);
+        lv.setUint16(12, date, true);
+        lv.setUint32(14, entry.crc, true);
+        lv.setUint32(18, compressedSize, true);
+        lv.setUint32(22, size, true);
+        lv.setUint16(26, nameBytes.length, true);
+        local.set(nameBytes, 30);
+        parts.push(local);
+        if (entry.data) parts.push(entry.data);
+
+        // Central directory record
+        const record = new Uint8Array(46 + nameBytes.length);
+        const cv = new DataView(record.buffer);
+        cv.setUint32(0, 0x02014b50, true);
+        cv.setUint16(4, 20, true);
+        cv.setUint16(6, 20, true);
+        cv.setUint16(8, 0x0800, true);
+        cv.setUint16(10, entry.method, true);
+        cv.setUint16(12, time, true);
+        cv.setUint16(14, date, true);
+        cv.setUint32(16, entry.crc, true);
+        cv.setUint32(20, compressedSize, true);
+        cv.setUint32(24, size, true);
+        cv.setUint16(28, nameBytes.length, true);
+        cv.setUint32(38, item.file ? 0 : 0x10, true);
+        cv.setUint32(42, offset, true);
+        record.set(nameBytes, 46);
+        central.push(record);
+
+        offset += local.length + compressedSize;
+      }
+
+      const centralSize = central.reduce(function(sum, record) { return sum + record.length; }, 0);
+      const end = new Uint8Array(22);
+      const ev = new DataView(end.buffer);
+      ev.setUint32(0, 0x06054b50, true);
+      ev.setUint16(8, items.length, true);
+      ev.setUint16(10, items.length, true);
+      ev.setUint32(12, centralSize, true);
+      ev.setUint32(16, offset, true);
+
+      const blob = new Blob(parts.concat(central, [end]), { type: "application/zip" });
+      saveBlob(blob, name);
+      return { entries: items.length, size: blob.size };
+    },
+
+    async getStorageEstimate({ bucket }) {
+      if (!env && !isSecureContext) throw namedError("NotSecureContextError", "OPFS requires a Secure Context (HTTPS or localhost).");
+      if (!bucket && !navigator.storage?.estimate) throw namedError("NotSupportedError", "Storage API not supported.");
+
+      const estimate = bucket ? await (await openBucket(bucket)).estimate() : await navigator.storage.estimate();
+      return {
+        usage: estimate.usage || 0,
+        quota: estimate.quota || 0
+      };
+    },
+
+    async exists({ path, bucket }) {
+      if (!env && !isSecureContext) return false;
+      if (!env && !navigator.storage?.getDirectory) return false;
+
+      if (!path && !bucket) return true; // Root always exists
+
+      const { dirPath, name } = splitPath(path);
+      try {
+        const dirHandle = await resolvePath(dirPath, bucket);
+        if (!name) return true;
+
+        try {
+          await dirHandle.getFileHandle(name);
+          return true;
+        } catch {
+          try {
+            await dirHandle.getDirectoryHandle(name);
+            return true;
+          } catch {
+            return false;
+          }
+        }
+      } catch {
+        return false;
+      }
+    },
+
+    async probeLocks({ paths, bucket }, context) {
+      assertOpfs();
+      const locked: string[] = [];
+      async function probe(handle: FileSystemFileHandle | FileSystemDirectoryHandle, path: string): Promise<void> {
+        context.throwIfCancelled();
+        if (handle.kind === "file") {
+          if (await isLocked(handle)) locked.push(path);
+          return;
+        }
+        for await (const [name, child] of handle.entries()) {
+          await probe(child, path + "/" + name);
+        }
+      }
+      for (const path of paths) {
+        const { dirPath, name } = splitPath(path);
+        const dirHandle = await resolvePath(dirPath, bucket).catch(() => null);
+        // Missing entries aren't locked; the operation itself reports them
+        const handle = dirHandle && (await dirHandle.getFileHandle(name).catch(() => null) ||
+          await dirHandle.getDirectoryHandle(name).catch(() => null));
+        if (handle) await probe(handle, path);
+      }
+      return locked;
+    },
+
+    async hashFiles({ paths, bucket }, context) {
+      assertOpfs();
+      // Must match MAX_HASH_BYTES in the panel's compare.ts
+      const HASH_MAX = 64 * 1024 * 1024;
+      const files: { path: string; file: File }[] = [];
+      for (const path of paths) {
+        const file = await getFile(path, bucket).catch(function() { return null; });
+        if (file && file.size <= HASH_MAX) files.push({ path: path, file: file });
+      }
+      const total = files.reduce(function(sum, item) { return sum + item.file.size; }, 0);
+      let done = 0;
+      const hashes: Record<string, string> = {};
+      for (const item of files) {
+        context.throwIfCancelled();
+        const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new Uint8Array(await item.file.arrayBuffer())));
+        hashes[item.path] = Array.from(digest, function(byte) { return byte.toString(16).padStart(2, "0"); }).join("");
+        done += item.file.size;
+        context.progress({ unit: "bytes", done: done, total: total });
+      }
+      return hashes;
+    },
+
+    async listBuckets() {
+      const manager = env || !isSecureContext ? undefined : getBucketManager();
+      if (!manager) return [];
+
+      const names = (await manager.keys()).sort();
+      const buckets: StorageBucketInfo[] = [];
+      for (const name of names) {
+        const bucket = await manager.open(name);
+        // Each property is optional metadata — one failing shouldn't hide the bucket
+        const [durability, persisted, estimate, expires] = await Promise.all([
+          bucket.durability().catch(function() { return null; }),
+          bucket.persisted().catch(function() { return null; }),
+          bucket.estimate().catch(function() { return null; }),
+          bucket.expires().catch(function() { return null; }),
+        ]);
+        buckets.push({
+          name: name,
+          durability: durability,
+          persisted: persisted,
+          usage: estimate ? estimate.usage || 0 : null,
+          quota: estimate ? estimate.quota || 0 : null,
+          expires: expires,
+        });
+      }
+      return buckets;
+    },
+
+    async queryLocks() {
+      // An in-memory root has no page whose locks could relate to it
+      if (env || !navigator.locks) return { held: [], pending: [] };
+      const snapshot = await navigator.locks.query();
+      function toInfo(lock: LockInfo): WebLockInfo {
+        return { name: lock.name || "", mode: lock.mode || "exclusive", clientId: lock.clientId || "" };
+      }
+      return {
+        held: (snapshot.held || []).map(toInfo),
+        pending: (snapshot.pending || []).map(toInfo),
+      };
+    },
+  };
+
+  // Used when the caller has no way to cancel or watch an operation
+  const detachedContext: OperationContext = {
+    throwIfCancelled() {},
+    progress() {},
+  };
+
+  // Operations started with an id, so later calls can cancel or poll them
+  const calls = new Map<string, { cancelled: boolean; progress: OperationProgress | null }>();
+
+  function invoke<K extends RuntimeOp>(op: K, args: RuntimeArgs<K>, context?: OperationContext): Promise<RuntimeResult<K>> {
+    const fn = ops[op] as (a: typeof args, c: OperationContext) => Promise<RuntimeResult<K>>;
+    if (typeof fn !== "function") {
+      return Promise.reject(namedError("NotSupportedError", "Unknown OPFS operation: " + String(op)));
+    }
+    const ctx = context || detachedContext;
+    try {
+      ctx.throwIfCancelled();
+    } catch (err) {
+      return Promise.reject(err);
+    }
+    return fn(args, ctx);
+  }
+
+  return {
+    ops,
+    invoke,
+    start(id, op, args, onProgress) {
+      const call = { cancelled: false, progress: null as OperationProgress | null };
+      calls.set(id, call);
+      return invoke(op, args, {
+        throwIfCancelled() {
+          if (call.cancelled) throw namedError("AbortError", "The operation was cancelled.");
+        },
+        progress(progress) {
+          call.progress = progress;
+          if (onProgress) onProgress(progress);
+        },
+      }).finally(function() {
+        calls.delete(id);
+      });
+    },
+    cancel(id) {
+      const call = calls.get(id);
+      if (call) call.cancelled = true;
+    },
+    getProgress(id) {
+      const call = calls.get(id);
+      return call ? call.progress : null;
+    },
+  };
+}
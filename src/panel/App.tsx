@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { opfsApi, type StorageEstimate, type FileReadResult } from './api';
-import type { FileEntry } from './api';
+import { opfsApi, currentOrigin, isOpfsError, toOpfsError, type OpfsError, type OperationOptions, type StorageEstimate, type FileReadResult } from './api';
+import type { FileEntry, WalkEntry } from './api';
 import { TreeItem } from './components/TreeItem';
 import { ContextMenu } from './components/ContextMenu';
 import type { ContextMenuItem } from './components/ContextMenu';
@@ -10,11 +10,30 @@ import { MarkdownPreview } from './components/MarkdownPreview';
 import { ResizeHandle } from './components/ResizeHandle';
 import { Modal } from './components/Modal';
 import { ToastContainer } from './components/Toast';
+import { ProgressPanel, type ActiveOperation } from './components/ProgressPanel';
+import { OperationQueue } from './components/OperationQueue';
+import { FrameSelector } from './components/FrameSelector';
+import { BucketRoots } from './components/BucketRoots';
+import { PagedFileViewer } from './components/PagedFileViewer';
+import { ActivityPanel } from './components/ActivityPanel';
+import { LocksPanel } from './components/LocksPanel';
+import { TrashPanel } from './components/TrashPanel';
+import { ComparePanel } from './components/ComparePanel';
+import { copyName, joinPath, numberedName, parentPath } from './names';
+import { trash, type TrashItem } from './trash';
+import { ARCHIVE_ACCEPT, isArchive, readArchive } from './archives';
+import { fromFiles, readDataTransfer, type LocalEntry } from './localFiles';
+import { readSnapshot, snapshotFileName, type Snapshot } from './snapshots';
+import { SnapshotImportDialog, type SnapshotImportMode } from './components/SnapshotImportDialog';
+import { BulkRenameDialog, type RenameResult } from './components/BulkRenameDialog';
+import { UploadConflictDialog, type ConflictAction } from './components/UploadConflictDialog';
+import type { RenamePlanItem } from './bulkRename';
 import type { ToastMessage } from './components/Toast';
 import {
   RefreshCw, Save, FolderPlus, FilePlus, Home, ChevronRight, AlertCircle, Download,
   Search, X, Keyboard, HardDrive, Trash2, PanelLeftClose, PanelLeft, Eye, Code,
-  FileText, Image as ImageIcon, Folder, Copy, Edit3
+  FileText, Image as ImageIcon, Folder, Copy, Edit3, Binary, ChevronsDown, Activity, Lock,
+  CopyPlus, Scissors, ClipboardPaste, PackageOpen, FolderUp, Camera, ArchiveRestore, GitCompare
 } from 'lucide-react';
 
 // Helper to format file sizes
@@ -26,6 +45,11 @@ function formatFileSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
 }
 
+// Helper to upload a file under another name ("Keep both" on a conflict)
+function renamedUpload(file: File, name: string): File {
+  return new File([file], name, { type: file.type, lastModified: file.lastModified });
+}
+
 // Helper to check if file is an image
 function isImageFile(fileName: string): boolean {
   const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.svg', '.ico', '.bmp', '.avif'];
@@ -37,6 +61,24 @@ function isMarkdownFile(fileName: string): boolean {
   return fileName.toLowerCase().endsWith('.md') || fileName.toLowerCase().endsWith('.markdown');
 }
 
+// Helper to suggest what the user can do about a failed operation
+function getRecoveryHint(error: OpfsError): string | null {
+  switch (error.code) {
+    case 'NotSecureContextError':
+      return 'OPFS is only available on secure pages. Open the site over HTTPS or on localhost.';
+    case 'NotSupportedError':
+      return 'This browser doesn\'t support the Origin Private File System.';
+    case 'SecurityError':
+      return 'The browser blocked storage access for this page, e.g. in a sandboxed iframe or when site data is blocked in settings.';
+    case 'TimeoutError':
+      return 'The page took too long to respond. It may be busy or paused in the debugger.';
+    case 'QuotaExceededError':
+      return 'The storage quota for this site is used up. Delete files to free up space.';
+    default:
+      return null;
+  }
+}
+
 // Platform-aware modifier key label
 const modKey = navigator.platform?.includes('Mac') ? '\u2318' : 'Ctrl';
 
@@ -57,13 +99,19 @@ function App() {
 
   // Loading and error state
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<OpfsError | null>(null);
   const [connectionError, setConnectionError] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
+  // Storage bucket shown in the tree; undefined for the default bucket
+  const [bucket, setBucket] = useState<string | undefined>(undefined);
+
   // View mode for markdown files
   const [markdownViewMode, setMarkdownViewMode] = useState<'preview' | 'edit'>('preview');
 
+  // Binary file the user chose to page through as a hex dump
+  const [hexViewPath, setHexViewPath] = useState<string | null>(null);
+
   // Search/Filter state
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearch, setShowSearch] = useState(false);
@@ -82,16 +130,57 @@ function App() {
   // Tree expanded state
   const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set());
 
+  // Listings walked by "Expand All", so the folders it expands don't each
+  // list themselves. Only used until the next refresh.
+  const [prefetchedListings, setPrefetchedListings] = useState<{
+    refreshTrigger: number;
+    listings: Map<string, FileEntry[]>;
+  } | null>(null);
+
+  // Every entry below the root, walked once per tree state for searches
+  const [searchIndex, setSearchIndex] = useState<{
+    key: string;
+    /** Null when the walk failed; search falls back to the root listing */
+    entries: WalkEntry[] | null;
+    truncated: boolean;
+  } | null>(null);
+
   // Keyboard shortcuts panel
   const [showShortcuts, setShowShortcuts] = useState(false);
 
+  // Log of opfsApi calls, shown below the editor
+  const [showActivity, setShowActivity] = useState(false);
+
+  // Trash panel (deleted entries kept for restoring)
+  const [showTrash, setShowTrash] = useState(false);
+
+  // Compare panel (the tree against a baseline or snapshot)
+  const [showCompare, setShowCompare] = useState(false);
+  // Files found locked by the last probe that covered them
+  const [lockedPaths, setLockedPaths] = useState<ReadonlySet<string>>(new Set());
+  const [bulkRename, setBulkRename] = useState<{ entries: FileEntry[]; siblings: Map<string, Set<string>> } | null>(null);
+
+  // A picked snapshot archive, waiting for the merge/replace choice
+  const [snapshotImport, setSnapshotImport] = useState<{ snapshot: Snapshot; fileName: string; origin: string } | null>(null);
+  const snapshotInputRef = useRef<HTMLInputElement>(null);
+
   // Upload conflict state
   const [uploadConflict, setUploadConflict] = useState<{
     file: File;
     targetPath: string;
-    existingPath: string;
+    existing: FileEntry;
+    keepBothName: string;
   } | null>(null);
   const [pendingUploads, setPendingUploads] = useState<{ file: File; targetPath: string }[]>([]);
+  // The answer picked with "apply to all", used for the rest of the upload
+  const conflictChoiceRef = useRef<ConflictAction | null>(null);
+
+  // Entries copied or cut with Ctrl+C / Ctrl+X, waiting to be pasted
+  const [clipboard, setClipboard] = useState<{
+    mode: 'copy' | 'cut';
+    entries: FileEntry[];
+    bucket: string | undefined;
+  } | null>(null);
 
   const [contextMenu, setContextMenu] = useState<{
     x: number;
@@ -100,6 +189,11 @@ function App() {
   } | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const dragCounter = useRef(0);
+  // Hidden file inputs of "Import archive…" and "Upload folder…", and the
+  // folder they import into
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const archiveTargetRef = useRef('');
 
   // Refs
   const treeContainerRef = useRef<HTMLDivElement>(null);
@@ -128,6 +222,39 @@ function App() {
 
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
 
+  // Long-running operation (upload, delete, move) with progress and cancel
+  const [activeOperation, setActiveOperation] = useState<ActiveOperation | null>(null);
+  const operationControllerRef = useRef<AbortController | null>(null);
+
+  // Starts tracking a cancellable operation. Returns the options to pass to
+  // opfsApi and a function to call once the operation has settled.
+  const startOperation = useCallback((label: string): { options: OperationOptions; finish: () => void } => {
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    setActiveOperation({ label, progress: null });
+    return {
+      options: {
+        bucket,
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (operationControllerRef.current === controller) {
+            setActiveOperation(prev => prev && { ...prev, progress });
+          }
+        },
+      },
+      finish: () => {
+        if (operationControllerRef.current === controller) {
+          operationControllerRef.current = null;
+          setActiveOperation(null);
+        }
+      },
+    };
+  }, [bucket]);
+
+  const cancelOperation = useCallback(() => {
+    operationControllerRef.current?.abort();
+  }, []);
+
   const dismissToast = useCallback((id: string) => setToasts(prev => prev.filter(t => t.id !== id)), []);
 
   const addToast = useCallback((type: 'success' | 'error' | 'info', message: string) => {
@@ -136,6 +263,50 @@ function App() {
       setTimeout(() => dismissToast(id), 5000);
   }, [dismissToast]);
 
+  // Lock badges come from probes run on demand — for the opened file, the
+  // targets of a change, or "Check Locks" — never from plain listings: each
+  // probe briefly holds the file, which can make the page's own
+  // createSyncAccessHandle() fail. A probe replaces what was known below its paths.
+  const recordLocks = useCallback((paths: string[], locked: string[]) => {
+    setLockedPaths(prev => {
+      const covered = (path: string) => paths.some(probed => probed === '' || path === probed || path.startsWith(probed + '/'));
+      const next = new Set([...prev].filter(path => !covered(path)));
+      locked.forEach(path => next.add(path));
+      return next;
+    });
+  }, []);
+
+  // Files the page holds a sync access handle on (SQLite wasm, workers) can't
+  // be written, moved or deleted. Check up front and say why, rather than
+  // failing part-way with a bare NoModificationAllowedError.
+  const checkUnlocked = useCallback(async (paths: string[], action: string): Promise<boolean> => {
+    let locked: string[];
+    try {
+      locked = await opfsApi.probeLocks(paths, { bucket });
+    } catch {
+      // Let the operation itself report what's wrong
+      return true;
+    }
+    recordLocks(paths, locked);
+    if (locked.length === 0) return true;
+    const what = locked.length === 1 ? `"${locked[0]}" is` : `${locked.length} files (${locked.slice(0, 3).join(', ')}${locked.length > 3 ? ', …' : ''}) are`;
+    addToast('error', `Can't ${action}: ${what} locked — the page has it open with a sync access handle (e.g. a SQLite database in a worker). Close it in the page, then try again.`);
+    return false;
+  }, [bucket, addToast, recordLocks]);
+
+  // "Check Locks": probes the entries (and everything in folders) and shows the result
+  const handleCheckLocks = useCallback(async (paths: string[]) => {
+    try {
+      const locked = await opfsApi.probeLocks(paths, { bucket });
+      recordLocks(paths, locked);
+      addToast('info', locked.length === 0
+        ? 'No locked files'
+        : `${locked.length} locked file${locked.length === 1 ? '' : 's'}: ${locked.slice(0, 3).join(', ')}${locked.length > 3 ? ', …' : ''}`);
+    } catch (err) {
+      addToast('error', `Failed to check locks: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [bucket, addToast, recordLocks]);
+
   // Save sidebar width to localStorage
   const handleSidebarResize = useCallback((width: number) => {
     setSidebarWidth(width);
@@ -180,36 +351,76 @@ function App() {
     setFileMeta(null);
   }, []);
 
+  // Select a path in the tree, expanding the folders above it
+  const handleRevealPath = useCallback((path: string) => {
+    const parts = path.split('/');
+    setExpandedPaths(prev => {
+      const next = new Set(prev);
+      for (let i = 1; i < parts.length; i++) next.add(parts.slice(0, i).join('/'));
+      return next;
+    });
+    setSelectedPaths(new Set([path]));
+    setSelectionAnchor(path);
+    setFocusedPath(path);
+  }, []);
+
   // Fetch storage estimate
   const fetchStorageEstimate = useCallback(async () => {
     try {
-      const estimate = await opfsApi.getStorageEstimate();
+      const estimate = await opfsApi.getStorageEstimate({ bucket });
       setStorageEstimate(estimate);
     } catch {
       // Ignore - storage estimate is nice-to-have
     }
-  }, []);
+  }, [bucket]);
 
   const refresh = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     setConnectionError(false);
     try {
-      const files = await opfsApi.list('');
+      const files = await opfsApi.list('', { bucket });
       setRootFiles(files);
       setRefreshTrigger(prev => prev + 1);
       fetchStorageEstimate();
     } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      if (message.includes('Could not establish connection') || message.includes('Receiving end does not exist')) {
+      if (isOpfsError(err, 'ConnectionLostError')) {
           setConnectionError(true);
       } else {
-          setError(message);
+          setError(toOpfsError(err, 'list', ''));
       }
     } finally {
       setIsLoading(false);
     }
-  }, [fetchStorageEstimate]);
+  }, [bucket, fetchStorageEstimate]);
+
+  // Clears the selection, open file and expanded folders when the tree
+  // switches to another file system (a frame or a bucket)
+  const resetTree = useCallback(() => {
+    setSelectedPaths(new Set());
+    setPrimaryFile(null);
+    setFileContent('');
+    setFileMeta(null);
+    setExpandedPaths(new Set());
+    setLockedPaths(new Set());
+  }, []);
+
+  // Another frame means another origin's OPFS — start over from its root
+  const handleFrameChange = useCallback(() => {
+    resetTree();
+    // Buckets belong to the origin. Leaving a bucket reloads the tree by
+    // itself (`refresh` changes with it), otherwise reload here.
+    if (bucket) {
+      setBucket(undefined);
+    } else {
+      refresh();
+    }
+  }, [bucket, resetTree, refresh]);
+
+  const handleBucketChange = useCallback((next: string | undefined) => {
+    resetTree();
+    setBucket(next);
+  }, [resetTree]);
 
   useEffect(() => {
     // Intentional fetch-on-mount: loads the root OPFS listing once when the
@@ -218,15 +429,37 @@ function App() {
     refresh();
   }, [refresh]);
 
+  // React doesn't know the directory picker attribute
+  useEffect(() => {
+    if (folderInputRef.current) folderInputRef.current.webkitdirectory = true;
+  }, []);
+
+  // Search looks through the whole tree, which takes a walk of it
+  const searching = searchQuery.trim() !== '';
+  const searchIndexKey = `${bucket ?? ''}:${refreshTrigger}`;
+  const searchIndexReady = searchIndex?.key === searchIndexKey;
+
+  useEffect(() => {
+    if (!searching || searchIndexReady) return;
+    const controller = new AbortController();
+    opfsApi.walk('', { bucket, signal: controller.signal })
+      .then(({ entries, truncated }) => setSearchIndex({ key: searchIndexKey, entries, truncated }))
+      .catch(() => {
+        if (!controller.signal.aborted) setSearchIndex({ key: searchIndexKey, entries: null, truncated: false });
+      });
+    return () => controller.abort();
+  }, [searching, searchIndexReady, searchIndexKey, bucket]);
+
   // Filter files based on search query
   const filteredFiles = useMemo(() => {
-    if (!searchQuery.trim()) return rootFiles;
+    if (!searching) return rootFiles;
     const query = searchQuery.toLowerCase();
-    return rootFiles.filter(file =>
+    const candidates = searchIndexReady && searchIndex.entries ? searchIndex.entries : rootFiles;
+    return candidates.filter(file =>
       file.name.toLowerCase().includes(query) ||
       file.path.toLowerCase().includes(query)
     );
-  }, [rootFiles, searchQuery]);
+  }, [rootFiles, searching, searchQuery, searchIndexReady, searchIndex]);
 
   // ============================================================
   // DOM-based tree navigation helpers
@@ -262,10 +495,14 @@ function App() {
     setContentLoading(true);
     setMarkdownViewMode('preview');
     try {
-      const result = await opfsApi.readWithMeta(entry.path, options);
+      const result = await opfsApi.readWithMeta(entry.path, { ...options, bucket });
       setFileMeta(result);
       setFileContent(result.content);
       setInitialContent(result.content);
+      // Only the opened file is probed, to show whether it can be saved
+      opfsApi.probeLocks([entry.path], { bucket })
+        .then(locked => recordLocks([entry.path], locked))
+        .catch(() => {});
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       setFileContent(`Error reading file: ${message}`);
@@ -274,7 +511,7 @@ function App() {
     } finally {
       setContentLoading(false);
     }
-  }, [addToast]);
+  }, [bucket, addToast, recordLocks]);
 
   const handleSelect = useCallback((entry: FileEntry, event?: React.MouseEvent | React.KeyboardEvent) => {
     setContextMenu(null);
@@ -373,80 +610,210 @@ function App() {
     ) {
       return;
     }
+    if (!(await checkUnlocked([primaryFile.path], 'save'))) return;
     try {
-      await opfsApi.write(primaryFile.path, fileContent);
+      await opfsApi.write(primaryFile.path, fileContent, false, { bucket });
       setInitialContent(fileContent);
       addToast('success', 'File saved');
       announce('File saved');
     } catch (err) {
       addToast('error', `Failed to save: ${err instanceof Error ? err.message : String(err)}`);
     }
-  }, [primaryFile, fileContent, fileMeta, addToast, announce]);
+  }, [primaryFile, fileContent, fileMeta, bucket, addToast, announce, checkUnlocked]);
+
+  // Deletes entries for good, with progress and a summary toast. Resolves
+  // with whether every one of them was deleted.
+  const removePaths = useCallback(async (paths: string[]) => {
+    if (paths.length === 0) return true;
+    const count = paths.length;
+    const { options, finish } = startOperation(
+      count === 1 ? `Deleting ${paths[0].split('/').pop()}` : `Deleting ${count} items`
+    );
+    let deleted = 0;
+    let cancelled = false;
+    try {
+      if (count === 1) {
+        // On its own, a folder's progress counts the entries inside it
+        await opfsApi.delete(paths[0], options);
+        deleted = 1;
+      } else {
+        const results = await opfsApi.batch(paths.map(path => ({ op: 'delete' as const, path })), options);
+        const failed = results.filter(result => !result.ok);
+        deleted = results.length - failed.length;
+        if (failed.length > 0) {
+          const reason = failed[0].error?.message ?? 'Unknown error';
+          addToast('error', failed.length === 1
+            ? `Failed to delete ${paths[results.indexOf(failed[0])]}: ${reason}`
+            : `Failed to delete ${failed.length} items: ${reason}`);
+        }
+      }
+    } catch (err) {
+      if (isOpfsError(err, 'AbortError')) {
+        cancelled = true;
+      } else {
+        addToast('error', `Failed to delete ${count === 1 ? paths[0] : `${count} items`}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    } finally {
+      finish();
+    }
+    const removed = (path: string) => paths.some(p => path === p || path.startsWith(`${p}/`));
+    setSelectedPaths(prev => new Set([...prev].filter(path => !removed(path))));
+    if (primaryFile && removed(primaryFile.path)) {
+      setPrimaryFile(null);
+      setFileContent('');
+      setFileMeta(null);
+    }
+    refresh();
+    if (cancelled) {
+      addToast('info', 'Delete cancelled');
+    }
+    if (deleted > 0) {
+      addToast('success', `Deleted ${deleted} item${deleted > 1 ? 's' : ''}`);
+      announce(`${deleted} item${deleted > 1 ? 's' : ''} deleted`);
+    }
+    return deleted === count;
+  }, [primaryFile, addToast, refresh, announce, startOperation]);
 
-  const handleDeleteSelected = useCallback(() => {
-    if (selectedPaths.size === 0) return;
-    const count = selectedPaths.size;
-    const paths = [...selectedPaths];
-    const message = count === 1
-      ? `Are you sure you want to delete "${paths[0].split('/').pop()}"?`
-      : `Are you sure you want to delete ${count} items?`;
+  // Asks for confirmation, keeps a copy of each entry in the Trash, then
+  // deletes them. Entries the Trash can't keep (too large, unreadable) are
+  // only deleted after a second confirmation; `permanent` skips the Trash.
+  const deletePaths = useCallback(async (paths: string[], permanent = false) => {
+    if (paths.length === 0) return;
+    if (!(await checkUnlocked(paths, 'delete'))) return;
+    const what = paths.length === 1 ? `"${paths[0].split('/').pop()}"` : `${paths.length} items`;
 
     setModal({
       isOpen: true,
       type: 'confirm',
-      title: 'Delete',
-      message,
+      title: permanent ? 'Delete Permanently' : 'Delete',
+      message: permanent
+        ? `Are you sure you want to permanently delete ${what}? This can't be undone.`
+        : `Are you sure you want to delete ${what}? You can restore ${paths.length === 1 ? 'it' : 'them'} from the Trash.`,
       danger: true,
       onConfirm: async () => {
-        let deleted = 0;
-        for (const path of paths) {
-          try {
-            await opfsApi.delete(path);
-            deleted++;
-          } catch (err) {
-            addToast('error', `Failed to delete ${path}: ${err instanceof Error ? err.message : String(err)}`);
+        // Close the dialog right away — progress and Cancel are shown in the
+        // progress panel while large folders are read and removed.
+        setModal(prev => ({ ...prev, isOpen: false }));
+        if (permanent) {
+          await removePaths(paths);
+          return;
+        }
+
+        const { options, finish } = startOperation(`Moving ${what} to the Trash`);
+        const kept: string[] = [];
+        const captured: string[] = [];
+        const unkept: { path: string; reason: string }[] = [];
+        try {
+          const origin = await currentOrigin();
+          for (const path of paths) {
+            try {
+              captured.push((await trash.capture(path, { ...options, origin })).id);
+              kept.push(path);
+            } catch (err) {
+              if (isOpfsError(err, 'AbortError')) throw err;
+              unkept.push({ path, reason: err instanceof Error ? err.message : String(err) });
+            }
           }
+        } catch (err) {
+          // Nothing has been deleted yet
+          await Promise.all(captured.map(id => trash.remove(id).catch(() => {})));
+          addToast(isOpfsError(err, 'AbortError') ? 'info' : 'error',
+            isOpfsError(err, 'AbortError') ? 'Delete cancelled' : `Failed to delete ${what}: ${err instanceof Error ? err.message : String(err)}`);
+          return;
+        } finally {
+          finish();
         }
-        setSelectedPaths(new Set());
-        setPrimaryFile(null);
-        setFileContent('');
-        setFileMeta(null);
-        refresh();
-        if (deleted > 0) {
-          addToast('success', `Deleted ${deleted} item${deleted > 1 ? 's' : ''}`);
-          announce(`${deleted} item${deleted > 1 ? 's' : ''} deleted`);
+
+        await removePaths(kept);
+        if (unkept.length > 0) {
+          const names = unkept.length === 1 ? `"${unkept[0].path.split('/').pop()}"` : `${unkept.length} items`;
+          setModal({
+            isOpen: true,
+            type: 'confirm',
+            title: 'Delete Permanently',
+            message: `${names} can't be kept in the Trash: ${unkept[0].reason} Delete ${unkept.length === 1 ? 'it' : 'them'} permanently anyway?`,
+            danger: true,
+            onConfirm: async () => {
+              setModal(prev => ({ ...prev, isOpen: false }));
+              await removePaths(unkept.map(({ path }) => path));
+            }
+          });
         }
-        setModal(prev => ({ ...prev, isOpen: false }));
       }
     });
-  }, [selectedPaths, addToast, refresh, announce]);
+  }, [addToast, startOperation, checkUnlocked, removePaths]);
 
-  const handleDownload = useCallback(async (path: string) => {
+  const handleDeleteSelected = useCallback((permanent = false) => {
+    return deletePaths([...selectedPaths], permanent);
+  }, [selectedPaths, deletePaths]);
+
+  const handleRestore = useCallback(async (item: TrashItem) => {
+    const name = item.path.split('/').pop();
+    const { options, finish } = startOperation(`Restoring ${name}`);
     try {
-      await opfsApi.download(path);
-      addToast('success', 'Download started');
+      await trash.restore(item.id, options);
+      addToast('success', `Restored /${item.path}`);
+      announce(`${name} restored`);
     } catch (err) {
-      addToast('error', `Download failed: ${err instanceof Error ? err.message : String(err)}`);
+      if (isOpfsError(err, 'AbortError')) {
+        addToast('info', 'Restore cancelled');
+      } else {
+        addToast('error', `Restore failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    } finally {
+      finish();
     }
+    refresh();
+  }, [addToast, announce, refresh, startOperation]);
+
+  const handleRemoveFromTrash = useCallback((item: TrashItem) => {
+    setModal({
+      isOpen: true,
+      type: 'confirm',
+      title: 'Delete Permanently',
+      message: `Are you sure you want to permanently delete "${item.path.split('/').pop()}" from the Trash? This can't be undone.`,
+      danger: true,
+      onConfirm: async () => {
+        try {
+          await trash.remove(item.id);
+        } catch (err) {
+          addToast('error', `Failed to delete from the Trash: ${err instanceof Error ? err.message : String(err)}`);
+        }
+        setModal(prev => ({ ...prev, isOpen: false }));
+      }
+    });
   }, [addToast]);
 
-  const handleDownloadSelected = useCallback(async () => {
-    const paths = [...selectedPaths];
-    let count = 0;
-    for (const path of paths) {
-      try {
-        await opfsApi.download(path);
-        count++;
-      } catch (err) {
-        addToast('error', `Download failed for ${path.split('/').pop()}: ${err instanceof Error ? err.message : String(err)}`);
+  const handleEmptyTrash = useCallback((origin: string, count: number) => {
+    setModal({
+      isOpen: true,
+      type: 'confirm',
+      title: 'Empty Trash',
+      message: `Are you sure you want to permanently delete ${count === 1 ? 'the item' : `all ${count} items`} in the Trash for ${origin}? This can't be undone.`,
+      danger: true,
+      onConfirm: async () => {
+        try {
+          await trash.empty(origin);
+          announce('Trash emptied');
+        } catch (err) {
+          addToast('error', `Failed to empty the Trash: ${err instanceof Error ? err.message : String(err)}`);
+        }
+        setModal(prev => ({ ...prev, isOpen: false }));
       }
+    });
+  }, [addToast, announce]);
+
+  const handleDownload = useCallback(async (path: string) => {
+    try {
+      await opfsApi.download(path, { bucket });
+      addToast('success', 'Download started');
+    } catch (err) {
+      addToast('error', `Download failed: ${err instanceof Error ? err.message : String(err)}`);
     }
-    if (count > 0) {
-      addToast('success', `Started ${count} download${count > 1 ? 's' : ''}`);
-    }
-  }, [selectedPaths, addToast]);
+  }, [bucket, addToast]);
 
-  const handleRename = useCallback((entry: FileEntry) => {
+  const handleRename = useCallback(async (entry: FileEntry) => {
+    if (!(await checkUnlocked([entry.path], 'rename'))) return;
     setModal({
       isOpen: true,
       type: 'prompt',
@@ -455,7 +822,7 @@ function App() {
       onConfirm: async (newName) => {
         if (newName && newName !== entry.name) {
           try {
-            await opfsApi.rename(entry.path, newName);
+            await opfsApi.rename(entry.path, newName, { bucket });
             refresh();
             announce(`Renamed to ${newName}`);
           } catch (err) {
@@ -465,7 +832,258 @@ function App() {
         setModal(prev => ({ ...prev, isOpen: false }));
       }
     });
-  }, [addToast, refresh, announce]);
+  }, [bucket, addToast, refresh, announce, checkUnlocked]);
+
+  // Opens the bulk rename dialog for several entries, numbered in tree order,
+  // with the names already taken in their folders
+  const handleBulkRename = useCallback(async (entries: FileEntry[]) => {
+    if (entries.length === 1) {
+      handleRename(entries[0]);
+      return;
+    }
+    if (entries.length === 0 || !(await checkUnlocked(entries.map(entry => entry.path), 'rename'))) return;
+    const order = new Map(getVisiblePaths().map((path, index) => [path, index]));
+    const sorted = [...entries].sort((a, b) => (order.get(a.path) ?? Infinity) - (order.get(b.path) ?? Infinity));
+    const siblings = new Map<string, Set<string>>();
+    try {
+      for (const dir of new Set(sorted.map(entry => parentPath(entry.path)))) {
+        siblings.set(dir, new Set((await opfsApi.list(dir, { bucket })).map(entry => entry.name)));
+      }
+    } catch (err) {
+      addToast('error', `Rename failed: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    setBulkRename({ entries: sorted, siblings });
+  }, [bucket, addToast, checkUnlocked, handleRename, getVisiblePaths]);
+
+  // Renames each planned entry in turn; a failed rename doesn't stop the rest
+  const applyBulkRename = useCallback(async (items: RenamePlanItem[]): Promise<RenameResult[]> => {
+    const { options, finish } = startOperation(`Renaming ${items.length} items`);
+    const results: RenameResult[] = [];
+    const renamed = new Map<string, string>();
+    try {
+      for (const item of items) {
+        if (options.signal?.aborted) {
+          results.push({ path: item.path, error: 'Cancelled' });
+          continue;
+        }
+        try {
+          await opfsApi.rename(item.path, item.newName, { bucket, signal: options.signal });
+          results.push({ path: item.path });
+          renamed.set(item.path, joinPath(parentPath(item.path), item.newName));
+        } catch (err) {
+          results.push({ path: item.path, error: isOpfsError(err, 'AbortError') ? 'Cancelled' : err instanceof Error ? err.message : String(err) });
+        }
+        options.onProgress?.({ unit: 'entries', done: results.length, total: items.length });
+      }
+    } finally {
+      finish();
+    }
+    if (renamed.size > 0) {
+      setSelectedPaths(prev => new Set([...prev].map(path => renamed.get(path) ?? path)));
+      refresh();
+      announce(`Renamed ${renamed.size} item${renamed.size > 1 ? 's' : ''}`);
+    }
+    return results;
+  }, [bucket, refresh, announce, startOperation]);
+
+  // ============================================================
+  // Copy, cut and paste
+  // ============================================================
+
+  // The selected entries, kinds read off the tree. Entries inside a selected
+  // folder are left out — they come along with it.
+  const getSelectedEntries = useCallback((): FileEntry[] => {
+    const kinds = new Map(getVisibleTreeItems().map(el => [el.getAttribute('data-path'), el.getAttribute('data-kind')]));
+    return [...selectedPaths]
+      .filter(path => !path.split('/').some((_, i, parts) => i > 0 && selectedPaths.has(parts.slice(0, i).join('/'))))
+      .map(path => ({
+        name: path.split('/').pop()!,
+        path,
+        kind: kinds.get(path) === 'directory' ? 'directory' as const : 'file' as const,
+      }));
+  }, [selectedPaths, getVisibleTreeItems]);
+
+  const handleClipboard = useCallback((mode: 'copy' | 'cut', entries: FileEntry[]) => {
+    if (entries.length === 0) return;
+    setClipboard({ mode, entries, bucket });
+    const what = entries.length === 1 ? `"${entries[0].name}"` : `${entries.length} items`;
+    addToast('info', `${mode === 'copy' ? 'Copied' : 'Cut'} ${what} — paste with ${modKey}+V`);
+    announce(`${what} ${mode === 'copy' ? 'copied' : 'cut'}`);
+  }, [bucket, addToast, announce]);
+
+  // Copies each entry into its target folder, as "name (copy).ext" (then
+  // "name (copy 2).ext", …) where the name is already taken there
+  const copyEntries = useCallback(async (items: { entry: FileEntry; targetDir: string }[], verb: string) => {
+    if (items.length === 0) return;
+    const label = items.length === 1 ? items[0].entry.name : `${items.length} items`;
+    const taken = new Map<string, Set<string>>();
+    try {
+      for (const dir of new Set(items.map(item => item.targetDir))) {
+        const listing = await opfsApi.list(dir, { bucket });
+        taken.set(dir, new Set(listing.map(entry => entry.name)));
+      }
+    } catch (err) {
+      addToast('error', `Failed to copy ${label}: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    const operations = items.map(({ entry, targetDir }) => {
+      const names = taken.get(targetDir)!;
+      const name = names.has(entry.name) ? copyName(entry.name, entry.kind, names) : entry.name;
+      names.add(name);
+      return { op: 'copy' as const, src: entry.path, dest: joinPath(targetDir, name) };
+    });
+
+    const { options, finish } = startOperation(`${verb} ${label}`);
+    let copied = 0;
+    try {
+      if (operations.length === 1) {
+        // On its own, a folder's progress counts the entries inside it
+        await opfsApi.copy(operations[0].src, operations[0].dest, options);
+        copied = 1;
+      } else {
+        const results = await opfsApi.batch(operations, options);
+        const failed = results.filter(result => !result.ok);
+        copied = results.length - failed.length;
+        if (failed.length > 0) {
+          const reason = failed[0].error?.message ?? 'Unknown error';
+          addToast('error', failed.length === 1
+            ? `Failed to copy ${operations[results.indexOf(failed[0])].src}: ${reason}`
+            : `Failed to copy ${failed.length} items: ${reason}`);
+        }
+      }
+    } catch (err) {
+      if (isOpfsError(err, 'AbortError')) {
+        addToast('info', 'Copy cancelled');
+      } else {
+        addToast('error', `Failed to copy ${label}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    } finally {
+      finish();
+    }
+    refresh();
+    if (copied > 0) {
+      addToast('success', `Copied ${copied} item${copied > 1 ? 's' : ''}`);
+      announce(`${copied} item${copied > 1 ? 's' : ''} copied`);
+    }
+  }, [bucket, addToast, refresh, announce, startOperation]);
+
+  // Moves entries into a folder. Resolves with the entries that weren't
+  // moved (entries already there count as moved), which stay on the clipboard.
+  const moveEntries = useCallback(async (entries: FileEntry[], targetDir: string): Promise<FileEntry[]> => {
+    if (entries.some(entry => targetDir === entry.path || targetDir.startsWith(`${entry.path}/`))) {
+      addToast('error', "Can't move a folder into itself");
+      return entries;
+    }
+    // Pasting where the entries already are leaves them be
+    const moves = entries.filter(entry => parentPath(entry.path) !== targetDir);
+    if (moves.length === 0) return [];
+    const label = moves.length === 1 ? moves[0].name : `${moves.length} items`;
+
+    try {
+      const taken = new Set((await opfsApi.list(targetDir, { bucket })).map(entry => entry.name));
+      const clash = moves.find(entry => taken.has(entry.name));
+      if (clash) {
+        addToast('error', `Can't move here: "${clash.name}" already exists in ${targetDir || 'root'}`);
+        return moves;
+      }
+    } catch (err) {
+      addToast('error', `Failed to move ${label}: ${err instanceof Error ? err.message : String(err)}`);
+      return moves;
+    }
+    if (!(await checkUnlocked(moves.map(entry => entry.path), 'move'))) return moves;
+
+    const { options, finish } = startOperation(`Moving ${label}`);
+    let left = moves;
+    try {
+      if (moves.length === 1) {
+        await opfsApi.move(moves[0].path, joinPath(targetDir, moves[0].name), options);
+      } else {
+        const results = await opfsApi.batch(
+          moves.map(entry => ({ op: 'move' as const, oldPath: entry.path, newPath: joinPath(targetDir, entry.name) })),
+          options
+        );
+        const failed = results.filter(result => !result.ok);
+        if (failed.length > 0) {
+          left = moves.filter((_, index) => !results[index].ok);
+          addToast('error', `Failed to move ${failed.length} of ${moves.length} items: ${failed[0].error?.message ?? 'Unknown error'}`);
+          return left;
+        }
+      }
+      left = [];
+      addToast('success', `Moved to ${targetDir || 'root'}`);
+      announce(`${label} moved`);
+    } catch (err) {
+      if (isOpfsError(err, 'AbortError')) {
+        addToast('info', 'Move cancelled');
+      } else {
+        addToast('error', `Failed to move ${label}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    } finally {
+      finish();
+      refresh();
+    }
+    return left;
+  }, [bucket, addToast, refresh, announce, startOperation, checkUnlocked]);
+
+  // Pastes into `target` if it's a folder, next to it if it's a file, or at
+  // the root when nothing is selected
+  const handlePaste = useCallback(async (target: FileEntry | null) => {
+    if (!clipboard) return;
+    if (clipboard.bucket !== bucket) {
+      addToast('error', "Can't paste: the clipboard holds items from another storage bucket");
+      return;
+    }
+    const targetDir = !target ? '' : target.kind === 'directory' ? target.path : parentPath(target.path);
+    if (clipboard.mode === 'copy') {
+      await copyEntries(clipboard.entries.map(entry => ({ entry, targetDir })), 'Copying');
+    } else {
+      const left = await moveEntries(clipboard.entries, targetDir);
+      // Entries that couldn't be moved stay cut, to try again
+      setClipboard(left.length === 0 ? null : { ...clipboard, entries: left });
+    }
+  }, [clipboard, bucket, addToast, copyEntries, moveEntries]);
+
+  // Cut entries are dimmed in the tree until they're pasted
+  const cutPaths = useMemo(
+    () => clipboard?.mode === 'cut' && clipboard.bucket === bucket ? new Set(clipboard.entries.map(entry => entry.path)) : undefined,
+    [clipboard, bucket]
+  );
+
+  const handleDuplicate = useCallback((entries: FileEntry[]) => {
+    return copyEntries(entries.map(entry => ({ entry, targetDir: parentPath(entry.path) })), 'Duplicating');
+  }, [copyEntries]);
+
+  // Downloads folders and multiple entries as one ZIP archive, named after
+  // the single entry or the folder the entries are in
+  const handleDownloadZip = useCallback(async (entries: FileEntry[]) => {
+    if (entries.length === 0) return;
+    const parents = new Set(entries.map(entry => parentPath(entry.path)));
+    const base = entries.length === 1
+      ? entries[0].name
+      : parents.size === 1 && [...parents][0] ? [...parents][0].split('/').pop() : 'opfs';
+    const label = entries.length === 1 ? entries[0].name : `${entries.length} items`;
+    const { options, finish } = startOperation(`Zipping ${label}`);
+    try {
+      const { entries: count, size } = await opfsApi.downloadZip(entries.map(entry => entry.path), { ...options, name: `${base}.zip` });
+      addToast('success', `Download started: ${base}.zip (${count} item${count === 1 ? '' : 's'}, ${formatFileSize(size)})`);
+    } catch (err) {
+      if (isOpfsError(err, 'AbortError')) {
+        addToast('info', 'Download cancelled');
+      } else {
+        addToast('error', `Download failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    } finally {
+      finish();
+    }
+  }, [addToast, startOperation]);
+
+  // A single file downloads as itself; folders and multiple entries as a ZIP
+  const handleDownloadSelected = useCallback(() => {
+    const entries = getSelectedEntries();
+    if (entries.length === 1 && entries[0].kind === 'file') return handleDownload(entries[0].path);
+    return handleDownloadZip(entries);
+  }, [getSelectedEntries, handleDownload, handleDownloadZip]);
 
   const handleRootCreate = useCallback(async (kind: 'file' | 'directory') => {
     // If a directory is selected, create inside it
@@ -480,7 +1098,7 @@ function App() {
       onConfirm: async (name) => {
         if (name) {
           try {
-            await opfsApi.create(`${prefix}${name}`, kind);
+            await opfsApi.create(`${prefix}${name}`, kind, { bucket });
             refresh();
             announce(`${kind === 'file' ? 'File' : 'Folder'} ${name} created`);
           } catch (e) {
@@ -490,7 +1108,7 @@ function App() {
         setModal(prev => ({ ...prev, isOpen: false }));
       }
     });
-  }, [primaryFile, addToast, refresh, announce]);
+  }, [primaryFile, bucket, addToast, refresh, announce]);
 
   // ============================================================
   // Keyboard shortcuts
@@ -498,8 +1116,8 @@ function App() {
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Don't handle shortcuts when modal is open
-      if (modal.isOpen) return;
+      // Don't handle shortcuts when a modal is open
+      if (modal.isOpen || bulkRename) return;
 
       // Don't intercept when typing in CodeMirror or inputs
       const target = e.target as HTMLElement;
@@ -537,6 +1155,17 @@ function App() {
         e.preventDefault();
         handleRootCreate('directory');
       }
+      // Ctrl/Cmd + C / X - Copy or cut the selection (unless text is selected)
+      if ((e.metaKey || e.ctrlKey) && !e.shiftKey && (e.key === 'c' || e.key === 'x') && selectedPaths.size > 0
+          && !isInEditor && !isInInput && !window.getSelection()?.toString()) {
+        e.preventDefault();
+        handleClipboard(e.key === 'c' ? 'copy' : 'cut', getSelectedEntries());
+      }
+      // Ctrl/Cmd + V - Paste into the selected folder, or next to the selected file
+      if ((e.metaKey || e.ctrlKey) && !e.shiftKey && e.key === 'v' && clipboard && !isInEditor && !isInInput) {
+        e.preventDefault();
+        handlePaste(selectedPaths.size > 0 ? primaryFile : null);
+      }
       // Escape - Close search or shortcuts
       if (e.key === 'Escape') {
         if (showSearch) {
@@ -561,15 +1190,18 @@ function App() {
         e.preventDefault();
         setShowShortcuts(prev => !prev);
       }
-      // Delete/Backspace - Delete selected
+      // Delete/Backspace - Delete selected (to the Trash; Shift skips it)
       if ((e.key === 'Delete' || e.key === 'Backspace') && selectedPaths.size > 0 && !isInEditor && !isInInput) {
         e.preventDefault();
-        handleDeleteSelected();
+        handleDeleteSelected(e.shiftKey);
       }
-      // F2 - Rename (single selection)
+      // F2 - Rename (bulk rename for a multi-selection)
       if (e.key === 'F2' && primaryFile && selectedPaths.size === 1 && !isInEditor && !isInInput) {
         e.preventDefault();
         handleRename(primaryFile);
+      } else if (e.key === 'F2' && selectedPaths.size > 1 && !isInEditor && !isInInput) {
+        e.preventDefault();
+        handleBulkRename(getSelectedEntries());
       }
       // Arrow Up/Down - Tree navigation
       if ((e.key === 'ArrowUp' || e.key === 'ArrowDown') && !isInEditor && !isInInput) {
@@ -610,9 +1242,10 @@ function App() {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [primaryFile, modal.isOpen, showSearch, showShortcuts, contextMenu, selectedPaths,
-      focusedPath, saveFile, handleDeleteSelected, handleRename, selectAll,
-      getVisiblePaths, focusTreeItem, handleRootCreate]);
+  }, [primaryFile, modal.isOpen, bulkRename, showSearch, showShortcuts, contextMenu, selectedPaths,
+      focusedPath, saveFile, handleDeleteSelected, handleRename, handleBulkRename, selectAll,
+      getVisiblePaths, focusTreeItem, handleRootCreate, clipboard, handleClipboard,
+      getSelectedEntries, handlePaste]);
 
   // ============================================================
   // Drag and Drop
@@ -643,19 +1276,29 @@ function App() {
     dragCounter.current = 0;
     setIsDragging(false);
 
-    const files = Array.from(e.dataTransfer.files);
-    if (files.length === 0) return;
+    // Read before the first await, while the drop's data is still available;
+    // Alt-dropping unpacks archives instead of uploading them as files
+    const dropped = readDataTransfer(e.dataTransfer);
+    const unpackArchives = e.altKey;
+    importEntries(await dropped, selectedFolder(), unpackArchives);
+  };
 
-    let targetPath = '';
-    if (primaryFile && primaryFile.kind === 'directory') {
-        targetPath = primaryFile.path;
-    } else if (primaryFile && primaryFile.kind === 'file') {
-        const parts = primaryFile.path.split('/');
-        parts.pop();
-        targetPath = parts.join('/');
-    }
+  // Where uploads and imports without a target go: the selected folder, or
+  // the folder of the selected file
+  const selectedFolder = () => {
+    if (!primaryFile) return '';
+    return primaryFile.kind === 'directory' ? primaryFile.path : parentPath(primaryFile.path);
+  };
+
+  // Opens the archive or folder picker; what's picked is imported into targetPath
+  const pickArchives = (targetPath: string) => {
+    archiveTargetRef.current = targetPath;
+    archiveInputRef.current?.click();
+  };
 
-    handleFileUpload(files, targetPath);
+  const pickFolder = (targetPath: string) => {
+    archiveTargetRef.current = targetPath;
+    folderInputRef.current?.click();
   };
 
   const handleTreeDrop = async (e: React.DragEvent, targetEntry: FileEntry) => {
@@ -674,43 +1317,136 @@ function App() {
           const newPath = targetPath ? `${targetPath}/${fileName}` : fileName;
 
           if (!newPath || opfsPath === newPath) return;
+          if (!(await checkUnlocked([opfsPath], 'move'))) return;
 
+          const { options, finish } = startOperation(`Moving ${fileName}`);
           try {
-              await opfsApi.move(opfsPath, newPath);
+              await opfsApi.move(opfsPath, newPath, options);
               addToast('success', `Moved to ${targetPath || 'root'}`);
-              refresh();
           } catch (err) {
-              addToast('error', err instanceof Error ? err.message : String(err));
+              if (isOpfsError(err, 'AbortError')) {
+                  addToast('info', 'Move cancelled');
+              } else {
+                  addToast('error', err instanceof Error ? err.message : String(err));
+              }
+          } finally {
+              finish();
+              refresh();
           }
           return;
       }
 
-      const files = Array.from(e.dataTransfer.files);
-      if (files.length === 0) return;
+      const dropped = readDataTransfer(e.dataTransfer);
+      const unpackArchives = e.altKey;
+      importEntries(await dropped, targetEntry.kind === 'directory' ? targetEntry.path : parentPath(targetEntry.path), unpackArchives);
+  };
+
+  // Uploads files, stopping at the first one whose name is taken to ask
+  // what to do; the rest wait in pendingUploads until it's answered. Once
+  // answered for all, later conflicts get the same answer. Each target
+  // folder is listed once, for the existing entries and the names taken.
+  const queueUploads = async (uploads: { file: File; targetPath: string }[]) => {
+    const ready: { file: File; targetPath: string }[] = [];
+    const folders = new Map<string, { entries: Map<string, FileEntry>; taken: Set<string> }>();
+    const folder = async (path: string) => {
+      let known = folders.get(path);
+      if (!known) {
+        const entries = await opfsApi.list(path, { bucket }).catch((): FileEntry[] => []);
+        known = { entries: new Map(entries.map(entry => [entry.name, entry])), taken: new Set(entries.map(entry => entry.name)) };
+        folders.set(path, known);
+      }
+      return known;
+    };
+
+    // Files queued count as existing, so two files of the same name in one
+    // upload conflict with each other too
+    const queue = (file: File, targetPath: string, known: { entries: Map<string, FileEntry>; taken: Set<string> }) => {
+      ready.push({ file, targetPath });
+      known.taken.add(file.name);
+      known.entries.set(file.name, {
+        name: file.name, kind: 'file', path: joinPath(targetPath, file.name), size: file.size, lastModified: file.lastModified,
+      });
+    };
+
+    for (let i = 0; i < uploads.length; i++) {
+      const { file, targetPath } = uploads[i];
+      const known = await folder(targetPath);
+      const existing = known.entries.get(file.name);
+      if (!existing) {
+        queue(file, targetPath, known);
+        continue;
+      }
+      const keepBothName = numberedName(file.name, 'file', known.taken);
+      let choice = conflictChoiceRef.current;
+      if (!choice) {
+        await processUploads(ready);
+        setPendingUploads(uploads.slice(i + 1));
+        setUploadConflict({ file, targetPath, existing, keepBothName });
+        return;
+      }
+      // A folder can't be replaced by a file; keep both instead
+      if (choice === 'overwrite' && existing.kind === 'directory') choice = 'rename';
+      if (choice === 'rename') {
+        queue(renamedUpload(file, keepBothName), targetPath, known);
+      } else if (choice === 'overwrite') {
+        queue(file, targetPath, known);
+      }
+    }
 
-      handleFileUpload(files, targetEntry.kind === 'directory' ? targetEntry.path : targetEntry.path.split('/').slice(0, -1).join('/'));
+    conflictChoiceRef.current = null;
+    await processUploads(ready);
   };
 
-  const handleFileUpload = async (files: File[], targetPath: string) => {
-    const uploadsToProcess: { file: File; targetPath: string }[] = [];
+  // Imports dropped or picked files and folders into targetPath, recreating
+  // their folders (and, with unpackArchives, the contents of archives among
+  // them); their files go through the usual upload and conflict flow
+  const importEntries = async (entries: LocalEntry[], targetPath: string, unpackArchives = false) => {
+    const imported: LocalEntry[] = [];
+    for (const entry of entries) {
+      if (!unpackArchives || !entry.file || !isArchive(entry.file)) {
+        imported.push(entry);
+        continue;
+      }
+      try {
+        const inside = await readArchive(entry.file);
+        if (inside.length === 0) addToast('info', `${entry.file.name} is empty`);
+        announce(`Unpacking ${entry.file.name}`);
+        // Unpacked next to where the archive would have gone
+        imported.push(...inside.map(item => ({ ...item, path: joinPath(parentPath(entry.path), item.path) })));
+      } catch (err) {
+        addToast('error', `Failed to import ${entry.file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
 
-    for (const file of files) {
-      const filePath = targetPath ? `${targetPath}/${file.name}` : file.name;
+    // Every folder, including ones only implied by file paths, parents first
+    const folders = new Set<string>();
+    for (const entry of imported) {
+      const segments = entry.path.split('/');
+      const depth = entry.kind === 'directory' ? segments.length : segments.length - 1;
+      for (let i = 1; i <= depth; i++) folders.add(segments.slice(0, i).join('/'));
+    }
+    const operations = [...folders]
+      .sort((a, b) => a.split('/').length - b.split('/').length)
+      .map(folder => ({ op: 'create' as const, path: joinPath(targetPath, folder), kind: 'directory' as const }));
+    if (operations.length > 0) {
       try {
-        const exists = await opfsApi.exists(filePath);
-        if (exists) {
-          const alreadyQueued = [...uploadsToProcess];
-          setPendingUploads(prev => [...prev, ...alreadyQueued]);
-          setUploadConflict({ file, targetPath, existingPath: filePath });
+        const results = await opfsApi.batch(operations, { bucket, stopOnError: true });
+        const failed = results.findIndex(result => !result.ok);
+        if (failed !== -1) {
+          addToast('error', `Failed to create ${operations[failed].path}: ${results[failed].error?.message ?? 'Unknown error'}`);
+          refresh();
           return;
         }
-        uploadsToProcess.push({ file, targetPath });
-      } catch {
-        uploadsToProcess.push({ file, targetPath });
+      } catch (err) {
+        addToast('error', `Failed to create folders: ${err instanceof Error ? err.message : String(err)}`);
+        return;
       }
+      refresh();
     }
 
-    await processUploads(uploadsToProcess);
+    await queueUploads(imported.flatMap(entry =>
+      entry.file ? [{ file: entry.file, targetPath: joinPath(targetPath, parentPath(entry.path)) }] : []
+    ));
   };
 
   const processUploads = async (uploads: { file: File; targetPath: string }[]) => {
@@ -718,66 +1454,156 @@ function App() {
 
     setIsLoading(true);
     let successCount = 0;
+    let cancelled = false;
+
+    // Report progress across the whole batch, in bytes
+    const totalBytes = uploads.reduce((sum, { file }) => sum + file.size, 0);
+    let uploadedBytes = 0;
+    const { options, finish } = startOperation(
+      uploads.length === 1 ? `Uploading ${uploads[0].file.name}` : `Uploading ${uploads.length} files`
+    );
 
     for (const { file, targetPath } of uploads) {
+        if (options.signal?.aborted) {
+            cancelled = true;
+            break;
+        }
         try {
-            const reader = new FileReader();
-            const content = await new Promise<string>((resolve, reject) => {
-                reader.onload = () => resolve(reader.result as string);
-                reader.onerror = reject;
-                reader.readAsDataURL(file);
-            });
-
-            const base64 = content.split(',')[1];
-            if (!base64) {
-              throw new Error(`Could not read file data for "${file.name}" — invalid data URL`);
-            }
             const filePath = targetPath ? `${targetPath}/${file.name}` : file.name;
 
-            await opfsApi.write(filePath, base64, true);
+            // The File is read a chunk at a time as it's written, never whole
+            await opfsApi.write(filePath, file, true, {
+              bucket: options.bucket,
+              signal: options.signal,
+              onProgress: (progress) => options.onProgress?.({
+                unit: 'bytes',
+                done: uploadedBytes + progress.done,
+                total: totalBytes,
+              }),
+            });
             successCount++;
         } catch (err) {
+            if (isOpfsError(err, 'AbortError')) {
+                cancelled = true;
+                break;
+            }
             console.error(`Failed to upload ${file.name}`, err);
             addToast('error', `Failed to upload ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
         }
+        uploadedBytes += file.size;
     }
 
+    finish();
     setIsLoading(false);
+    if (cancelled) {
+        addToast('info', `Upload cancelled${successCount > 0 ? ` after ${successCount} file${successCount > 1 ? 's' : ''}` : ''}`);
+    }
     if (successCount > 0) {
         addToast('success', `Uploaded ${successCount} file${successCount > 1 ? 's' : ''}`);
         refresh();
     }
   };
 
-  const handleConflictResolve = async (action: 'overwrite' | 'skip' | 'rename') => {
+  const handleConflictResolve = async (action: ConflictAction, applyToAll: boolean) => {
     if (!uploadConflict) return;
 
-    const { file, targetPath } = uploadConflict;
+    const { file, targetPath, keepBothName } = uploadConflict;
+    if (applyToAll) conflictChoiceRef.current = action;
+    setUploadConflict(null);
 
     if (action === 'overwrite') {
       await processUploads([{ file, targetPath }]);
     } else if (action === 'rename') {
-      const ext = file.name.includes('.') ? '.' + file.name.split('.').pop() : '';
-      const baseName = file.name.replace(ext, '');
-      const newName = `${baseName}_${Date.now()}${ext}`;
-      const newFile = new File([file], newName, { type: file.type });
-      await processUploads([{ file: newFile, targetPath }]);
+      await processUploads([{ file: renamedUpload(file, keepBothName), targetPath }]);
     }
 
-    setUploadConflict(null);
+    // The rest keep their own target paths; they may have come from
+    // different folders of an archive or different drop targets
+    const remaining = [...pendingUploads];
+    setPendingUploads([]);
+    await queueUploads(remaining);
+  };
 
-    if (pendingUploads.length > 0) {
-      const remaining = [...pendingUploads];
-      setPendingUploads([]);
-      // Process each remaining upload with its own original targetPath, not
-      // just the first file's path (they may have been dropped onto different
-      // directories in a multi-target batch).
-      for (const pending of remaining) {
-        await handleFileUpload([pending.file], pending.targetPath);
+  // Downloads the whole bucket, with a manifest, as one snapshot archive
+  const handleExportSnapshot = async () => {
+    const origin = await currentOrigin().catch(() => location.origin);
+    const name = snapshotFileName(origin);
+    const { options, finish } = startOperation('Exporting snapshot');
+    try {
+      const { size } = await opfsApi.downloadZip([''], { ...options, name, snapshot: { origin } });
+      addToast('success', `Snapshot exported: ${name} (${formatFileSize(size)})`);
+    } catch (err) {
+      if (isOpfsError(err, 'AbortError')) {
+        addToast('info', 'Snapshot export cancelled');
+      } else {
+        addToast('error', `Snapshot export failed: ${err instanceof Error ? err.message : String(err)}`);
       }
+    } finally {
+      finish();
     }
   };
 
+  const handleSnapshotPicked = async (file: File) => {
+    try {
+      const snapshot = await readSnapshot(file);
+      const origin = await currentOrigin().catch(() => location.origin);
+      setSnapshotImport({ snapshot, fileName: file.name, origin });
+    } catch (err) {
+      addToast('error', `Failed to read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // Restores the picked snapshot into the bucket, after deleting everything
+  // in it when replacing; merged files go through the conflict dialog
+  const handleImportSnapshot = async (mode: SnapshotImportMode) => {
+    if (!snapshotImport) return;
+    const { snapshot } = snapshotImport;
+    setSnapshotImport(null);
+
+    if (mode === 'replace') {
+      let paths: string[];
+      try {
+        paths = (await opfsApi.list('', { bucket })).map(entry => entry.path);
+      } catch (err) {
+        addToast('error', `Failed to list OPFS: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+      if (!(await checkUnlocked(paths, 'replace the OPFS contents'))) return;
+      if (!(await removePaths(paths))) {
+        addToast('info', 'Snapshot not imported: not everything could be deleted');
+        return;
+      }
+    }
+    announce('Importing snapshot');
+    await importEntries(snapshot.entries, '');
+  };
+
+  // Expand a folder and everything below it, walked in one call
+  const handleExpandAll = useCallback(async (entry: FileEntry) => {
+    try {
+      const { entries, truncated } = await opfsApi.walk(entry.path, { includeMeta: true, bucket });
+      const listings = new Map<string, FileEntry[]>([[entry.path, []]]);
+      for (const child of entries) {
+        listings.get(child.path.slice(0, child.path.lastIndexOf('/')))?.push(child);
+        if (child.kind === 'directory') listings.set(child.path, []);
+      }
+      const directories = [...listings.keys()];
+      if (truncated) {
+        // The walk stopped inside the last entry's ancestors, so their
+        // listings are incomplete; those folders list themselves
+        const last = entries[entries.length - 1]?.path ?? entry.path;
+        for (let path = last; path.length >= entry.path.length; path = path.slice(0, path.lastIndexOf('/'))) {
+          listings.delete(path);
+        }
+        addToast('info', `Expanded the first ${entries.length.toLocaleString()} entries of "${entry.name}"`);
+      }
+      setPrefetchedListings({ refreshTrigger, listings });
+      setExpandedPaths(prev => new Set([...prev, ...directories]));
+    } catch (err) {
+      addToast('error', `Expand failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [bucket, refreshTrigger, addToast]);
+
   // ============================================================
   // Context menu
   // ============================================================
@@ -798,10 +1624,38 @@ function App() {
         onClick: () => handleDeleteSelected()
       });
       items.push({
-        label: `Download ${selectedPaths.size} items`,
+        label: `Download ${selectedPaths.size} items as ZIP`,
         icon: <Download size={12} />,
         onClick: () => handleDownloadSelected()
       });
+      items.push({
+        label: `Rename ${selectedPaths.size} items…`,
+        icon: <Edit3 size={12} />,
+        shortcut: 'F2',
+        onClick: () => handleBulkRename(getSelectedEntries())
+      });
+      items.push({
+        label: `Duplicate ${selectedPaths.size} items`,
+        icon: <CopyPlus size={12} />,
+        onClick: () => handleDuplicate(getSelectedEntries())
+      });
+      items.push({
+        label: 'Copy',
+        icon: <Copy size={12} />,
+        shortcut: `${modKey}+C`,
+        onClick: () => handleClipboard('copy', getSelectedEntries())
+      });
+      items.push({
+        label: 'Cut',
+        icon: <Scissors size={12} />,
+        shortcut: `${modKey}+X`,
+        onClick: () => handleClipboard('cut', getSelectedEntries())
+      });
+      items.push({
+        label: 'Check Locks',
+        icon: <Lock size={12} />,
+        onClick: () => handleCheckLocks([...selectedPaths])
+      });
       items.push({
         label: 'Copy paths',
         icon: <Copy size={12} />,
@@ -815,6 +1669,11 @@ function App() {
     } else {
       // Single item context menu
       if (entry.kind === 'directory') {
+        items.push({
+          label: 'Expand All',
+          icon: <ChevronsDown size={12} />,
+          onClick: () => handleExpandAll(entry)
+        });
         items.push({
           label: 'New File',
           icon: <FilePlus size={12} />,
@@ -828,7 +1687,7 @@ function App() {
               onConfirm: async (name) => {
                 if (name) {
                   try {
-                    await opfsApi.create(`${entry.path}/${name}`, 'file');
+                    await opfsApi.create(`${entry.path}/${name}`, 'file', { bucket });
                     refresh();
                     announce(`File ${name} created`);
                   } catch (e) {
@@ -853,7 +1712,7 @@ function App() {
               onConfirm: async (name) => {
                 if (name) {
                   try {
-                    await opfsApi.create(`${entry.path}/${name}`, 'directory');
+                    await opfsApi.create(`${entry.path}/${name}`, 'directory', { bucket });
                     refresh();
                     announce(`Folder ${name} created`);
                   } catch (e) {
@@ -867,20 +1726,65 @@ function App() {
         });
       }
 
-      if (entry.kind === 'file') {
+      if (entry.kind === 'directory') {
+        items.push({
+          label: 'Import Archive…',
+          icon: <PackageOpen size={12} />,
+          onClick: () => pickArchives(entry.path)
+        });
         items.push({
-          label: 'Download',
-          icon: <Download size={12} />,
-          onClick: () => handleDownload(entry.path)
+          label: 'Upload Folder…',
+          icon: <FolderUp size={12} />,
+          onClick: () => pickFolder(entry.path)
         });
       }
 
+      items.push(entry.kind === 'file' ? {
+        label: 'Download',
+        icon: <Download size={12} />,
+        onClick: () => handleDownload(entry.path)
+      } : {
+        label: 'Download as ZIP',
+        icon: <Download size={12} />,
+        onClick: () => handleDownloadZip([entry])
+      });
+
       items.push({
         label: 'Rename',
         icon: <Edit3 size={12} />,
         shortcut: 'F2',
         onClick: () => handleRename(entry)
       });
+      items.push({
+        label: 'Duplicate',
+        icon: <CopyPlus size={12} />,
+        onClick: () => handleDuplicate([entry])
+      });
+      items.push({
+        label: 'Copy',
+        icon: <Copy size={12} />,
+        shortcut: `${modKey}+C`,
+        onClick: () => handleClipboard('copy', [entry])
+      });
+      items.push({
+        label: 'Cut',
+        icon: <Scissors size={12} />,
+        shortcut: `${modKey}+X`,
+        onClick: () => handleClipboard('cut', [entry])
+      });
+      if (clipboard) {
+        items.push({
+          label: entry.kind === 'directory' ? 'Paste Into Folder' : 'Paste',
+          icon: <ClipboardPaste size={12} />,
+          shortcut: `${modKey}+V`,
+          onClick: () => handlePaste(entry)
+        });
+      }
+      items.push({
+        label: 'Check Locks',
+        icon: <Lock size={12} />,
+        onClick: () => handleCheckLocks([entry.path])
+      });
       items.push({
         label: 'Copy Path',
         icon: <Copy size={12} />,
@@ -895,41 +1799,13 @@ function App() {
         icon: <Trash2 size={12} />,
         danger: true,
         shortcut: 'Del',
-        onClick: () => {
-          setModal({
-            isOpen: true,
-            type: 'confirm',
-            title: 'Delete',
-            message: `Are you sure you want to delete "${entry.name}"?`,
-            danger: true,
-            onConfirm: async () => {
-              try {
-                await opfsApi.delete(entry.path);
-                if (primaryFile?.path === entry.path) {
-                  setPrimaryFile(null);
-                  setFileContent('');
-                  setFileMeta(null);
-                }
-                setSelectedPaths(prev => {
-                  const next = new Set(prev);
-                  next.delete(entry.path);
-                  return next;
-                });
-                refresh();
-                addToast('success', 'Deleted successfully');
-                announce(`${entry.name} deleted`);
-              } catch (err) {
-                addToast('error', `Delete failed: ${err instanceof Error ? err.message : String(err)}`);
-              }
-              setModal(prev => ({ ...prev, isOpen: false }));
-            }
-          });
-        }
+        onClick: () => deletePaths([entry.path])
       });
     }
 
     setContextMenu({ x: e.clientX, y: e.clientY, items });
-  }, [selectedPaths, primaryFile, addToast, handleDownload, handleDownloadSelected, handleDeleteSelected, handleRename, refresh, announce]);
+  }, [selectedPaths, bucket, addToast, handleDownload, handleDownloadSelected, handleDeleteSelected, handleRename, handleBulkRename, handleExpandAll, refresh, announce,
+      clipboard, handleClipboard, handlePaste, handleDuplicate, getSelectedEntries, deletePaths, handleDownloadZip, handleCheckLocks]);
 
 
   // ============================================================
@@ -945,6 +1821,10 @@ function App() {
     fileContent.startsWith('[BINARY]') ||
     fileContent.startsWith('[BINARY_OR_LARGE]');
   const isUnknownType = fileContent.startsWith('[UNKNOWN_TYPE]');
+  // Text over the 10 MB cap, or a binary file opened as hex, is paged through
+  // with ranged reads instead
+  const isPagedText = isTooLarge && !isImage && fileMeta?.detectedType === 'text';
+  const isPagedHex = isTooLarge && !!primaryFile && hexViewPath === primaryFile.path;
 
   // Keyboard shortcuts list
   const shortcuts = [
@@ -954,9 +1834,13 @@ function App() {
     { keys: [modKey, 'N'], action: 'New file' },
     { keys: [modKey, '\u21E7', 'N'], action: 'New folder' },
     { keys: [modKey, 'A'], action: 'Select all' },
+    { keys: [modKey, 'C'], action: 'Copy selected' },
+    { keys: [modKey, 'X'], action: 'Cut selected' },
+    { keys: [modKey, 'V'], action: 'Paste' },
     { keys: [modKey, '\u21E7', '?'], action: 'Toggle shortcuts' },
     { keys: ['F2'], action: 'Rename' },
     { keys: ['Del'], action: 'Delete selected' },
+    { keys: ['\u21E7', 'Del'], action: 'Delete permanently' },
     { keys: ['\u2191', '\u2193'], action: 'Navigate tree' },
     { keys: ['\u21E7', '\u2191\u2193'], action: 'Extend selection' },
     { keys: [modKey, 'Click'], action: 'Toggle select' },
@@ -972,7 +1856,7 @@ function App() {
 
   return (
     <div
-        className="flex h-screen w-full bg-dt-bg text-dt-text overflow-hidden font-sans text-[11px] relative"
+        className="flex h-full w-full bg-dt-bg text-dt-text overflow-hidden font-sans text-[11px] relative"
         onDragEnter={handleDragEnter}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
@@ -1003,51 +1887,45 @@ function App() {
         >
             <div className="text-center p-8 rounded-lg bg-dt-surface shadow-xl border border-dt-border">
                 <FolderPlus size={48} className="mx-auto mb-4 text-blue-500" aria-hidden="true" />
-                <h3 className="text-lg font-medium text-dt-text mb-1">Drop files to upload</h3>
+                <h3 className="text-lg font-medium text-dt-text mb-1">Drop files or folders to upload</h3>
                 <p className="text-dt-text-secondary text-xs">to {primaryFile?.kind === 'directory' ? primaryFile.path : 'root'}</p>
+                <p className="text-dt-text-secondary text-[10px] mt-2">Hold Alt to unpack .zip and .tar(.gz) archives</p>
             </div>
         </div>
       )}
 
+      {snapshotImport && (
+        <SnapshotImportDialog
+          snapshot={snapshotImport.snapshot}
+          fileName={snapshotImport.fileName}
+          origin={snapshotImport.origin}
+          bucket={bucket}
+          onImport={handleImportSnapshot}
+          onCancel={() => setSnapshotImport(null)}
+          formatBytes={formatFileSize}
+        />
+      )}
+
+      {bulkRename && (
+        <BulkRenameDialog
+          entries={bulkRename.entries}
+          siblings={bulkRename.siblings}
+          onApply={applyBulkRename}
+          onClose={() => setBulkRename(null)}
+        />
+      )}
+
       {/* Upload Conflict Dialog */}
       {uploadConflict && (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-[1px]">
-          <div
-            className="bg-dt-surface border border-dt-border shadow-xl rounded-lg w-[360px] overflow-hidden modal-content-enter"
-            role="alertdialog"
-            aria-labelledby="conflict-title"
-            aria-describedby="conflict-desc"
-          >
-            <div className="flex items-center justify-between px-4 py-2 border-b border-dt-border bg-dt-bg">
-              <h3 id="conflict-title" className="font-semibold text-dt-text text-sm">File Already Exists</h3>
-            </div>
-            <div className="p-4">
-              <p id="conflict-desc" className="text-dt-text text-xs mb-4">
-                A file named <span className="font-semibold">"{uploadConflict.file.name}"</span> already exists.
-              </p>
-              <div className="space-y-2">
-                <button
-                  onClick={() => handleConflictResolve('overwrite')}
-                  className="w-full px-3 py-2 rounded text-xs bg-red-600/20 text-red-400 border border-red-600/30 hover:bg-red-600/30 flex items-center justify-center gap-2 transition-colors"
-                >
-                  <Trash2 size={12} aria-hidden="true" /> Replace existing file
-                </button>
-                <button
-                  onClick={() => handleConflictResolve('rename')}
-                  className="w-full px-3 py-2 rounded text-xs bg-blue-600/20 text-blue-400 border border-blue-600/30 hover:bg-blue-600/30 transition-colors"
-                >
-                  Keep both (rename new file)
-                </button>
-                <button
-                  onClick={() => handleConflictResolve('skip')}
-                  className="w-full px-3 py-2 rounded text-xs text-dt-text-secondary border border-dt-border hover:bg-dt-hover transition-colors"
-                >
-                  Skip this file
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
+        <UploadConflictDialog
+          key={uploadConflict.existing.path}
+          file={uploadConflict.file}
+          existing={uploadConflict.existing}
+          keepBothName={uploadConflict.keepBothName}
+          remaining={pendingUploads.length}
+          onResolve={handleConflictResolve}
+          formatBytes={formatFileSize}
+        />
       )}
 
       {/* Keyboard Shortcuts Panel */}
@@ -1133,6 +2011,49 @@ function App() {
                 >
                     <FolderPlus size={14} aria-hidden="true" />
                 </button>
+                <button
+                  onClick={() => pickArchives(selectedFolder())}
+                  className="p-1 hover:bg-dt-hover rounded text-dt-text-secondary transition-colors"
+                  title="Import archive… (.zip, .tar, .tar.gz)"
+                  aria-label="Import archive"
+                >
+                    <PackageOpen size={14} aria-hidden="true" />
+                </button>
+                <input
+                  ref={archiveInputRef}
+                  type="file"
+                  accept={ARCHIVE_ACCEPT}
+                  multiple
+                  className="hidden"
+                  tabIndex={-1}
+                  aria-hidden="true"
+                  onChange={(e) => {
+                    const files = Array.from(e.target.files ?? []);
+                    // Picking the same archive again should fire onChange again
+                    e.target.value = '';
+                    if (files.length > 0) importEntries(fromFiles(files), archiveTargetRef.current, true);
+                  }}
+                />
+                <button
+                  onClick={() => pickFolder(selectedFolder())}
+                  className="p-1 hover:bg-dt-hover rounded text-dt-text-secondary transition-colors"
+                  title="Upload folder…"
+                  aria-label="Upload folder"
+                >
+                    <FolderUp size={14} aria-hidden="true" />
+                </button>
+                <input
+                  ref={folderInputRef}
+                  type="file"
+                  className="hidden"
+                  tabIndex={-1}
+                  aria-hidden="true"
+                  onChange={(e) => {
+                    const files = Array.from(e.target.files ?? []);
+                    e.target.value = '';
+                    if (files.length > 0) importEntries(fromFiles(files), archiveTargetRef.current);
+                  }}
+                />
                 <button
                   onClick={refresh}
                   className="p-1 hover:bg-dt-hover rounded text-dt-text-secondary transition-colors"
@@ -1144,6 +2065,14 @@ function App() {
             </div>
         </div>
 
+        <FrameSelector refreshKey={refreshTrigger} onFrameChange={handleFrameChange} />
+        <BucketRoots
+          refreshKey={refreshTrigger}
+          bucket={bucket}
+          onBucketChange={handleBucketChange}
+          formatBytes={formatFileSize}
+        />
+
         {/* Search input */}
         {showSearch && (
           <div className="p-2 border-b border-dt-border">
@@ -1174,6 +2103,8 @@ function App() {
             {searchQuery && (
               <div className="text-[10px] text-dt-text-secondary mt-1 pl-1" aria-live="polite">
                 {filteredFiles.length} result{filteredFiles.length !== 1 ? 's' : ''}
+                {!searchIndexReady && ' in top-level items, searching subfolders…'}
+                {searchIndexReady && searchIndex.truncated && ` in the first ${searchIndex.entries?.length.toLocaleString()} items`}
               </div>
             )}
           </div>
@@ -1213,7 +2144,16 @@ function App() {
             ) : error ? (
                 <div className="p-4 text-red-400 flex flex-col items-center text-center" role="alert">
                     <AlertCircle size={24} className="mb-2" aria-hidden="true" />
-                    <span>{error}</span>
+                    <span>{error.message}</span>
+                    {getRecoveryHint(error) && (
+                        <p className="text-[10px] mt-2 text-dt-text-secondary">{getRecoveryHint(error)}</p>
+                    )}
+                    <button
+                        onClick={refresh}
+                        className="mt-3 px-3 py-1.5 bg-dt-surface border border-dt-border text-dt-text rounded text-xs hover:bg-dt-hover transition-colors"
+                    >
+                        Retry
+                    </button>
                 </div>
             ) : filteredFiles.length === 0 && searchQuery ? (
                 <div className="p-4 text-dt-text-secondary text-center text-xs" role="status">
@@ -1236,14 +2176,21 @@ function App() {
                         onContextMenu={handleContextMenu}
                         onDrop={handleTreeDrop}
                         refreshTrigger={refreshTrigger}
+                        bucket={bucket}
                         expandedPaths={expandedPaths}
                         onToggleExpand={handleToggleExpand}
                         onFocusPath={handleFocusPath}
+                        prefetched={prefetchedListings?.refreshTrigger === refreshTrigger ? prefetchedListings.listings : undefined}
+                        showParentPath={searching}
+                        cutPaths={cutPaths}
+                        lockedPaths={lockedPaths}
                     />
                 ))
             )}
         </div>
 
+        <LocksPanel refreshKey={refreshTrigger} bucket={bucket} onRevealPath={handleRevealPath} />
+
         {/* Storage Info */}
         {storageEstimate && (
           <div className="p-2 border-t border-dt-border text-[10px] text-dt-text-secondary">
@@ -1424,17 +2371,38 @@ function App() {
                 src={fileContent}
                 fileName={primaryFile.name}
               />
+            ) : (isPagedText || isPagedHex) && fileMeta ? (
+              <PagedFileViewer
+                key={primaryFile.path}
+                path={primaryFile.path}
+                size={fileMeta.size}
+                bucket={bucket}
+                initialMode={isPagedText ? 'text' : 'hex'}
+                onDownload={() => handleDownload(primaryFile.path)}
+                formatBytes={formatFileSize}
+              />
             ) : isTooLarge ? (
               <div className="flex flex-col items-center justify-center h-full text-dt-text-secondary space-y-4 p-8 text-center">
                 {isImage ? <ImageIcon size={48} className="opacity-50" aria-hidden="true" /> : <FileText size={48} className="opacity-50" aria-hidden="true" />}
                 <p className="text-sm">{fileContent}</p>
-                <button
-                  onClick={() => handleDownload(primaryFile.path)}
-                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-500 transition-colors"
-                >
-                  <Download size={16} className="mr-2" aria-hidden="true" />
-                  Download File
-                </button>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => handleDownload(primaryFile.path)}
+                    className="flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-500 transition-colors"
+                  >
+                    <Download size={16} className="mr-2" aria-hidden="true" />
+                    Download File
+                  </button>
+                  {!isImage && (
+                    <button
+                      onClick={() => setHexViewPath(primaryFile.path)}
+                      className="flex items-center px-4 py-2 bg-dt-surface border border-dt-border rounded hover:bg-dt-hover transition-colors"
+                    >
+                      <Binary size={16} className="mr-2" aria-hidden="true" />
+                      View as Hex
+                    </button>
+                  )}
+                </div>
               </div>
             ) : isUnknownType ? (
               <div className="flex flex-col items-center justify-center h-full text-dt-text-secondary space-y-4 p-8 text-center">
@@ -1469,6 +2437,12 @@ function App() {
               <MarkdownPreview content={fileContent} />
             ) : (
               <div className="flex flex-col h-full">
+                {(primaryFile.locked || lockedPaths.has(primaryFile.path)) && (
+                  <div className="flex items-center gap-2 px-3 py-1.5 bg-yellow-500/10 border-b border-yellow-500/30 text-yellow-500 text-xs shrink-0" role="status">
+                    <Lock size={12} aria-hidden="true" />
+                    <span>Locked by the page (sync access handle) — changes can't be saved until the page closes it</span>
+                  </div>
+                )}
                 {fileMeta?.isLargeText && (
                   <div className="flex items-center gap-2 px-3 py-1.5 bg-yellow-500/10 border-b border-yellow-500/30 text-yellow-500 text-xs shrink-0">
                     <AlertCircle size={12} aria-hidden="true" />
@@ -1516,6 +2490,30 @@ function App() {
           )}
         </div>
 
+        {showCompare && (
+          <ComparePanel
+            refreshKey={refreshTrigger}
+            bucket={bucket}
+            onClose={() => setShowCompare(false)}
+            startOperation={startOperation}
+            onToast={addToast}
+            formatBytes={formatFileSize}
+          />
+        )}
+        {showTrash && (
+          <TrashPanel
+            refreshKey={refreshTrigger}
+            onClose={() => setShowTrash(false)}
+            onRestore={handleRestore}
+            onRemove={handleRemoveFromTrash}
+            onEmpty={handleEmptyTrash}
+            formatBytes={formatFileSize}
+          />
+        )}
+        {showActivity && (
+          <ActivityPanel onClose={() => setShowActivity(false)} formatBytes={formatFileSize} />
+        )}
+
         {/* Status Bar */}
         <footer className="h-6 border-t border-dt-border bg-dt-surface flex items-center px-3 text-[10px] text-dt-text-secondary justify-between" role="contentinfo">
           <div className="flex space-x-4">
@@ -1537,6 +2535,63 @@ function App() {
             )}
           </div>
           <div className="flex items-center space-x-3">
+            <OperationQueue />
+            <button
+              onClick={handleExportSnapshot}
+              className="hover:text-dt-text flex items-center gap-1 transition-colors"
+              title="Download this origin's whole OPFS, with a manifest, as one snapshot archive"
+            >
+              <Camera size={10} aria-hidden="true" />
+              <span>Export snapshot</span>
+            </button>
+            <button
+              onClick={() => snapshotInputRef.current?.click()}
+              className="hover:text-dt-text flex items-center gap-1 transition-colors"
+              title="Restore a snapshot archive into this origin's OPFS"
+            >
+              <ArchiveRestore size={10} aria-hidden="true" />
+              <span>Import snapshot</span>
+            </button>
+            <input
+              ref={snapshotInputRef}
+              type="file"
+              accept=".zip"
+              className="hidden"
+              tabIndex={-1}
+              aria-hidden="true"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleSnapshotPicked(file);
+              }}
+            />
+            <button
+              onClick={() => setShowCompare(prev => !prev)}
+              className={`hover:text-dt-text flex items-center gap-1 transition-colors ${showCompare ? 'text-dt-text' : ''}`}
+              title="Compare the tree with a baseline or snapshot taken earlier"
+              aria-pressed={showCompare}
+            >
+              <GitCompare size={10} aria-hidden="true" />
+              <span>Compare</span>
+            </button>
+            <button
+              onClick={() => setShowActivity(prev => !prev)}
+              className={`hover:text-dt-text flex items-center gap-1 transition-colors ${showActivity ? 'text-dt-text' : ''}`}
+              title="Log of every call made to the page's storage"
+              aria-pressed={showActivity}
+            >
+              <Activity size={10} aria-hidden="true" />
+              <span>Activity</span>
+            </button>
+            <button
+              onClick={() => setShowTrash(prev => !prev)}
+              className={`hover:text-dt-text flex items-center gap-1 transition-colors ${showTrash ? 'text-dt-text' : ''}`}
+              title="Deleted files and folders, ready to restore"
+              aria-pressed={showTrash}
+            >
+              <Trash2 size={10} aria-hidden="true" />
+              <span>Trash</span>
+            </button>
             <button
               onClick={() => setShowShortcuts(true)}
               className="hover:text-dt-text flex items-center gap-1 transition-colors"
@@ -1574,6 +2629,14 @@ function App() {
         onCancel={() => setModal(prev => ({ ...prev, isOpen: false }))}
       />
 
+      {activeOperation && (
+        <ProgressPanel
+          operation={activeOperation}
+          formatBytes={formatFileSize}
+          onCancel={cancelOperation}
+        />
+      )}
+
       <ToastContainer
         toasts={toasts}
         onDismiss={dismissToast}
@@ -0,0 +1,84 @@
+import type { OpfsErrorCode } from "./errors";
+
+/**
+ * One `opfsApi` call, as recorded by the activity log.
+ */
+export interface ActivityEntry {
+  id: number;
+  /** The opfsApi operation, e.g. "rename" */
+  operation: string;
+  /** Every path the call was given (source and destination for moves) */
+  paths: string[];
+  /** Storage bucket the call ran in; the default bucket when undefined */
+  bucket?: string;
+  /** When the call was made, in ms since the epoch */
+  startedAt: number;
+  /** Time until it settled, including any wait behind overlapping mutations */
+  duration: number;
+  /** Bytes sent with the call (writes) or received (reads), when there are any */
+  payloadSize?: number;
+  status: "ok" | "error" | "cancelled";
+  /** Short description of what the call returned, e.g. "12 entries" */
+  result?: string;
+  error?: { code: OpfsErrorCode; message: string };
+}
+
+export interface ActivityLog {
+  /** Adds a settled call, dropping the oldest entries past the capacity */
+  record(entry: Omit<ActivityEntry, "id">): void;
+  clear(): void;
+  /** Recorded calls, oldest first. Replaced on every change. */
+  getSnapshot(): readonly ActivityEntry[];
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Creates a log of the most recent `capacity` calls, for looking back at what
+ * the explorer did to the page's storage and how long it took.
+ */
+export function createActivityLog(capacity = 500): ActivityLog {
+  let entries: readonly ActivityEntry[] = [];
+  let nextId = 1;
+  const listeners = new Set<() => void>();
+
+  const publish = (next: readonly ActivityEntry[]) => {
+    entries = next;
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    record(entry) {
+      const next = [...entries, { id: nextId++, ...entry }];
+      publish(next.length > capacity ? next.slice(next.length - capacity) : next);
+    },
+
+    clear() {
+      if (entries.length > 0) publish([]);
+    },
+
+    getSnapshot: () => entries,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Keeps the entries whose operation, paths, result or error mention `query`,
+ * optionally only the failed ones.
+ */
+export function filterActivity(
+  entries: readonly ActivityEntry[],
+  query: string,
+  status: ActivityEntry["status"] | "all" = "all"
+): ActivityEntry[] {
+  const needle = query.trim().toLowerCase();
+  return entries.filter(entry => {
+    if (status !== "all" && entry.status !== status) return false;
+    if (!needle) return true;
+    return [entry.operation, entry.bucket ?? "", entry.result ?? "", entry.error?.message ?? "", ...entry.paths]
+      .some(text => text.toLowerCase().includes(needle));
+  });
+}
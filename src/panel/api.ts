@@ -1,5 +1,25 @@
-import type { FileEntry, StorageEstimate, FileReadResult } from "../types";
-export type { FileEntry, StorageEstimate, FileReadResult };
+import type {
+  BatchOperation, BatchOperationResult, FileEntry, StorageEstimate, FileRange, FileReadResult, OperationProgress, StorageBucketInfo,
+  SnapshotManifest, SnapshotManifestEntry, WalkEntry, WalkNode, WalkOptions, WalkResult, WebLockInfo, WebLocksSnapshot, ZipOptions, ZipResult,
+} from "../types";
+import { createOpfsRuntime, type RuntimeOp, type RuntimeArgs, type RuntimeResult } from "../page/runtime";
+import { getBridge } from "./bridge";
+import { createRuntimeBackend, inBucket, writeInChunks, type OpfsBackend, type OperationOptions, type RuntimeInvoker } from "./backend";
+import { base64ToBytes } from "./paging";
+import { createMemoryBackend, DEMO_SEED } from "./memoryBackend";
+import { abortError, namedError, toOpfsError, type OpfsError } from "./errors";
+import { createMutationScheduler, type MutationScheduler } from "./scheduler";
+import { createActivityLog, type ActivityLog } from "./activityLog";
+import { frameOrigin, getTargetFrame, type InspectedFrame } from "./frames";
+export type {
+  BatchOperation, FileEntry, StorageEstimate, FileRange, FileReadResult, OperationProgress, StorageBucketInfo,
+  SnapshotManifest, SnapshotManifestEntry, WalkEntry, WalkNode, WalkOptions, WalkResult, WebLockInfo, WebLocksSnapshot, ZipOptions, ZipResult,
+};
+export type { OpfsBackend, OperationOptions };
+export type { ScheduledMutation } from "./scheduler";
+export type { ActivityEntry } from "./activityLog";
+export type { InspectedFrame } from "./frames";
+export { OpfsError, isOpfsError, toOpfsError, type OpfsErrorCode } from "./errors";
 
 // Declare browser namespace for Safari/Firefox compatibility
 declare const browser: typeof chrome | undefined;
@@ -37,12 +57,14 @@ function getDevtools(): typeof chrome.devtools | null {
 }
 
 /**
- * Execute eval in the inspected window.
+ * Execute eval in the inspected window — in the target frame, unless
+ * `frameURL` says otherwise (null for the top frame).
  * Safari uses Promise-based API, Chrome uses callback-based API.
  */
 function executeEval(
   devtools: typeof chrome.devtools,
-  code: string
+  code: string,
+  frameURL: string | null = getTargetFrame()
 ): Promise<
   [unknown, chrome.devtools.inspectedWindow.EvaluationExceptionInfo | undefined]
 > {
@@ -54,18 +76,19 @@ function executeEval(
       // First, try with a callback (Chrome style)
       let callbackCalled = false;
 
-      const maybePromise = devtools.inspectedWindow.eval(
-        code,
-        (
-          evalResult: unknown,
-          exceptionInfo:
-            | chrome.devtools.inspectedWindow.EvaluationExceptionInfo
-            | undefined
-        ) => {
-          callbackCalled = true;
-          resolve([evalResult, exceptionInfo]);
-        }
-      );
+      const callback = (
+        evalResult: unknown,
+        exceptionInfo:
+          | chrome.devtools.inspectedWindow.EvaluationExceptionInfo
+          | undefined
+      ) => {
+        callbackCalled = true;
+        resolve([evalResult, exceptionInfo]);
+      };
+      // Only pass options when needed, for browsers with a two-argument eval()
+      const maybePromise = frameURL
+        ? devtools.inspectedWindow.eval(code, { frameURL }, callback)
+        : devtools.inspectedWindow.eval(code, callback);
 
       // Check if it returned a Promise (Safari style) - cast to any to check
       const result = maybePromise as unknown;
@@ -137,7 +160,8 @@ function executeEval(
 }
 
 /**
- * Helper to execute async code in the inspected page context.
+ * Helper to execute async code in the inspected page context. This is the
+ * fallback transport for pages the content-script bridge can't reach.
  * Uses a polling mechanism to handle async operations since inspectedWindow.eval
  * doesn't natively await Promises.
  *
@@ -197,7 +221,7 @@ function evalInPage<T>(code: string): Promise<T> {
       "} catch (err) {" +
       "window['" +
       opId +
-      "'] = { status: 'error', error: err.message || String(err) };" +
+      "'] = { status: 'error', error: (err && err.message) || String(err), name: err && err.name };" +
       "}" +
       "})();" +
       "return window['" +
@@ -229,7 +253,7 @@ function evalInPage<T>(code: string): Promise<T> {
             executeEval(devtools, "delete window['" + opId + "']").catch(
               () => {}
             );
-            reject(new Error("Operation timed out"));
+            reject(namedError("TimeoutError", "Operation timed out"));
             return;
           }
 
@@ -249,6 +273,7 @@ function evalInPage<T>(code: string): Promise<T> {
                 status: string;
                 result?: T;
                 error?: string;
+                name?: string;
               } | null;
 
               if (!result) {
@@ -275,7 +300,7 @@ function evalInPage<T>(code: string): Promise<T> {
                 executeEval(devtools, "delete window['" + opId + "']").catch(
                   () => {}
                 );
-                reject(new Error(result.error || "Unknown error"));
+                reject(namedError(result.name || "Error", result.error || "Unknown error"));
               }
             })
             .catch((err) => {
@@ -293,6 +318,7 @@ function evalInPage<T>(code: string): Promise<T> {
             status: string;
             result?: T;
             error?: string;
+            name?: string;
           };
           if (typedResult.status === "done") {
             executeEval(devtools, "delete window['" + opId + "']").catch(
@@ -304,7 +330,7 @@ function evalInPage<T>(code: string): Promise<T> {
             executeEval(devtools, "delete window['" + opId + "']").catch(
               () => {}
             );
-            reject(new Error(typedResult.error || "Unknown error"));
+            reject(namedError(typedResult.name || "Error", typedResult.error || "Unknown error"));
             return;
           }
         }
@@ -317,779 +343,593 @@ function evalInPage<T>(code: string): Promise<T> {
 }
 
 /**
- * Escapes a string for safe inclusion in JavaScript code.
- * Handles all characters that would break a JS string literal, including
- * null bytes and Unicode line/paragraph separators (\u2028/\u2029) which
- * are valid in JSON but illegal inside JS string literals.
+ * Global the eval transport installs the runtime under in the inspected
+ * page's main world. Non-enumerable so it stays out of the page's way.
+ */
+const RUNTIME_GLOBAL = "__opfsExplorer";
+
+/** Result an invocation returns when the runtime is missing or outdated */
+const RUNTIME_MISSING = "__opfsRuntimeMissing";
+
+const RUNTIME_SOURCE = createOpfsRuntime.toString();
+
+/**
+ * Version of the installed runtime, derived from its source (FNV-1a) so that
+ * any change to the runtime — a new extension build, or a dev edit —
+ * replaces a stale copy left in the page by an earlier panel.
+ */
+const RUNTIME_VERSION = (() => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < RUNTIME_SOURCE.length; i++) {
+    hash ^= RUNTIME_SOURCE.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+})();
+
+/**
+ * Serializes a value as a JavaScript literal for inclusion in eval'd code.
+ * JSON is valid JS, except that older engines reject raw \u2028/\u2029
+ * inside string literals.
  */
-function escapeString(str: string): string {
-  return str
-    .replace(/\\/g, "\\\\")
-    .replace(/'/g, "\\'")
-    .replace(/"/g, '\\"')
-    .replace(/\n/g, "\\n")
-    .replace(/\r/g, "\\r")
-    .replace(/\t/g, "\\t")
-    .replace(/\0/g, "\\x00")
+function toJsLiteral(value: unknown): string {
+  return JSON.stringify(value)
     .replace(/\u2028/g, "\\u2028")
     .replace(/\u2029/g, "\\u2029");
 }
 
-// Helper functions that will be injected into the page
-const OPFS_HELPERS = `
-// Resolve a path string to a DirectoryHandle
-async function __opfs_resolvePath(path) {
-  const root = await navigator.storage.getDirectory();
-  if (!path || path === "") return root;
-  const parts = path.split("/").filter(p => p.length > 0);
-  let current = root;
-  for (const part of parts) {
-    current = await current.getDirectoryHandle(part);
-  }
-  return current;
+/**
+ * Code that installs the runtime into the inspected page, unless the same
+ * version is already there. Only sent when an invocation reports the runtime
+ * missing — i.e. on first use and after each navigation or extension update.
+ */
+function buildInstallCode(): string {
+  return (
+    "var current = window['" + RUNTIME_GLOBAL + "'];" +
+    "if (!current || current.version !== '" + RUNTIME_VERSION + "') {" +
+    "var runtime = (" + RUNTIME_SOURCE + ")();" +
+    "runtime.version = '" + RUNTIME_VERSION + "';" +
+    "Object.defineProperty(window, '" + RUNTIME_GLOBAL + "', { value: runtime, configurable: true, writable: true });" +
+    "}" +
+    "return true;"
+  );
 }
 
-// Known text file extensions — extensionless / custom-ext files fall through to content sniffing
-const __opfs_textExtensions = [
-  ".txt", ".json", ".js", ".jsx", ".ts", ".tsx", ".css", ".scss", ".sass",
-  ".html", ".htm", ".md", ".markdown", ".xml", ".yaml", ".yml", ".toml",
-  ".ini", ".cfg", ".env", ".gitignore", ".sh", ".bash", ".zsh", ".fish",
-  ".py", ".rb", ".php", ".java", ".c", ".cpp", ".h", ".hpp", ".rs", ".go",
-  ".swift", ".kt", ".sql", ".graphql", ".vue", ".svelte", ".astro",
-  // Game / 3D engine assets
-  ".scene", ".prefab", ".asset", ".meta", ".shader", ".glsl", ".wgsl",
-  ".hlsl", ".material", ".anim", ".controller", ".tscn", ".gd", ".tres",
-  ".godot", ".unity",
-  // Config & data formats
-  ".conf", ".config", ".lock", ".map", ".csv", ".tsv", ".log",
-  ".properties", ".plist", ".strings", ".tf", ".hcl", ".proto",
-  // Additional languages
-  ".lua", ".r", ".dart", ".ex", ".exs", ".erl", ".hs", ".elm",
-  ".clj", ".cljs", ".coffee", ".asm", ".s"
-];
-
-// Known binary file extensions — skip content sniffing for these
-const __opfs_binaryExtensions = [
-  ".wasm", ".db", ".sqlite", ".sqlite3", ".bin", ".dat", ".exe", ".dll",
-  ".so", ".dylib", ".o", ".obj", ".lib", ".a", ".class", ".pyc", ".pyo",
-  ".zip", ".tar", ".gz", ".tgz", ".bz2", ".xz", ".7z", ".rar",
-  ".pdf", ".doc", ".docx", ".xls", ".xlsx", ".ppt", ".pptx",
-  ".mp3", ".mp4", ".avi", ".mov", ".mkv", ".wav", ".flac", ".ogg", ".aac",
-  ".pb", ".onnx", ".parquet", ".arrow", ".npy", ".npz",
-  ".ttf", ".otf", ".woff", ".woff2"
-];
-
-// Check if file is text-based (quick check, no content sniffing)
-function __opfs_isTextFile(file) {
-  const name = file.name.toLowerCase();
-  if (
-    file.type.startsWith("text/") ||
-    file.type === "application/json" ||
-    file.type === "application/javascript" ||
-    file.type === "application/xml"
-  ) return true;
-  // Non-empty non-text MIME type => treat as binary
-  if (file.type !== "") return false;
-  // No MIME type — fall back to extension matching only.
-  return __opfs_textExtensions.some(ext => name.endsWith(ext));
+/**
+ * Code for a single call against the installed runtime — just the call id,
+ * the operation name and its arguments. The id lets later evals cancel the
+ * call or read its progress.
+ */
+function buildInvokeCode(callId: string, op: RuntimeOp, args: unknown): string {
+  return (
+    "var runtime = window['" + RUNTIME_GLOBAL + "'];" +
+    "if (!runtime || runtime.version !== '" + RUNTIME_VERSION + "') return { " + RUNTIME_MISSING + ": true };" +
+    "return await runtime.start(" + toJsLiteral(callId) + ", " + toJsLiteral(op) + ", " + toJsLiteral(args) + ");"
+  );
 }
 
-// Check if file is an image
-function __opfs_isImageFile(file) {
-  const imageExtensions = [".jpg", ".jpeg", ".png", ".gif", ".webp", ".svg", ".ico", ".bmp", ".avif"];
-  const name = file.name.toLowerCase();
-  return file.type.startsWith("image/") || imageExtensions.some(ext => name.endsWith(ext));
+/** How often the eval transport polls a running call's progress */
+const PROGRESS_POLL_MS = 250;
+
+/**
+ * Forwards cancellation to a call running over the eval transport, and polls
+ * its progress for `onProgress`. Returns a function that stops both.
+ */
+function watchEvalCall(callId: string, options?: OperationOptions): () => void {
+  const devtools = getDevtools();
+  if (!devtools || (!options?.signal && !options?.onProgress)) return () => {};
+
+  const runtimeExpr = "window['" + RUNTIME_GLOBAL + "']";
+  const onAbort = () => {
+    executeEval(devtools, runtimeExpr + " && " + runtimeExpr + ".cancel(" + toJsLiteral(callId) + ")").catch(() => {});
+  };
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+
+  const onProgress = options.onProgress;
+  const timer = onProgress
+    ? setInterval(() => {
+        executeEval(devtools, runtimeExpr + " && " + runtimeExpr + ".getProgress(" + toJsLiteral(callId) + ")")
+          .then(([progress]) => {
+            if (progress) onProgress(progress as OperationProgress);
+          })
+          .catch(() => {});
+      }, PROGRESS_POLL_MS)
+    : undefined;
+
+  return () => {
+    options.signal?.removeEventListener("abort", onAbort);
+    clearInterval(timer);
+  };
 }
 
-// Multi-strategy file type detection: MIME type → extension → content sniffing
-// Returns 'text' | 'binary' | 'image' | 'unknown'
-async function __opfs_detectFileType(file) {
-  // Strategy 1: Image
-  if (__opfs_isImageFile(file)) return 'image';
-
-  // Strategy 2: MIME type clues
-  if (
-    file.type.startsWith('text/') ||
-    file.type === 'application/json' ||
-    file.type === 'application/javascript' ||
-    file.type === 'application/xml'
-  ) return 'text';
-  if (
-    file.type === 'application/octet-stream' ||
-    file.type === 'application/wasm' ||
-    file.type.startsWith('audio/') ||
-    file.type.startsWith('video/') ||
-    file.type === 'application/pdf' ||
-    file.type === 'application/zip' ||
-    (file.type.startsWith('application/vnd.') && file.type !== 'application/vnd.apple.mpegurl')
-  ) return 'binary';
-
-  // Strategy 3: Extension matching
-  const name = file.name.toLowerCase();
-  if (__opfs_textExtensions.some(ext => name.endsWith(ext))) return 'text';
-  if (__opfs_binaryExtensions.some(ext => name.endsWith(ext))) return 'binary';
-
-  // Strategy 4: Content sniffing on first 4096 bytes
-  if (file.size === 0) return 'text';
+function isRuntimeMissing(result: unknown): boolean {
+  return !!result && typeof result === "object" && RUNTIME_MISSING in result;
+}
+
+/**
+ * Invokes an operation over the eval transport, installing the runtime first
+ * if the page doesn't have the current version yet.
+ */
+async function evalInvoke<K extends RuntimeOp>(
+  op: K,
+  args: RuntimeArgs<K>,
+  options?: OperationOptions
+): Promise<RuntimeResult<K>> {
+  if (options?.signal?.aborted) throw abortError();
+
+  const callId = "call_" + Date.now() + "_" + Math.random().toString(36).slice(2);
+  const code = buildInvokeCode(callId, op, args);
+  const stopWatching = watchEvalCall(callId, options);
   try {
-    const sampleSize = Math.min(4096, file.size);
-    const buffer = await file.slice(0, sampleSize).arrayBuffer();
-    const bytes = new Uint8Array(buffer);
-
-    if (bytes.length >= 2) {
-      const b0 = bytes[0], b1 = bytes[1];
-      const b2 = bytes.length > 2 ? bytes[2] : 0;
-      const b3 = bytes.length > 3 ? bytes[3] : 0;
-      // Magic byte signatures for well-known binary formats
-      if (b0 === 0x89 && b1 === 0x50 && b2 === 0x4E && b3 === 0x47) return 'binary'; // PNG
-      if (b0 === 0xFF && b1 === 0xD8) return 'binary'; // JPEG
-      if (b0 === 0x47 && b1 === 0x49 && b2 === 0x46) return 'binary'; // GIF
-      if (b0 === 0x25 && b1 === 0x50 && b2 === 0x44 && b3 === 0x46) return 'binary'; // PDF %PDF
-      if (b0 === 0x50 && b1 === 0x4B) return 'binary'; // ZIP/DOCX/etc PK header
-      if (b0 === 0x7F && b1 === 0x45 && b2 === 0x4C && b3 === 0x46) return 'binary'; // ELF
-      if (b0 === 0x00 && b1 === 0x61 && b2 === 0x73 && b3 === 0x6D) return 'binary'; // WASM \0asm
-      if (b0 === 0x53 && b1 === 0x51 && b2 === 0x4C && b3 === 0x69) return 'binary'; // SQLite
-      if (b0 === 0x1F && b1 === 0x8B) return 'binary'; // GZip
-      if (b0 === 0x42 && b1 === 0x5A && b2 === 0x68) return 'binary'; // BZip2
-      if (b0 === 0xFD && b1 === 0x37 && b2 === 0x7A) return 'binary'; // XZ
-      if (b0 === 0x52 && b1 === 0x49 && b2 === 0x46 && b3 === 0x46) return 'binary'; // RIFF (WAV/AVI/WebP)
-      if (b0 === 0x4F && b1 === 0x67 && b2 === 0x67 && b3 === 0x53) return 'binary'; // OGG
-      if (b0 === 0xCA && b1 === 0xFE && b2 === 0xBA && b3 === 0xBE) return 'binary'; // Java class
-      if (b0 === 0x4D && b1 === 0x5A) return 'binary'; // PE/EXE MZ
-      if (b0 === 0x37 && b1 === 0x7A && b2 === 0xBC && b3 === 0xAF) return 'binary'; // 7-zip
+    const result = await evalInPage<RuntimeResult<K>>(code);
+    if (!isRuntimeMissing(result)) return result;
+
+    await evalInPage<boolean>(buildInstallCode());
+    const retried = await evalInPage<RuntimeResult<K>>(code);
+    if (isRuntimeMissing(retried)) {
+      throw new Error("Could not install the OPFS Explorer runtime in the inspected page.");
     }
+    return retried;
+  } finally {
+    stopWatching();
+  }
+}
 
-    // Byte statistics
-    let nullCount = 0;
-    let highCount = 0;
-    let controlCount = 0; // non-printable control chars (< 0x20, excluding tab/LF/CR)
-    for (let i = 0; i < bytes.length; i++) {
-      const b = bytes[i];
-      if (b === 0x00) nullCount++;
-      else if (b > 0x7E) highCount++;
-      else if (b < 0x20 && b !== 0x09 && b !== 0x0A && b !== 0x0D) controlCount++;
+/**
+ * Runs an operation in the inspected page. Prefers the content-script bridge,
+ * which pushes the result back as soon as it settles; falls back to the
+ * polling eval transport when the content script isn't reachable.
+ */
+async function runInPage<K extends RuntimeOp>(
+  op: K,
+  args: RuntimeArgs<K>,
+  options?: OperationOptions
+): Promise<RuntimeResult<K>> {
+  const bridge = await getBridge();
+  if (bridge) {
+    return bridge.invoke(op, args, options);
+  }
+  return evalInvoke(op, args, options);
+}
+
+/**
+ * Bytes sent per call when writing in chunks. The bridge carries each chunk
+ * in a port message (1 MB of base64); eval() calls stay small, since very
+ * large inline string literals can corrupt or fail silently. Both are
+ * multiples of 3, so every chunk encodes on its own.
+ */
+const BRIDGE_WRITE_CHUNK = 768 * 1024;
+const EVAL_WRITE_CHUNK = 48 * 1024;
+
+/**
+ * Backend for the inspected page: the content-script bridge, or the eval
+ * transport when the bridge isn't available.
+ */
+const inspectedPageBackend: OpfsBackend = {
+  ...createRuntimeBackend(runInPage),
+
+  write: async (path, content, isBinary = false, options) => {
+    if (typeof content !== "string" || isBinary) {
+      // Uploads can be hundreds of MB: they're read from the File a chunk at
+      // a time and streamed into the page
+      const blob = typeof content === "string" ? new Blob([base64ToBytes(content)]) : content;
+      const bridge = await getBridge();
+      const call: RuntimeInvoker = (op, args, callOptions) => bridge ? bridge.invoke(op, args, callOptions) : evalInvoke(op, args, callOptions);
+      await writeInChunks(call, path, blob, bridge ? BRIDGE_WRITE_CHUNK : EVAL_WRITE_CHUNK, options);
+    } else {
+      await runInPage("write", inBucket({ path, content }, options), options);
     }
+  },
+};
 
-    // Null bytes are a strong binary indicator
-    if (nullCount > 0) return 'binary';
-    // High ratio of non-ASCII bytes → likely binary
-    if (highCount / bytes.length > 0.30) return 'binary';
-    // High ratio of control characters → likely binary
-    if (controlCount / bytes.length > 0.10) return 'binary';
-
-    // Content probe: look for common text patterns at the start
-    const decoder = new TextDecoder('utf-8', { fatal: false });
-    const text = decoder.decode(bytes).trimStart();
-    if (
-      text.startsWith('{') || text.startsWith('[') || // JSON
-      text.startsWith('<') || // XML/HTML
-      text.startsWith('#') || text.startsWith('//') || text.startsWith('/*') || // Code comments
-      text.startsWith('--') || text.startsWith(';') || // SQL / INI
-      text.startsWith('---') // YAML front-matter
-    ) return 'text';
-
-    // Entirely printable ASCII with no suspicious bytes
-    if (nullCount === 0 && highCount === 0 && controlCount === 0) return 'text';
-
-    return 'unknown';
-  } catch (e) {
-    return 'unknown';
+/**
+ * Lists the frames of the inspected page whose OPFS can be explored, top
+ * frame first. Frames are discovered through the page's document resources;
+ * browsers without `inspectedWindow.getResources()` only list the top frame.
+ * Outside the inspected page (e.g. the in-memory backend) the list is empty.
+ */
+export async function listFrames(): Promise<InspectedFrame[]> {
+  const devtools = getDevtools();
+  if (!devtools || getBackend() !== inspectedPageBackend) return [];
+
+  const [topURL] = await executeEval(devtools, "location.href", null);
+  // Chrome reports each resource's type ("document", "script", …), though
+  // @types/chrome doesn't declare it
+  const resources = await new Promise<(chrome.devtools.inspectedWindow.Resource & { type?: string })[]>((resolve) => {
+    if (typeof devtools.inspectedWindow.getResources !== "function") {
+      resolve([]);
+      return;
+    }
+    try {
+      devtools.inspectedWindow.getResources(resolve);
+    } catch {
+      resolve([]);
+    }
+  });
+
+  const frames: InspectedFrame[] = [];
+  if (typeof topURL === "string") {
+    frames.push({ url: topURL, origin: frameOrigin(topURL), isTop: true });
   }
+  resources.forEach(({ type, url }) => {
+    if (type !== "document" || !url || frames.some(frame => frame.url === url)) return;
+    frames.push({ url, origin: frameOrigin(url), isTop: false });
+  });
+  return frames;
 }
 
-// Get MIME type
-function __opfs_getMimeType(file) {
-  if (file.type) return file.type;
-  const name = file.name.toLowerCase();
-  const ext = name.split('.').pop();
-  const mimeMap = {
-    jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', gif: 'image/gif',
-    webp: 'image/webp', svg: 'image/svg+xml', ico: 'image/x-icon', bmp: 'image/bmp',
-    avif: 'image/avif', json: 'application/json', js: 'application/javascript',
-    html: 'text/html', css: 'text/css', xml: 'application/xml', md: 'text/markdown',
-    txt: 'text/plain'
-  };
-  return mimeMap[ext || ''] || 'application/octet-stream';
+/**
+ * The origin whose OPFS operations run in: the target frame's inside
+ * DevTools, and this page's own anywhere else.
+ */
+export async function currentOrigin(): Promise<string> {
+  const target = getTargetFrame();
+  const frames = await listFrames();
+  const frame = frames.find(f => (target ? f.url === target : f.isTop));
+  return frame?.origin ?? (target ? frameOrigin(target) : location.origin);
 }
 
-// Removes an entry from a directory, self-healing "ghost" entries that OPFS
-// can occasionally leave behind (e.g. after a create/move operation is
-// interrupted by the page being paused at a debugger breakpoint, or after
-// browser-level storage corruption). A ghost entry shows up when iterating
-// dirHandle.entries()/keys() but throws NotFoundError when removeEntry() is
-// called directly — the directory's index still references it, but the
-// underlying node is gone.
-//
-// The fix is to force the browser to (re)materialize a fresh, valid entry
-// with the exact same name — by calling getFileHandle/getDirectoryHandle
-// with { create: true } — which repairs the directory index, and then retry
-// the removal against that now-valid entry.
-async function __opfs_removeEntryRobust(dirHandle, name) {
-  try {
-    await dirHandle.removeEntry(name, { recursive: true });
-    return;
-  } catch (err) {
-    const isNotFound = err && (err.name === 'NotFoundError' || /not.*found/i.test(err.message || ''));
-    if (!isNotFound) throw err;
-
-    let lastErr = err;
-    for (const kind of ['directory', 'file']) {
-      try {
-        if (kind === 'directory') {
-          await dirHandle.getDirectoryHandle(name, { create: true });
-        } else {
-          await dirHandle.getFileHandle(name, { create: true });
-        }
-        await dirHandle.removeEntry(name, { recursive: true });
-        return; // Repaired and removed successfully
-      } catch (repairErr) {
-        lastErr = repairErr;
-      }
-    }
-    throw lastErr;
+let activeBackend: OpfsBackend | null = null;
+
+/**
+ * The backend `opfsApi` currently operates on. Defaults to the inspected page
+ * inside DevTools, and to an in-memory file system seeded with sample files
+ * anywhere else (e.g. the panel opened directly under `npm run dev`).
+ */
+export function getBackend(): OpfsBackend {
+  if (!activeBackend) {
+    activeBackend = getDevtools() ? inspectedPageBackend : createMemoryBackend(DEMO_SEED);
   }
+  return activeBackend;
+}
+
+/**
+ * Replace the backend `opfsApi` operates on. Passing null restores the
+ * default on next use.
+ */
+export function setBackend(backend: OpfsBackend | null): void {
+  activeBackend = backend;
+}
+
+const activity = createActivityLog();
+
+/**
+ * Every `opfsApi` call with its paths, duration, payload size and outcome —
+ * the most recent 500 of them.
+ */
+export const activityLog: Pick<ActivityLog, "getSnapshot" | "subscribe" | "clear"> = {
+  getSnapshot: activity.getSnapshot,
+  subscribe: activity.subscribe,
+  clear: activity.clear,
+};
+
+// Bytes a write sends: UTF-8 text, the decoded size of base64 content, or a Blob's size
+function writeSize(content: string | Blob, isBinary?: boolean): number {
+  if (typeof content !== "string") return content.size;
+  if (!isBinary) return new Blob([content]).size;
+  const padding = content.endsWith("==") ? 2 : content.endsWith("=") ? 1 : 0;
+  return Math.max(0, Math.floor(content.length * 3 / 4) - padding);
 }
 
-// Polyfill for recursive copy (used when move() is not supported)
-async function __opfs_copyEntry(sourceHandle, destParentHandle, newName) {
-  if (sourceHandle.kind === 'file') {
-    const destFile = await destParentHandle.getFileHandle(newName || sourceHandle.name, { create: true });
-    const srcFile = await sourceHandle.getFile();
-    const writable = await destFile.createWritable();
-    await writable.write(await srcFile.arrayBuffer());
-    await writable.close();
-  } else if (sourceHandle.kind === 'directory') {
-    const destDir = await destParentHandle.getDirectoryHandle(newName || sourceHandle.name, { create: true });
-    for await (const [name, handle] of sourceHandle.entries()) {
-      await __opfs_copyEntry(handle, destDir, name);
+// What a call returned, for the activity log, and how many bytes it brought back
+function describeResult(operation: string, result: unknown): { result?: string; payloadSize?: number } {
+  switch (operation) {
+    case "list":
+    case "listBuckets":
+      return { result: `${(result as unknown[]).length} entries` };
+    case "walk": {
+      const { entries, truncated } = result as WalkResult;
+      return { result: `${entries.length} entries${truncated ? " (truncated)" : ""}` };
+    }
+    case "readWithMeta": {
+      const { detectedType, size } = result as FileReadResult;
+      return { result: detectedType, payloadSize: size };
+    }
+    case "readRange":
+      return { payloadSize: (result as FileRange).length };
+    case "batch": {
+      const results = result as BatchOperationResult[];
+      return { result: `${results.filter(r => r.ok).length} of ${results.length} succeeded` };
+    }
+    case "downloadZip": {
+      const { entries, size } = result as ZipResult;
+      return { result: `${entries} entries`, payloadSize: size };
+    }
+    case "exists":
+      return { result: result ? "exists" : "missing" };
+    case "queryLocks": {
+      const { held, pending } = result as WebLocksSnapshot;
+      return { result: `${held.length} held, ${pending.length} pending` };
     }
+    case "probeLocks":
+      return { result: `${(result as string[]).length} locked` };
+    case "hashFiles":
+      return { result: `${Object.keys(result as Record<string, string>).length} hashed` };
+    case "getStorageEstimate":
+      return { result: `${(result as StorageEstimate).usage} bytes used` };
+    default:
+      return {};
   }
 }
-`;
 
 /**
- * Stages base64-encoded binary data into the inspected page's sessionStorage
- * using 64 KB chunks so that no single eval() call embeds an unbounded
- * string literal. Returns the base key and the number of chunks stored.
- *
- * This avoids data corruption that can occur when very large base64 payloads
- * are inlined directly into an eval'd code string.
+ * Runs a backend call, converting whatever it throws into an OpfsError that
+ * records the operation and (first) path, and logs it to `activityLog`.
  */
-async function stageBinaryData(
-  base64: string
-): Promise<{ key: string; chunks: number }> {
-  const key =
-    "__opfs_bin_" + Date.now() + "_" + Math.random().toString(36).slice(2);
-  const CHUNK = 65536; // 64 KB of base64 ≈ 48 KB binary
-  const totalChunks = Math.ceil(base64.length / CHUNK) || 1;
-  let staged = 0;
-
+async function withOpfsErrors<T>(
+  operation: string,
+  paths: string[],
+  options: OperationOptions | undefined,
+  run: () => Promise<T>,
+  payloadSize?: number
+): Promise<T> {
+  const startedAt = Date.now();
+  const entry = { operation, paths, bucket: options?.bucket, startedAt, payloadSize };
   try {
-    for (let i = 0; i < totalChunks; i++) {
-      const chunk = base64.slice(i * CHUNK, (i + 1) * CHUNK);
-      const safeChunk = escapeString(chunk);
-      // Each individual eval only contains one ~64 KB chunk
-      await evalInPage<void>(
-        `sessionStorage.setItem('${key}_${i}', '${safeChunk}'); undefined`
-      );
-      staged++;
-    }
+    const result = await run();
+    const described = describeResult(operation, result);
+    activity.record({
+      ...entry,
+      duration: Date.now() - startedAt,
+      status: "ok",
+      result: described.result,
+      payloadSize: payloadSize ?? described.payloadSize,
+    });
+    return result;
   } catch (err) {
-    // Clean up any chunks that were already staged so we don't leave orphaned
-    // data in the inspected page's sessionStorage.
-    for (let i = 0; i < staged; i++) {
-      await evalInPage<void>(
-        `sessionStorage.removeItem('${key}_${i}'); undefined`
-      ).catch(() => {});
-    }
-    throw err;
+    const error = toOpfsError(err, operation, paths[0]);
+    activity.record({
+      ...entry,
+      duration: Date.now() - startedAt,
+      status: error.code === "AbortError" ? "cancelled" : "error",
+      error: { code: error.code, message: error.message },
+    });
+    throw error;
   }
+}
+
+const mutations = createMutationScheduler();
 
-  return { key, chunks: totalChunks };
+/**
+ * Mutations issued through `opfsApi` that are queued behind, or running
+ * alongside, others — for showing pending work in the UI.
+ */
+export const mutationQueue: Pick<MutationScheduler, "getSnapshot" | "subscribe"> = {
+  getSnapshot: mutations.getSnapshot,
+  subscribe: mutations.subscribe,
+};
+
+/**
+ * Runs a mutating backend call through the scheduler, so it never overlaps
+ * another mutation of the same entry, its ancestors or its descendants.
+ */
+function mutate<T>(
+  operation: string,
+  paths: string[],
+  options: OperationOptions | undefined,
+  run: () => Promise<T>,
+  payloadSize?: number
+): Promise<T> {
+  return withOpfsErrors(operation, paths, options, () =>
+    mutations.schedule(operation, paths, run, options?.signal, options?.bucket),
+    payloadSize
+  );
+}
+
+/** How one operation of `opfsApi.batch` went */
+export interface BatchResult {
+  operation: BatchOperation;
+  ok: boolean;
+  /** Not attempted, because an earlier operation failed with `stopOnError` set */
+  skipped?: boolean;
+  error?: OpfsError;
+}
+
+/** The paths a batch operation touches (source first), for the mutation scheduler */
+function batchPaths(operation: BatchOperation): string[] {
+  switch (operation.op) {
+    case "move":
+      return [operation.oldPath, operation.newPath];
+    case "copy":
+      return [operation.src, operation.dest];
+    default:
+      return [operation.path];
+  }
 }
 
+function toBatchResult(operation: BatchOperation, result: BatchOperationResult): BatchResult {
+  if (!result.error) return { operation, ok: result.ok, skipped: result.skipped };
+  return { operation, ok: false, error: toOpfsError(result.error, operation.op, batchPaths(operation)[0]) };
+}
+
+/** The result of `opfsApi.walk`, nested or flat */
+type WalkResultOf<Nested extends boolean> = WalkResult<Nested extends true ? WalkNode : WalkEntry>;
+
+/**
+ * Turns a flat walk (depth-first, with depths) into a tree.
+ */
+function nestWalkEntries(entries: WalkEntry[]): WalkNode[] {
+  const roots: WalkNode[] = [];
+  // The children of the last directory seen at each depth
+  const levels: WalkNode[][] = [roots];
+  for (const { depth, ...entry } of entries) {
+    if (entry.kind === "directory") {
+      const children: WalkNode[] = [];
+      levels[depth].push({ ...entry, children });
+      levels[depth + 1] = children;
+    } else {
+      levels[depth].push(entry);
+    }
+  }
+  return roots;
+}
+
+/**
+ * OPFS operations on the active backend. Every operation rejects with an
+ * OpfsError, and accepts an AbortSignal, a progress callback and the storage
+ * bucket to work in. Mutations (write, rename, move, copy, create, delete,
+ * batch) on overlapping paths of the same bucket run one at a time, in the
+ * order they were issued.
+ */
 export const opfsApi = {
   /**
    * List files and directories at the given path
    */
-  list: async (path: string): Promise<FileEntry[]> => {
-    const safePath = escapeString(path);
-    const code = `
-      ${OPFS_HELPERS}
-
-      if (!isSecureContext) throw new Error("OPFS requires a Secure Context (HTTPS or localhost).");
-      if (!navigator.storage?.getDirectory) throw new Error("OPFS API not supported in this browser.");
-
-      const dirHandle = await __opfs_resolvePath("${safePath}");
-      const files = [];
-      for await (const [name, handle] of dirHandle.entries()) {
-        const entry = {
-          name: name,
-          kind: handle.kind,
-          path: "${safePath}" ? "${safePath}/" + name : name
-        };
-        if (handle.kind === "file") {
-          try {
-            const file = await handle.getFile();
-            entry.size = file.size;
-            entry.lastModified = file.lastModified;
-            if (file.type) entry.mimeType = file.type;
-          } catch (e) {}
-        }
-        files.push(entry);
-      }
-      return files.sort((a, b) => {
-        if (a.kind === b.kind) return a.name.localeCompare(b.name);
-        return a.kind === "directory" ? -1 : 1;
-      });
-    `;
-    return evalInPage<FileEntry[]>(code);
-  },
+  list: (path: string, options?: OperationOptions): Promise<FileEntry[]> =>
+    withOpfsErrors("list", [path], options, () => getBackend().list(path, options)),
 
   /**
-   * Read file content as text
+   * List everything below a directory in a single round trip — depth-first,
+   * each directory's entries in `list` order. Flat results carry each entry's
+   * depth; with `nested` they come back as a tree, where directories at
+   * `maxDepth` have no children listed. Progress is reported in entries.
    */
-  read: async (path: string): Promise<string> => {
-    const safePath = escapeString(path);
-    const code = `
-      ${OPFS_HELPERS}
-
-      if (!isSecureContext) throw new Error("OPFS requires a Secure Context (HTTPS or localhost).");
-      if (!navigator.storage?.getDirectory) throw new Error("OPFS API not supported in this browser.");
-
-      const parts = "${safePath}".split("/");
-      const fileName = parts.pop();
-      const dirPath = parts.join("/");
-
-      const dirHandle = await __opfs_resolvePath(dirPath);
-      const fileHandle = await dirHandle.getFileHandle(fileName);
-      const file = await fileHandle.getFile();
-
-      if (file.size > 1024 * 1024) {
-        return "[BINARY_OR_LARGE] File is too large to preview (" + (file.size / 1024 / 1024).toFixed(2) + " MB). Please download to view.";
-      }
-
-      if (__opfs_isTextFile(file)) {
-        return await file.text();
-      } else {
-        return "[BINARY_OR_LARGE] Type: " + file.type + ", Size: " + file.size + " bytes.";
-      }
-    `;
-    return evalInPage<string>(code);
+  walk: async <Nested extends boolean = false>(
+    path: string,
+    options?: WalkOptions & { nested?: Nested } & OperationOptions
+  ): Promise<WalkResultOf<Nested>> => {
+    const result = await withOpfsErrors("walk", [path], options, () => getBackend().walk(path, options));
+    if (!options?.nested) return result as WalkResultOf<Nested>;
+    return { entries: nestWalkEntries(result.entries), truncated: result.truncated } as WalkResultOf<Nested>;
   },
 
   /**
    * Read file with metadata (supports images as base64, text up to 10 MB,
    * content-sniffing for unknown extensions, and forceText override).
    */
-  readWithMeta: async (path: string, options?: { forceText?: boolean }): Promise<FileReadResult> => {
-    const safePath = escapeString(path);
-    const forceTextLiteral = options?.forceText ? 'true' : 'false';
-    const code = `
-      ${OPFS_HELPERS}
-
-      if (!isSecureContext) throw new Error("OPFS requires a Secure Context (HTTPS or localhost).");
-      if (!navigator.storage?.getDirectory) throw new Error("OPFS API not supported in this browser.");
-
-      const parts = "${safePath}".split("/");
-      const fileName = parts.pop();
-      const dirPath = parts.join("/");
-
-      const dirHandle = await __opfs_resolvePath(dirPath);
-      const fileHandle = await dirHandle.getFileHandle(fileName);
-      const file = await fileHandle.getFile();
-      const mimeType = __opfs_getMimeType(file);
-
-      // When forceText is true (user clicked "Open as Text"), skip detection
-      const forceText = ${forceTextLiteral};
-      const detectedType = forceText ? 'text' : await __opfs_detectFileType(file);
-
-      // Images — return as base64 data URL (up to 5 MB)
-      if (detectedType === 'image') {
-        if (file.size > 5 * 1024 * 1024) {
-          return {
-            content: "[TOO_LARGE] Image is too large to preview (" + (file.size / 1024 / 1024).toFixed(2) + " MB)",
-            mimeType: mimeType,
-            size: file.size,
-            isBase64: false,
-            detectedType: 'image',
-            isLargeText: false
-          };
-        }
-        const arrayBuffer = await file.arrayBuffer();
-        // Build the binary string in 8 KB chunks to avoid call-stack overflow
-        // that occurs when using Array.reduce + String.fromCharCode on large buffers.
-        const bytes = new Uint8Array(arrayBuffer);
-        let binary = '';
-        const CHUNK = 8192;
-        for (let i = 0; i < bytes.length; i += CHUNK) {
-          binary += String.fromCharCode.apply(null, bytes.subarray(i, i + CHUNK));
-        }
-        const base64 = btoa(binary);
-        return {
-          content: "data:" + mimeType + ";base64," + base64,
-          mimeType: mimeType,
-          size: file.size,
-          isBase64: true,
-          detectedType: 'image',
-          isLargeText: false
-        };
-      }
-
-      // Text files — allow up to 10 MB; files between 1–10 MB are flagged as large
-      if (detectedType === 'text') {
-        const TEXT_MAX = 10 * 1024 * 1024; // 10 MB hard cap
-        const LARGE_THRESHOLD = 1024 * 1024; // 1 MB
-        if (file.size > TEXT_MAX) {
-          return {
-            content: "[TOO_LARGE] File is too large to preview (" + (file.size / 1024 / 1024).toFixed(2) + " MB). Download to view.",
-            mimeType: mimeType,
-            size: file.size,
-            isBase64: false,
-            detectedType: 'text',
-            isLargeText: false
-          };
-        }
-        const isLargeText = file.size > LARGE_THRESHOLD;
-        return {
-          content: await file.text(),
-          mimeType: mimeType,
-          size: file.size,
-          isBase64: false,
-          detectedType: 'text',
-          isLargeText: isLargeText
-        };
-      }
-
-      // Unknown type — content sniffing was inconclusive; let the user decide
-      if (detectedType === 'unknown') {
-        return {
-          content: "[UNKNOWN_TYPE] Cannot determine whether this file is text or binary. Use \\"Open as Text\\" to force text editing, or download to inspect.",
-          mimeType: mimeType,
-          size: file.size,
-          isBase64: false,
-          detectedType: 'unknown',
-          isLargeText: false
-        };
-      }
-
-      // Binary files
-      return {
-        content: "[BINARY] Type: " + mimeType + ", Size: " + file.size + " bytes",
-        mimeType: mimeType,
-        size: file.size,
-        isBase64: false,
-        detectedType: 'binary',
-        isLargeText: false
-      };
-    `;
-    return evalInPage<FileReadResult>(code);
-  },
+  readWithMeta: (path: string, options?: { forceText?: boolean } & OperationOptions): Promise<FileReadResult> =>
+    withOpfsErrors("readWithMeta", [path], options, () => getBackend().readWithMeta(path, options)),
 
   /**
-   * Write content to a file
+   * Read `length` bytes of a file starting at `offset` (up to 16 MB per
+   * call), for paging through files too large for `readWithMeta`.
    */
-  write: async (
-    path: string,
-    content: string,
-    isBinary: boolean = false
-  ): Promise<void> => {
-    const safePath = escapeString(path);
-
-    if (isBinary) {
-      // Stage the base64 payload into the inspected page's sessionStorage in
-      // 64 KB chunks so that no single eval() call embeds an unbounded string
-      // literal — large inline base64 strings can corrupt or fail silently.
-      const { key, chunks } = await stageBinaryData(content);
-
-      const code = `
-        ${OPFS_HELPERS}
-
-        if (!isSecureContext) throw new Error("OPFS requires a Secure Context (HTTPS or localhost).");
-        if (!navigator.storage?.getDirectory) throw new Error("OPFS API not supported in this browser.");
-
-        const parts = "${safePath}".split("/");
-        const fileName = parts.pop();
-        const dirPath = parts.join("/");
-
-        const dirHandle = await __opfs_resolvePath(dirPath);
-        const fileHandle = await dirHandle.getFileHandle(fileName, { create: true });
-        const writable = await fileHandle.createWritable();
-
-        // Reassemble chunks from sessionStorage
-        let base64 = '';
-        for (let i = 0; i < ${chunks}; i++) {
-          base64 += sessionStorage.getItem('${key}_' + i) || '';
-        }
-        // Clean up staged chunks
-        for (let i = 0; i < ${chunks}; i++) {
-          sessionStorage.removeItem('${key}_' + i);
-        }
+  readRange: (path: string, offset: number, length: number, options?: OperationOptions): Promise<FileRange> =>
+    withOpfsErrors("readRange", [path], options, () => getBackend().readRange(path, offset, length, options)),
 
-        const binaryString = atob(base64);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
-        }
-        await writable.write(bytes);
-        await writable.close();
-        return true;
-      `;
-      await evalInPage<boolean>(code);
-    } else {
-      const safeContent = escapeString(content);
-      const code = `
-        ${OPFS_HELPERS}
-
-        if (!isSecureContext) throw new Error("OPFS requires a Secure Context (HTTPS or localhost).");
-        if (!navigator.storage?.getDirectory) throw new Error("OPFS API not supported in this browser.");
-
-        const parts = "${safePath}".split("/");
-        const fileName = parts.pop();
-        const dirPath = parts.join("/");
-
-        const dirHandle = await __opfs_resolvePath(dirPath);
-        const fileHandle = await dirHandle.getFileHandle(fileName, { create: true });
-        const writable = await fileHandle.createWritable();
-        await writable.write("${safeContent}");
-        await writable.close();
-        return true;
-      `;
-      await evalInPage<boolean>(code);
-    }
-  },
+  /**
+   * Write content to a file: text, base64-encoded bytes with `isBinary`, or
+   * a Blob such as an uploaded File, which is streamed in without being read
+   * into memory whole. Progress is reported in bytes; a cancelled write
+   * leaves the file unchanged.
+   */
+  write: (path: string, content: string | Blob, isBinary: boolean = false, options?: OperationOptions): Promise<void> =>
+    mutate("write", [path], options, () => getBackend().write(path, content, isBinary, options),
+      writeSize(content, isBinary)),
 
   /**
    * Rename a file or directory
    */
-  rename: async (path: string, newName: string): Promise<void> => {
-    const safePath = escapeString(path);
-    const safeNewName = escapeString(newName);
-    const code = `
-      ${OPFS_HELPERS}
-
-      if (!isSecureContext) throw new Error("OPFS requires a Secure Context (HTTPS or localhost).");
-      if (!navigator.storage?.getDirectory) throw new Error("OPFS API not supported in this browser.");
-
-      const parts = "${safePath}".split("/");
-      const oldName = parts.pop();
-      const dirPath = parts.join("/");
-
-      const dirHandle = await __opfs_resolvePath(dirPath);
-
-      let handle;
-      try {
-        handle = await dirHandle.getFileHandle(oldName);
-      } catch (e) {
-        try {
-          handle = await dirHandle.getDirectoryHandle(oldName);
-        } catch (e2) {
-          // The entry shows up in the parent's listing but can't be resolved
-          // as a file or directory — a corrupted/orphaned "ghost" entry.
-          // Renaming it isn't meaningful (there's no real content to move),
-          // but we can still repair the directory index so it can be deleted.
-          throw new Error("This item appears to be corrupted (a known OPFS storage issue) and can't be renamed. Try deleting it instead.");
-        }
-      }
-
-      if ("move" in handle) {
-        await handle.move("${safeNewName}");
-      } else {
-        // Polyfill for browsers that don't support move() (e.g. Firefox, Safari)
-        await __opfs_copyEntry(handle, dirHandle, "${safeNewName}");
-        await __opfs_removeEntryRobust(dirHandle, oldName);
-      }
-      return true;
-    `;
-    await evalInPage<boolean>(code);
+  rename: (path: string, newName: string, options?: OperationOptions): Promise<void> => {
+    const parent = path.split("/").slice(0, -1).join("/");
+    const newPath = parent ? parent + "/" + newName : newName;
+    return mutate("rename", [path, newPath], options, () => getBackend().rename(path, newName, options));
   },
 
   /**
    * Move a file or directory to a new location
    */
-  move: async (oldPath: string, newPath: string): Promise<void> => {
-    const safeOldPath = escapeString(oldPath);
-    const safeNewPath = escapeString(newPath);
-    const code = `
-      ${OPFS_HELPERS}
-
-      if (!isSecureContext) throw new Error("OPFS requires a Secure Context (HTTPS or localhost).");
-      if (!navigator.storage?.getDirectory) throw new Error("OPFS API not supported in this browser.");
-
-      // Resolve source
-      const oldParts = "${safeOldPath}".split("/");
-      const oldName = oldParts.pop();
-      const oldDirPath = oldParts.join("/");
-      const oldDirHandle = await __opfs_resolvePath(oldDirPath);
-
-      let handle;
-      try {
-        handle = await oldDirHandle.getFileHandle(oldName);
-      } catch (e) {
-        handle = await oldDirHandle.getDirectoryHandle(oldName);
-      }
+  move: (oldPath: string, newPath: string, options?: OperationOptions): Promise<void> =>
+    mutate("move", [oldPath, newPath], options, () => getBackend().move(oldPath, newPath, options)),
 
-      // Resolve destination
-      const newParts = "${safeNewPath}".split("/");
-      const newName = newParts.pop();
-      const newDirPath = newParts.join("/");
-      const newDirHandle = await __opfs_resolvePath(newDirPath);
-
-      if ("move" in handle) {
-        await handle.move(newDirHandle, newName);
-      } else {
-        // Polyfill for browsers that don't support move() (e.g. Firefox, Safari)
-        await __opfs_copyEntry(handle, newDirHandle, newName);
-        await __opfs_removeEntryRobust(oldDirHandle, oldName);
-      }
-      return true;
-    `;
-    await evalInPage<boolean>(code);
-  },
+  /**
+   * Copy a file, or a folder with everything in it, to `dest` — which must not
+   * exist yet. Progress is reported in entries; a failed or cancelled copy
+   * removes the partial copy.
+   */
+  copy: (src: string, dest: string, options?: OperationOptions): Promise<void> =>
+    mutate("copy", [src, dest], options, () => getBackend().copy(src, dest, options)),
 
   /**
    * Create a new file or directory
    */
-  create: async (path: string, kind: "file" | "directory"): Promise<void> => {
-    const safePath = escapeString(path);
-    const code = `
-      ${OPFS_HELPERS}
-
-      if (!isSecureContext) throw new Error("OPFS requires a Secure Context (HTTPS or localhost).");
-      if (!navigator.storage?.getDirectory) throw new Error("OPFS API not supported in this browser.");
-
-      const parts = "${safePath}".split("/");
-      const name = parts.pop();
-      const dirPath = parts.join("/");
-
-      const dirHandle = await __opfs_resolvePath(dirPath);
-
-      ${
-        kind === "directory"
-          ? `
-        await dirHandle.getDirectoryHandle(name, { create: true });
-      `
-          : `
-        await dirHandle.getFileHandle(name, { create: true });
-      `
-      }
-      return true;
-    `;
-    await evalInPage<boolean>(code);
-  },
+  create: (path: string, kind: "file" | "directory", options?: OperationOptions): Promise<void> =>
+    mutate("create", [path], options, () => getBackend().create(path, kind, options)),
+
+  /**
+   * Delete a file or directory. Directories are removed entry by entry, with
+   * progress in entries; cancelling stops part-way, keeping what's left.
+   */
+  delete: (path: string, options?: OperationOptions): Promise<void> =>
+    mutate("delete", [path], options, () => getBackend().delete(path, options)),
 
   /**
-   * Delete a file or directory
+   * Run many create, delete, move, copy, write and download operations in a single
+   * page-side call, one after another, instead of a round trip each. Resolves
+   * with a result per operation; failures don't stop the rest unless
+   * `stopOnError` is set. Progress is reported in operations done, and
+   * cancelling rejects with an AbortError, leaving completed operations done.
+   * Large binary writes are better sent through `write`, which streams them.
    */
-  delete: async (path: string): Promise<void> => {
-    const safePath = escapeString(path);
-    const code = `
-      ${OPFS_HELPERS}
-
-      if (!isSecureContext) throw new Error("OPFS requires a Secure Context (HTTPS or localhost).");
-      if (!navigator.storage?.getDirectory) throw new Error("OPFS API not supported in this browser.");
-
-      const parts = "${safePath}".split("/");
-      const name = parts.pop();
-      const dirPath = parts.join("/");
-
-      const dirHandle = await __opfs_resolvePath(dirPath);
-      await __opfs_removeEntryRobust(dirHandle, name);
-      return true;
-    `;
-    await evalInPage<boolean>(code);
+  batch: async (
+    operations: BatchOperation[],
+    options?: { stopOnError?: boolean } & OperationOptions
+  ): Promise<BatchResult[]> => {
+    if (operations.length === 0) return [];
+    const results = await mutate("batch", operations.flatMap(batchPaths), options, () =>
+      getBackend().batch(operations, options),
+      operations.reduce((total, op) => total + (op.op === "write" ? writeSize(op.content, op.isBinary) : 0), 0) || undefined
+    );
+    return results.map((result, index) => toBatchResult(operations[index], result));
   },
 
   /**
    * Download a file from OPFS
    */
-  download: async (path: string): Promise<void> => {
-    const safePath = escapeString(path);
-    const code = `
-      ${OPFS_HELPERS}
-
-      if (!isSecureContext) throw new Error("OPFS requires a Secure Context (HTTPS or localhost).");
-      if (!navigator.storage?.getDirectory) throw new Error("OPFS API not supported in this browser.");
-
-      const parts = "${safePath}".split("/");
-      const fileName = parts.pop();
-      const dirPath = parts.join("/");
-
-      const dirHandle = await __opfs_resolvePath(dirPath);
-      const fileHandle = await dirHandle.getFileHandle(fileName);
-      const file = await fileHandle.getFile();
-
-      const url = URL.createObjectURL(file);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = file.name;
-      a.style.display = "none";
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      // Delay revocation so the browser has time to read the object URL and
-      // initiate the download. Revoking synchronously after click() causes the
-      // browser to see a revoked (empty) URL, resulting in a 0-byte or
-      // corrupted file — especially noticeable with binary files like Arrow.
-      setTimeout(function() { URL.revokeObjectURL(url); }, 30000);
-      return true;
-    `;
-    await evalInPage<boolean>(code);
-  },
+  download: (path: string, options?: OperationOptions): Promise<void> =>
+    withOpfsErrors("download", [path], options, () => getBackend().download(path, options)),
+
+  /**
+   * Download files and folders as a single ZIP archive, built in the page.
+   * Paths in the archive are relative to the folder the entries share, and
+   * "" stands for the whole root. Files are deflated where that makes them
+   * smaller; progress is reported in bytes read.
+   */
+  downloadZip: (paths: string[], options: ZipOptions & OperationOptions): Promise<ZipResult> =>
+    withOpfsErrors("downloadZip", paths, options, () => getBackend().downloadZip(paths, options)),
 
   /**
    * Get storage estimate
    */
-  getStorageEstimate: async (): Promise<StorageEstimate> => {
-    const code = `
-      if (!isSecureContext) throw new Error("OPFS requires a Secure Context (HTTPS or localhost).");
-      if (!navigator.storage?.estimate) throw new Error("Storage API not supported.");
-
-      const estimate = await navigator.storage.estimate();
-      return {
-        usage: estimate.usage || 0,
-        quota: estimate.quota || 0
-      };
-    `;
-    return evalInPage<StorageEstimate>(code);
-  },
+  getStorageEstimate: (options?: OperationOptions): Promise<StorageEstimate> =>
+    withOpfsErrors("getStorageEstimate", [], options, () => getBackend().getStorageEstimate(options)),
 
   /**
    * Check if a path exists
    */
-  exists: async (path: string): Promise<boolean> => {
-    const safePath = escapeString(path);
-    const code = `
-      ${OPFS_HELPERS}
-
-      if (!isSecureContext) return false;
-      if (!navigator.storage?.getDirectory) return false;
-
-      if (!("${safePath}")) return true; // Root always exists
-
-      const parts = "${safePath}".split("/");
-      const name = parts.pop();
-      const dirPath = parts.join("/");
-
-      try {
-        const dirHandle = await __opfs_resolvePath(dirPath);
-        if (!name) return true;
-
-        try {
-          await dirHandle.getFileHandle(name);
-          return true;
-        } catch (e) {
-          try {
-            await dirHandle.getDirectoryHandle(name);
-            return true;
-          } catch (e2) {
-            return false;
-          }
-        }
-      } catch (e) {
-        return false;
-      }
-    `;
-    return evalInPage<boolean>(code);
-  },
+  exists: (path: string, options?: OperationOptions): Promise<boolean> =>
+    withOpfsErrors("exists", [path], options, () => getBackend().exists(path, options)),
+
+  /**
+   * The files among `paths`, or anywhere below them for directories, that the
+   * page holds a sync access handle on (e.g. an open SQLite database). Writing,
+   * renaming, moving or deleting them fails with a NoModificationAllowedError,
+   * so check first to refuse up front.
+   */
+  probeLocks: (paths: string[], options?: OperationOptions): Promise<string[]> =>
+    withOpfsErrors("probeLocks", paths, options, () => getBackend().probeLocks(paths, options)),
+
+  /**
+   * SHA-256 of each file's contents, as hex, keyed by path — computed in the
+   * page, so the contents never cross over to the panel. Paths that aren't
+   * files are left out.
+   */
+  hashFiles: (paths: string[], options?: OperationOptions): Promise<Record<string, string>> =>
+    withOpfsErrors("hashFiles", paths, options, () => getBackend().hashFiles(paths, options)),
+
+  /**
+   * List the origin's named storage buckets with their durability, persisted
+   * state, usage, quota and expiry. Empty where the Storage Buckets API isn't
+   * available; the default bucket is never listed.
+   */
+  listBuckets: (options?: OperationOptions): Promise<StorageBucketInfo[]> =>
+    withOpfsErrors("listBuckets", [], options, () => getBackend().listBuckets(options)),
+
+  /**
+   * Web Locks (`navigator.locks.query()`) held and waited for by the page and
+   * its workers — apps coordinating OPFS access, like sqlite-wasm's VFS,
+   * often hold one per open file.
+   */
+  queryLocks: (options?: OperationOptions): Promise<WebLocksSnapshot> =>
+    withOpfsErrors("queryLocks", [], options, () => getBackend().queryLocks(options)),
 };
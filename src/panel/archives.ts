@@ -0,0 +1,179 @@
+import { namedError } from "./errors";
+
+/**
+ * Reads ZIP and tar(.gz) archives picked or dropped in the panel into
+ * their entries, for unpacking into OPFS. File data stays a slice of the
+ * archive (or of its decompressed tar) until it's uploaded.
+ */
+
+/** A file or folder inside an archive */
+export interface ArchiveEntry {
+  /** Path inside the archive, without leading or trailing slashes */
+  path: string;
+  kind: "file" | "directory";
+  /** The file's contents, named after the last path segment */
+  file?: File;
+}
+
+const ARCHIVE_EXTENSIONS = [".zip", ".tar", ".tar.gz", ".tgz"];
+
+/** Value for a file input's `accept` that picks the supported archives */
+export const ARCHIVE_ACCEPT = ARCHIVE_EXTENSIONS.join(",");
+
+/** Whether a file looks like an archive this module can read, by its name */
+export function isArchive(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
+/**
+ * The entries of a ZIP, tar or gzipped tar archive, in archive order. The
+ * format is told by the archive's first bytes. Paths are normalized to
+ * forward slashes; entries that would land outside the target folder ("..",
+ * absolute paths) and macOS resource forks (`__MACOSX/`) are left out.
+ */
+export async function readArchive(archive: Blob): Promise<ArchiveEntry[]> {
+  const head = new Uint8Array(await archive.slice(0, 2).arrayBuffer());
+  if (head[0] === 0x50 && head[1] === 0x4b) return readZip(archive);
+  if (head[0] === 0x1f && head[1] === 0x8b) {
+    const tar = await new Response(archive.stream().pipeThrough(new DecompressionStream("gzip"))).blob();
+    if (await isTar(tar)) return readTar(tar);
+    throw namedError("NotSupportedError", "Only gzipped tar archives can be imported.");
+  }
+  if (await isTar(archive)) return readTar(archive);
+  throw namedError("NotSupportedError", "Not a ZIP or tar archive.");
+}
+
+// ustar, GNU and pax archives all carry the "ustar" magic in their first header
+async function isTar(archive: Blob): Promise<boolean> {
+  const header = new Uint8Array(await archive.slice(0, 512).arrayBuffer());
+  return header.length === 512 && field(header, 257, 5) === "ustar";
+}
+
+// Drops leading slashes and "." segments; null for paths escaping the target
+function safePath(name: string): string | null {
+  const segments = name.replace(/\\/g, "/").split("/").filter(segment => segment && segment !== ".");
+  if (segments.length === 0 || segments.includes("..") || segments[0] === "__MACOSX") return null;
+  return segments.join("/");
+}
+
+// A NUL-terminated tar header field, as UTF-8
+function field(bytes: Uint8Array, offset: number, length: number): string {
+  const end = bytes.subarray(offset, offset + length).indexOf(0);
+  return new TextDecoder().decode(bytes.subarray(offset, end === -1 ? offset + length : offset + end));
+}
+
+function toEntry(name: string, directory: boolean, data: Blob | null, lastModified: number): ArchiveEntry | null {
+  const path = safePath(name);
+  if (!path) return null;
+  if (directory || !data) return { path, kind: "directory" };
+  return { path, kind: "file", file: new File([data], path.split("/").pop()!, { lastModified }) };
+}
+
+// MS-DOS date and time fields, as ZIP stores them
+function fromDosDateTime(date: number, time: number): number {
+  return new Date(
+    1980 + (date >> 9), ((date >> 5) & 0x0f) - 1, date & 0x1f,
+    time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2
+  ).getTime();
+}
+
+async function readZip(archive: Blob): Promise<ArchiveEntry[]> {
+  // The end of central directory record is in the last 64 KB (plus its own 22 bytes)
+  const tailStart = Math.max(0, archive.size - 65557);
+  const tail = new Uint8Array(await archive.slice(tailStart).arrayBuffer());
+  const tailView = new DataView(tail.buffer);
+  let end = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw namedError("NotSupportedError", "Not a ZIP archive, or it's truncated.");
+  const count = tailView.getUint16(end + 10, true);
+  const centralSize = tailView.getUint32(end + 12, true);
+  const centralOffset = tailView.getUint32(end + 16, true);
+  if (count === 0xffff || centralOffset === 0xffffffff) {
+    throw namedError("NotSupportedError", "ZIP64 archives aren't supported.");
+  }
+
+  const central = new Uint8Array(await archive.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+  const view = new DataView(central.buffer);
+  const decoder = new TextDecoder();
+  const entries: ArchiveEntry[] = [];
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pos, true) !== 0x02014b50) throw namedError("NotSupportedError", "The ZIP archive's directory is corrupted.");
+    const flags = view.getUint16(pos + 8, true);
+    const method = view.getUint16(pos + 10, true);
+    const lastModified = fromDosDateTime(view.getUint16(pos + 14, true), view.getUint16(pos + 12, true));
+    const compressedSize = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(central.subarray(pos + 46, pos + 46 + nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/") || name.endsWith("\\")) {
+      const entry = toEntry(name, true, null, lastModified);
+      if (entry) entries.push(entry);
+      continue;
+    }
+    if (flags & 0x1) throw namedError("NotSupportedError", `"${name}" is encrypted, which isn't supported.`);
+    if (method !== 0 && method !== 8) {
+      throw namedError("NotSupportedError", `"${name}" uses a compression method that isn't supported (${method}).`);
+    }
+
+    // The local header's name and extra field lengths can differ from the central record's
+    const local = new DataView(await archive.slice(localOffset, localOffset + 30).arrayBuffer());
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    let data = archive.slice(dataStart, dataStart + compressedSize);
+    if (method === 8) {
+      data = await new Response(data.stream().pipeThrough(new DecompressionStream("deflate-raw"))).blob();
+    }
+    const entry = toEntry(name, false, data, lastModified);
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+async function readTar(archive: Blob): Promise<ArchiveEntry[]> {
+  const entries: ArchiveEntry[] = [];
+  const decoder = new TextDecoder();
+  // Set by GNU long-name and pax headers for the entry that follows
+  let nextName: string | null = null;
+  let offset = 0;
+  while (offset + 512 <= archive.size) {
+    const header = new Uint8Array(await archive.slice(offset, offset + 512).arrayBuffer());
+    // Two zero blocks end the archive; one is enough to stop
+    if (header.every(byte => byte === 0)) break;
+    const size = parseInt(field(header, 124, 12).trim() || "0", 8);
+    const lastModified = parseInt(field(header, 136, 12).trim() || "0", 8) * 1000;
+    const type = String.fromCharCode(header[156] || 0x30);
+    const prefix = field(header, 257, 5) === "ustar" ? field(header, 345, 155) : "";
+    const dataStart = offset + 512;
+    offset = dataStart + Math.ceil(size / 512) * 512;
+
+    if (type === "L") {
+      nextName = decoder.decode(await archive.slice(dataStart, dataStart + size).arrayBuffer()).replace(/\0+$/, "");
+      continue;
+    }
+    if (type === "x") {
+      const records = decoder.decode(await archive.slice(dataStart, dataStart + size).arrayBuffer());
+      const path = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(records);
+      if (path) nextName = path[1];
+      continue;
+    }
+    const name = nextName ?? (prefix ? `${prefix}/${field(header, 0, 100)}` : field(header, 0, 100));
+    nextName = null;
+    // Regular files and directories; links, devices and global pax headers are skipped
+    if (type !== "0" && type !== "7" && type !== "5") continue;
+    const entry = type === "5"
+      ? toEntry(name, true, null, lastModified)
+      : toEntry(name, false, archive.slice(dataStart, dataStart + size), lastModified);
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
@@ -0,0 +1,181 @@
+import type {
+  BatchOperation, BatchOperationResult, FileEntry, FileRange, FileReadResult, OperationProgress, StorageBucketInfo, StorageEstimate,
+  WalkOptions, WalkResult, WebLocksSnapshot, ZipOptions, ZipResult,
+} from "../types";
+import type { BucketArgs, OperationContext, RuntimeOp, RuntimeArgs, RuntimeResult } from "../page/runtime";
+import { abortError } from "./errors";
+import { bytesToBase64 } from "./paging";
+
+/**
+ * Options every operation accepts.
+ */
+export interface OperationOptions {
+  /** Cancels the operation, which then rejects with an AbortError */
+  signal?: AbortSignal;
+  /** Called with bytes or entries done (and the total, when known) as the operation runs */
+  onProgress?: (progress: OperationProgress) => void;
+  /** Storage bucket to operate in (see `listBuckets`); the default bucket when omitted */
+  bucket?: string;
+}
+
+/**
+ * Storage the panel operates on. The DevTools panel talks to the inspected
+ * page; outside DevTools (e.g. `npm run dev`) an in-memory backend stands in
+ * so the UI can be developed without loading the extension.
+ */
+export interface OpfsBackend {
+  /** List files and directories at the given path */
+  list(path: string, options?: OperationOptions): Promise<FileEntry[]>;
+  /** List everything below a directory in one call */
+  walk(path: string, options?: WalkOptions & OperationOptions): Promise<WalkResult>;
+  /** Read a file with metadata and detected type */
+  readWithMeta(path: string, options?: { forceText?: boolean } & OperationOptions): Promise<FileReadResult>;
+  /** Read a slice of a file's bytes */
+  readRange(path: string, offset: number, length: number, options?: OperationOptions): Promise<FileRange>;
+  /**
+   * Write text, base64-encoded bytes when `isBinary` is set, or the bytes of
+   * a Blob (such as an uploaded File), which is read a slice at a time
+   */
+  write(path: string, content: string | Blob, isBinary?: boolean, options?: OperationOptions): Promise<void>;
+  rename(path: string, newName: string, options?: OperationOptions): Promise<void>;
+  move(oldPath: string, newPath: string, options?: OperationOptions): Promise<void>;
+  /** Copy a file or directory (recursively) to a path that doesn't exist yet */
+  copy(src: string, dest: string, options?: OperationOptions): Promise<void>;
+  create(path: string, kind: "file" | "directory", options?: OperationOptions): Promise<void>;
+  delete(path: string, options?: OperationOptions): Promise<void>;
+  /** Run several operations in one call, with a result for each */
+  batch(operations: BatchOperation[], options?: { stopOnError?: boolean } & OperationOptions): Promise<BatchOperationResult[]>;
+  /** Save a file to the user's downloads */
+  download(path: string, options?: OperationOptions): Promise<void>;
+  /** Save files and folders to the user's downloads as one ZIP archive */
+  downloadZip(paths: string[], options: ZipOptions & OperationOptions): Promise<ZipResult>;
+  getStorageEstimate(options?: OperationOptions): Promise<StorageEstimate>;
+  exists(path: string, options?: OperationOptions): Promise<boolean>;
+  /** The files among or below `paths` that the page holds a sync access handle on */
+  probeLocks(paths: string[], options?: OperationOptions): Promise<string[]>;
+  hashFiles(paths: string[], options?: OperationOptions): Promise<Record<string, string>>;
+  /** Named storage buckets besides the default one */
+  listBuckets(options?: OperationOptions): Promise<StorageBucketInfo[]>;
+  /** Web Locks held and requested across the origin */
+  queryLocks(options?: OperationOptions): Promise<WebLocksSnapshot>;
+}
+
+export type RuntimeInvoker = <K extends RuntimeOp>(
+  op: K,
+  args: RuntimeArgs<K>,
+  options?: OperationOptions
+) => Promise<RuntimeResult<K>>;
+
+/**
+ * Adds the bucket from `options` to runtime arguments, leaving them as they
+ * were for the default bucket.
+ */
+export function inBucket<T extends object>(args: T, options?: OperationOptions): T & BucketArgs {
+  return options?.bucket ? { ...args, bucket: options.bucket } : args;
+}
+
+// Bytes of a Blob the runtime backend sends per writeChunk call
+const WRITE_CHUNK = 768 * 1024;
+
+/**
+ * Writes a Blob through a write stream opened by the runtime, reading and
+ * base64-encoding one slice of `chunkBytes` per call, so neither the panel
+ * nor any single call holds the whole payload. The stream is committed after
+ * the last chunk; on failure or cancellation it's aborted instead, leaving
+ * the file unchanged. `chunkBytes` must be a multiple of 3, so every chunk
+ * encodes on its own.
+ */
+export async function writeInChunks(
+  invoke: RuntimeInvoker,
+  path: string,
+  blob: Blob,
+  chunkBytes: number,
+  options?: OperationOptions
+): Promise<void> {
+  if (options?.signal?.aborted) throw abortError();
+  const { stream } = await invoke("openWrite", inBucket({ path }, options));
+  try {
+    for (let offset = 0; offset < blob.size; offset += chunkBytes) {
+      if (options?.signal?.aborted) throw abortError();
+      const chunk = new Uint8Array(await blob.slice(offset, offset + chunkBytes).arrayBuffer());
+      await invoke("writeChunk", { stream, content: bytesToBase64(chunk) }, { signal: options?.signal });
+      options?.onProgress?.({ unit: "bytes", done: offset + chunk.length, total: blob.size });
+    }
+    if (options?.signal?.aborted) throw abortError();
+  } catch (err) {
+    await invoke("closeWrite", { stream, commit: false }).catch(() => {});
+    throw err;
+  }
+  await invoke("closeWrite", { stream, commit: true });
+}
+
+/**
+ * Adapts an invoker for the shared OPFS runtime — wherever it runs — to the
+ * backend interface.
+ */
+export function createRuntimeBackend(invoke: RuntimeInvoker): OpfsBackend {
+  return {
+    list: (path, options) => invoke("list", inBucket({ path }, options), options),
+    walk: (path, options) => invoke(
+      "walk",
+      inBucket({ path, maxDepth: options?.maxDepth, includeMeta: options?.includeMeta, limit: options?.limit }, options),
+      options
+    ),
+    readWithMeta: (path, options) => invoke("readWithMeta", inBucket({ path, forceText: options?.forceText }, options), options),
+    readRange: (path, offset, length, options) => invoke("readRange", inBucket({ path, offset, length }, options), options),
+    write: async (path, content, isBinary = false, options) => {
+      if (typeof content !== "string") {
+        await writeInChunks(invoke, path, content, WRITE_CHUNK, options);
+      } else {
+        await invoke("write", inBucket(isBinary ? { path, content, isBinary } : { path, content }, options), options);
+      }
+    },
+    rename: async (path, newName, options) => {
+      await invoke("rename", inBucket({ path, newName }, options), options);
+    },
+    move: async (oldPath, newPath, options) => {
+      await invoke("move", inBucket({ oldPath, newPath }, options), options);
+    },
+    copy: async (src, dest, options) => {
+      await invoke("copy", inBucket({ src, dest }, options), options);
+    },
+    create: async (path, kind, options) => {
+      await invoke("create", inBucket({ path, kind }, options), options);
+    },
+    delete: async (path, options) => {
+      await invoke("delete", inBucket({ path }, options), options);
+    },
+    batch: (operations, options) =>
+      invoke("batch", inBucket(options?.stopOnError ? { operations, stopOnError: true } : { operations }, options), options),
+    download: async (path, options) => {
+      await invoke("download", inBucket({ path }, options), options);
+    },
+    downloadZip: (paths, options) => {
+      const args: { paths: string[] } & ZipOptions = { paths, name: options.name };
+      if (options.compress === false) args.compress = false;
+      if (options.snapshot) args.snapshot = options.snapshot;
+      return invoke("downloadZip", inBucket(args, options), options);
+    },
+    getStorageEstimate: (options) => invoke("getStorageEstimate", inBucket({}, options), options),
+    exists: (path, options) => invoke("exists", inBucket({ path }, options), options),
+    probeLocks: (paths, options) => invoke("probeLocks", inBucket({ paths }, options), options),
+    hashFiles: (paths, options) => invoke("hashFiles", inBucket({ paths }, options), options),
+    listBuckets: (options) => invoke("listBuckets", {}, options),
+    queryLocks: (options) => invoke("queryLocks", {}, options),
+  };
+}
+
+/**
+ * Operation context for a runtime running in the panel's own page, where the
+ * signal and progress callback can be used directly.
+ */
+export function toOperationContext(options?: OperationOptions): OperationContext {
+  return {
+    throwIfCancelled() {
+      if (options?.signal?.aborted) throw abortError();
+    },
+    progress(progress) {
+      options?.onProgress?.(progress);
+    },
+  };
+}
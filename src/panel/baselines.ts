@@ -0,0 +1,194 @@
+import { opfsApi, OpfsError, type OperationOptions, type SnapshotManifest, type SnapshotManifestEntry } from "./api";
+import { committed, createStoredList, openStores, request } from "./idb";
+import { base64ToBytes } from "./paging";
+
+/**
+ * Baselines: listings of the OPFS tree kept in the panel's own IndexedDB, to
+ * compare the tree against later — e.g. before and after a migration. Each
+ * keeps every entry's path, size and modification time, optionally a hash
+ * of every file, and the text of small text files so changes can be diffed.
+ */
+
+/** Largest file whose text a baseline keeps */
+export const MAX_BASELINE_TEXT = 256 * 1024;
+
+/** Bytes of text a baseline keeps at most; files past it are listed without text */
+export const BASELINE_TEXT_CAPACITY = 8 * 1024 * 1024;
+
+// Entries a listing can hold
+const LISTING_LIMIT = 100000;
+
+/** A stored baseline, as listed in the Compare panel */
+export interface BaselineItem {
+  id: string;
+  /** The origin whose OPFS was listed */
+  origin: string;
+  /** Storage bucket listed; the default bucket when undefined */
+  bucket?: string;
+  /** When it was taken, in ms since the epoch */
+  takenAt: number;
+  /** Files and folders listed */
+  entryCount: number;
+  /** Whether file hashes were taken */
+  hashed: boolean;
+}
+
+/** What a baseline keeps: the listing, and the text of small text files by path */
+export interface BaselineData {
+  manifest: SnapshotManifest;
+  texts: Record<string, string>;
+}
+
+/** Where baselines are kept — IndexedDB in the panel */
+export interface BaselineStorage {
+  getAll(): Promise<BaselineItem[]>;
+  put(item: BaselineItem, data: BaselineData): Promise<void>;
+  getData(id: string): Promise<BaselineData | undefined>;
+  delete(id: string): Promise<void>;
+}
+
+export interface Baselines {
+  /**
+   * Lists the whole bucket and keeps it as a baseline. Progress is reported
+   * in bytes read (and hashed, with `hash`).
+   */
+  capture(options: { origin: string; hash?: boolean } & OperationOptions): Promise<BaselineItem>;
+  /** A baseline's listing and texts; rejects with a NotFoundError once it's deleted */
+  load(id: string): Promise<BaselineData>;
+  remove(id: string): Promise<void>;
+  /** Baselines, newest first, or null until they've been loaded. Replaced on every change. */
+  getSnapshot(): readonly BaselineItem[] | null;
+  /** Subscribing loads the baselines */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * The bucket's entries as manifest entries, with sizes and modification
+ * times. Rejects with a QuotaExceededError for trees too large to list.
+ */
+export async function listTree(options: OperationOptions = {}): Promise<SnapshotManifestEntry[]> {
+  const { entries, truncated } = await opfsApi.walk("", {
+    includeMeta: true,
+    limit: LISTING_LIMIT,
+    bucket: options.bucket,
+    signal: options.signal,
+  });
+  if (truncated) {
+    throw new OpfsError("QuotaExceededError", `OPFS holds more than ${LISTING_LIMIT.toLocaleString()} entries, too many to compare.`, { operation: "walk", path: "" });
+  }
+  return entries.map(entry => entry.kind === "file"
+    ? { path: entry.path, kind: "file", size: entry.size ?? 0, lastModified: entry.lastModified }
+    : { path: entry.path, kind: "directory" });
+}
+
+/**
+ * The text of a file's bytes, or null for binary content — bytes that
+ * aren't valid UTF-8, or hold NUL characters.
+ */
+export function decodeText(bytes: Uint8Array): string | null {
+  if (bytes.includes(0)) return null;
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/** Creates the baseline list on the given storage */
+export function createBaselines(storage: BaselineStorage): Baselines {
+  const { load, publish, getSnapshot, subscribe } = createStoredList(() => storage.getAll(), (a, b) => b.takenAt - a.takenAt);
+
+  return {
+    async capture({ origin, hash, ...options }) {
+      const entries = await listTree(options);
+      const files = entries.filter(entry => entry.kind === "file");
+      const small = files.filter(entry => (entry.size ?? 0) <= MAX_BASELINE_TEXT);
+      const total = small.reduce((sum, entry) => sum + (entry.size ?? 0), 0);
+      let done = 0;
+
+      const texts: Record<string, string> = {};
+      let kept = 0;
+      for (const entry of small) {
+        const size = entry.size ?? 0;
+        if (kept + size > BASELINE_TEXT_CAPACITY) break;
+        const range = await opfsApi.readRange(entry.path, 0, size, { bucket: options.bucket, signal: options.signal });
+        const text = decodeText(base64ToBytes(range.content));
+        if (text !== null) {
+          texts[entry.path] = text;
+          kept += size;
+        }
+        done += size;
+        options.onProgress?.({ unit: "bytes", done, total });
+      }
+
+      if (hash) {
+        const hashes = await opfsApi.hashFiles(files.map(entry => entry.path), options);
+        for (const entry of files) entry.hash = hashes[entry.path];
+      }
+
+      const takenAt = Date.now();
+      const manifest: SnapshotManifest = { format: "opfs-snapshot", version: 1, origin, exportedAt: takenAt, entries };
+      if (options.bucket) manifest.bucket = options.bucket;
+      const item: BaselineItem = {
+        id: `${takenAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        origin,
+        bucket: options.bucket,
+        takenAt,
+        entryCount: entries.length,
+        hashed: !!hash,
+      };
+      await storage.put(item, { manifest, texts });
+      // A first load can already see the new item in storage
+      publish([...(await load()).filter(known => known.id !== item.id), item]);
+      return item;
+    },
+
+    async load(id) {
+      const data = await storage.getData(id);
+      if (!data) throw new OpfsError("NotFoundError", "That baseline no longer exists.", { operation: "compare" });
+      return data;
+    },
+
+    async remove(id) {
+      await storage.delete(id);
+      publish((await load()).filter(item => item.id !== id));
+    },
+
+    getSnapshot,
+    subscribe,
+  };
+}
+
+/**
+ * Baseline storage in an IndexedDB database of the panel, opened on first
+ * use. Listings are kept apart from the baseline list, so listing the
+ * baselines doesn't load them.
+ */
+export function createIndexedDbBaselineStorage(name = "opfs-explorer-baselines"): BaselineStorage {
+  const transaction = openStores(name, ["items", "data"]);
+
+  return {
+    async getAll() {
+      return request((await transaction("readonly")).objectStore("items").getAll());
+    },
+    async put(item, data) {
+      const tx = await transaction("readwrite");
+      tx.objectStore("items").put(item);
+      tx.objectStore("data").put({ id: item.id, ...data });
+      await committed(tx);
+    },
+    async getData(id) {
+      const record = await request((await transaction("readonly")).objectStore("data").get(id));
+      return record && { manifest: record.manifest, texts: record.texts };
+    },
+    async delete(id) {
+      const tx = await transaction("readwrite");
+      tx.objectStore("items").delete(id);
+      tx.objectStore("data").delete(id);
+      await committed(tx);
+    },
+  };
+}
+
+/** The explorer's baselines */
+export const baselines = createBaselines(createIndexedDbBaselineStorage());
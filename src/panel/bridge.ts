@@ -0,0 +1,201 @@
+import { PANEL_PORT_NAME, type BridgeMessage } from "../page/protocol";
+import type { RuntimeOp, RuntimeArgs, RuntimeResult } from "../page/runtime";
+import type { OperationOptions } from "./backend";
+import { abortError, namedError } from "./errors";
+import { getTargetFrame } from "./frames";
+
+// Declare browser namespace for Safari/Firefox compatibility
+declare const browser: typeof chrome | undefined;
+
+/**
+ * How long to wait for the content script to answer before falling back to
+ * the eval transport. The content script is normally ready well within a
+ * few milliseconds; it is missing entirely on pages extensions can't touch
+ * (chrome://, the Web Store) and on tabs opened before the extension was
+ * installed.
+ */
+const ATTACH_TIMEOUT_MS = 1000;
+
+export interface Bridge {
+  invoke<K extends RuntimeOp>(op: K, args: RuntimeArgs<K>, options?: OperationOptions): Promise<RuntimeResult<K>>;
+  /** Disconnects, rejecting calls still in flight */
+  close(): void;
+}
+
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (reason: Error) => void;
+  options?: OperationOptions;
+  /** Stops listening for the caller's abort signal */
+  cleanup: () => void;
+}
+
+/**
+ * Get the runtime and devtools APIs (supports both chrome.* and browser.* namespaces)
+ */
+function getExtensionApis(): { runtime: typeof chrome.runtime; devtools: typeof chrome.devtools } | null {
+  const api =
+    typeof browser !== "undefined" && browser?.devtools?.inspectedWindow
+      ? browser
+      : typeof chrome !== "undefined" && chrome?.devtools?.inspectedWindow
+        ? chrome
+        : null;
+  if (!api || typeof api.runtime?.connect !== "function") return null;
+  return { runtime: api.runtime, devtools: api.devtools };
+}
+
+let bridgePromise: Promise<Bridge | null> | null = null;
+/** The target frame `bridgePromise` was opened for */
+let bridgeFrameURL: string | null = null;
+let navigationListenerAdded = false;
+
+/**
+ * Resolves to a connected bridge, or to null when the content script isn't
+ * reachable and callers should use the eval transport instead. The result
+ * is cached until the inspected page navigates, the connection drops or
+ * another frame is selected.
+ */
+export function getBridge(): Promise<Bridge | null> {
+  const frameURL = getTargetFrame();
+  if (bridgePromise && bridgeFrameURL !== frameURL) {
+    void bridgePromise.then(bridge => bridge?.close());
+    bridgePromise = null;
+  }
+  if (!bridgePromise) {
+    bridgeFrameURL = frameURL;
+    bridgePromise = openBridge(frameURL);
+  }
+  return bridgePromise;
+}
+
+/**
+ * Forget the cached bridge so the next call re-attaches. A navigation loads
+ * a fresh content script (or makes one available where there wasn't one).
+ */
+export function resetBridge(): void {
+  bridgePromise = null;
+}
+
+function openBridge(frameURL: string | null): Promise<Bridge | null> {
+  const apis = getExtensionApis();
+  if (!apis) return Promise.resolve(null);
+  const { runtime, devtools } = apis;
+
+  if (!navigationListenerAdded && devtools.network?.onNavigated) {
+    devtools.network.onNavigated.addListener(() => resetBridge());
+    navigationListenerAdded = true;
+  }
+
+  const connection: Promise<Bridge | null> = new Promise((resolve) => {
+    let port: chrome.runtime.Port;
+    try {
+      port = runtime.connect({ name: PANEL_PORT_NAME });
+    } catch {
+      resolve(null);
+      return;
+    }
+
+    const pending = new Map<number, PendingCall>();
+    let nextId = 1;
+    let ready = false;
+    let closed = false;
+    /** Names the content script that answered first */
+    let session = "";
+
+    const settle = (id: number): PendingCall | undefined => {
+      const call = pending.get(id);
+      pending.delete(id);
+      call?.cleanup();
+      return call;
+    };
+
+    const bridge: Bridge = {
+      invoke(op, args, options) {
+        if (closed) {
+          return Promise.reject(namedError("ConnectionLostError", "Connection to the inspected page was lost"));
+        }
+        const signal = options?.signal;
+        if (signal?.aborted) return Promise.reject(abortError());
+
+        const id = nextId++;
+        return new Promise((res, rej) => {
+          // The content script checks for cancellation between chunks or
+          // entries and then rejects the call with an AbortError.
+          const onAbort = () => {
+            if (!closed) port.postMessage({ type: "cancel", session, id } satisfies BridgeMessage);
+          };
+          signal?.addEventListener("abort", onAbort, { once: true });
+          pending.set(id, {
+            resolve: res as (value: unknown) => void,
+            reject: rej,
+            options,
+            cleanup: () => signal?.removeEventListener("abort", onAbort),
+          });
+          port.postMessage({ type: "invoke", session, id, op, args } satisfies BridgeMessage);
+        });
+      },
+      close() {
+        close();
+        port.disconnect();
+      },
+    };
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearTimeout(timer);
+      const error = namedError("ConnectionLostError", "Connection to the inspected page was lost");
+      pending.forEach(call => {
+        call.cleanup();
+        call.reject(error);
+      });
+      pending.clear();
+      if (!ready) {
+        resolve(null);
+      } else if (bridgePromise === connection) {
+        // Only forget this connection — never a newer one opened since
+        resetBridge();
+      }
+    };
+
+    const timer = setTimeout(() => {
+      if (ready) return;
+      close();
+      port.disconnect();
+    }, ATTACH_TIMEOUT_MS);
+
+    port.onMessage.addListener((message: BridgeMessage) => {
+      switch (message.type) {
+        case "ready":
+          // Several frames can match the target URL — stick with the first
+          if (ready) break;
+          ready = true;
+          session = message.session;
+          clearTimeout(timer);
+          resolve(bridge);
+          break;
+        case "detached":
+          close();
+          port.disconnect();
+          break;
+        case "progress":
+          pending.get(message.id)?.options?.onProgress?.(message.progress);
+          break;
+        case "result":
+          settle(message.id)?.resolve(message.result);
+          break;
+        case "error":
+          settle(message.id)?.reject(namedError(message.name ?? "Error", message.error));
+          break;
+      }
+    });
+    port.onDisconnect.addListener(close);
+
+    port.postMessage({
+      type: "attach",
+      tabId: devtools.inspectedWindow.tabId,
+      ...(frameURL ? { frameURL } : {}),
+    } satisfies BridgeMessage);
+  });
+  return connection;
+}
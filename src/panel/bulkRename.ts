@@ -0,0 +1,134 @@
+import { joinPath, parentPath, splitExtension } from "./names";
+
+/**
+ * Bulk renames: one rule applied to every entry of a multi-selection, and
+ * the plan it makes — each entry's new name, and whether it can be used.
+ */
+
+export type NameCase = "keep" | "lower" | "upper" | "title";
+
+/** How a bulk rename turns an entry's name into its new one */
+export interface RenameRule {
+  /** Text to replace, or a regular expression with `regex` */
+  find: string;
+  /** Replacement; with `regex`, `$1`… insert capture groups */
+  replace: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  case: NameCase;
+  prefix: string;
+  suffix: string;
+  /**
+   * Whether the extension is renamed too. Without it, the rule applies to
+   * the name before the extension and the extension is kept.
+   */
+  includeExtension: boolean;
+  /** First number `{n}` stands for */
+  start: number;
+  /** Digits `{n}` is padded to with zeros */
+  digits: number;
+}
+
+export const DEFAULT_RENAME_RULE: RenameRule = {
+  find: "",
+  replace: "",
+  regex: false,
+  caseSensitive: true,
+  case: "keep",
+  prefix: "",
+  suffix: "",
+  includeExtension: false,
+  start: 1,
+  digits: 1,
+};
+
+/** An entry to rename */
+export interface RenameSource {
+  path: string;
+  name: string;
+  kind: "file" | "directory";
+}
+
+/** What a bulk rename does to one entry */
+export interface RenamePlanItem extends RenameSource {
+  newName: string;
+  /** Why the new name can't be used; unset when it can */
+  problem?: string;
+}
+
+// "{n}" in the prefix, suffix or replacement
+const NUMBER_TOKEN = /\{n\}/g;
+
+function changeCase(text: string, nameCase: NameCase): string {
+  switch (nameCase) {
+    case "lower": return text.toLowerCase();
+    case "upper": return text.toUpperCase();
+    case "title": return text.toLowerCase().replace(/(^|[\s_\-.])(\p{L})/gu, (_, gap: string, letter: string) => gap + letter.toUpperCase());
+    default: return text;
+  }
+}
+
+/**
+ * Compiles a rule into a function from an entry and its position in the
+ * selection to its new name. Throws a SyntaxError for an invalid regex.
+ */
+export function compileRenameRule(rule: RenameRule): (entry: RenameSource, index: number) => string {
+  const flags = rule.caseSensitive ? "g" : "gi";
+  const pattern = rule.find
+    ? new RegExp(rule.regex ? rule.find : rule.find.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), flags)
+    : null;
+
+  return (entry, index) => {
+    const number = String(rule.start + index).padStart(Math.max(1, rule.digits), "0");
+    const numbered = (text: string) => text.replace(NUMBER_TOKEN, number);
+    const { base, ext } = rule.includeExtension ? { base: entry.name, ext: "" } : splitExtension(entry.name, entry.kind);
+
+    let name = base;
+    if (pattern) {
+      // A plain replacement is inserted as-is, `$` and all
+      const replacement = numbered(rule.replace);
+      name = rule.regex ? name.replace(pattern, replacement) : name.replace(pattern, () => replacement);
+    }
+    name = changeCase(name, rule.case);
+    return numbered(rule.prefix) + name + numbered(rule.suffix) + ext;
+  };
+}
+
+// Why a name can't be used for an OPFS entry, if it can't
+function nameProblem(name: string): string | undefined {
+  if (!name) return "Name is empty";
+  if (name === "." || name === "..") return `"${name}" isn't a valid name`;
+  if (/[/\\]/.test(name)) return "Names can't contain / or \\";
+  return undefined;
+}
+
+/**
+ * Plans renaming each of `entries` by `rule`, numbering them in the given
+ * order. `siblings` holds the names already in each entry's folder, keyed by
+ * folder path. A new name collides when another entry of its folder already
+ * has it — including one that's being renamed, since renames run one after
+ * another — or when two entries would get it.
+ */
+export function planRenames(
+  entries: RenameSource[],
+  rule: RenameRule,
+  siblings: ReadonlyMap<string, ReadonlySet<string>>
+): RenamePlanItem[] {
+  const rename = compileRenameRule(rule);
+  const items: RenamePlanItem[] = entries.map((entry, index) => ({ ...entry, newName: rename(entry, index) }));
+
+  const targets = new Map<string, number>();
+  for (const item of items) {
+    const target = joinPath(parentPath(item.path), item.newName);
+    targets.set(target, (targets.get(target) ?? 0) + 1);
+  }
+
+  for (const item of items) {
+    if (item.newName === item.name) continue;
+    const dir = parentPath(item.path);
+    item.problem = nameProblem(item.newName)
+      ?? (siblings.get(dir)?.has(item.newName) ? `"${item.newName}" already exists` : undefined)
+      ?? ((targets.get(joinPath(dir, item.newName)) ?? 0) > 1 ? `Another entry would also be named "${item.newName}"` : undefined);
+  }
+  return items;
+}
@@ -0,0 +1,133 @@
+import type { SnapshotManifestEntry } from "./api";
+
+/**
+ * Comparing the OPFS tree against an earlier listing of it (a baseline or a
+ * snapshot's manifest): which entries were added, removed or changed, and
+ * line diffs of changed text files.
+ */
+
+export type ChangeType = "added" | "removed" | "resized" | "modified";
+
+/** An entry that differs between the two listings */
+export interface TreeChange {
+  path: string;
+  kind: "file" | "directory";
+  change: ChangeType;
+  /** The entry as listed in the baseline (absent for added entries) */
+  before?: SnapshotManifestEntry;
+  /** The entry as it is now (absent for removed entries) */
+  after?: SnapshotManifestEntry;
+}
+
+/**
+ * The differences between two listings, by path. Files of the same size
+ * count as modified when both have a hash and the hashes differ, or —
+ * without hashes on both sides — when their lastModified differs. An entry
+ * that turned from a file into a folder (or back) is removed and added.
+ */
+export function compareListings(before: SnapshotManifestEntry[], after: SnapshotManifestEntry[]): TreeChange[] {
+  const key = (entry: SnapshotManifestEntry) => `${entry.kind}:${entry.path}`;
+  const previous = new Map(before.map(entry => [key(entry), entry]));
+  const current = new Map(after.map(entry => [key(entry), entry]));
+  const changes: TreeChange[] = [];
+
+  for (const [id, entry] of previous) {
+    if (!current.has(id)) changes.push({ path: entry.path, kind: entry.kind, change: "removed", before: entry });
+  }
+  for (const [id, entry] of current) {
+    const old = previous.get(id);
+    if (!old) {
+      changes.push({ path: entry.path, kind: entry.kind, change: "added", after: entry });
+      continue;
+    }
+    if (entry.kind === "directory") continue;
+    if ((old.size ?? 0) !== (entry.size ?? 0)) {
+      changes.push({ path: entry.path, kind: entry.kind, change: "resized", before: old, after: entry });
+    } else if (old.hash && entry.hash ? old.hash !== entry.hash : old.lastModified !== entry.lastModified) {
+      changes.push({ path: entry.path, kind: entry.kind, change: "modified", before: old, after: entry });
+    }
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** A line of a diff: unchanged, only in the new text, or only in the old one */
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+// Beyond this many edits the diff is more noise than help, and slow to find
+const MAX_EDITS = 1000;
+
+/**
+ * Line diff of two texts (Myers' algorithm), in order, or null when they
+ * differ in more than a thousand lines.
+ */
+export function diffLines(before: string, after: string): DiffLine[] | null {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const max = Math.min(a.length + b.length, MAX_EDITS);
+  const offset = max + 1;
+  // v[k + offset]: the furthest x reached on diagonal k; one copy kept per edit count
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset])
+        ? v[k + 1 + offset]
+        : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= a.length && y >= b.length) return backtrack(trace, a, b, offset, d);
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[], offset: number, edits: number): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = edits; d > 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const down = k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset]);
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = v[prevK + offset];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      lines.push({ type: "same", text: a[--x] });
+      y--;
+    }
+    if (down) {
+      lines.push({ type: "added", text: b[--y] });
+    } else {
+      lines.push({ type: "removed", text: a[--x] });
+    }
+  }
+  while (x > 0) lines.push({ type: "same", text: a[--x] });
+  return lines.reverse();
+}
+
+/**
+ * Largest file hashed. `opfsApi.hashFiles` leaves larger files out, since a
+ * file is read into memory whole to hash it; they're compared by size and
+ * modification time instead.
+ */
+export const MAX_HASH_BYTES = 64 * 1024 * 1024;
+
+/**
+ * SHA-256 of a blob's contents, as hex, the way `opfsApi.hashFiles` reports
+ * it. Reads the whole blob into memory — callers skip blobs over
+ * MAX_HASH_BYTES.
+ */
+export async function sha256(blob: Blob): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new Uint8Array(await blob.arrayBuffer())));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,130 @@
+import { useMemo, useState, useSyncExternalStore } from 'react';
+import { CheckCircle2, XCircle, Ban, Download, Trash2, X } from 'lucide-react';
+import { activityLog, type ActivityEntry } from '../api';
+import { filterActivity } from '../activityLog';
+
+interface ActivityPanelProps {
+  onClose: () => void;
+  /** Formats a byte count for display */
+  formatBytes: (bytes: number) => string;
+}
+
+const STATUS_ICONS: Record<ActivityEntry['status'], React.ReactNode> = {
+  ok: <CheckCircle2 size={11} className="text-green-500" aria-label="Succeeded" />,
+  error: <XCircle size={11} className="text-red-400" aria-label="Failed" />,
+  cancelled: <Ban size={11} className="text-dt-text-secondary" aria-label="Cancelled" />,
+};
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(2)} s`;
+}
+
+function exportActivity(entries: ActivityEntry[]) {
+  const json = JSON.stringify({ exportedAt: new Date().toISOString(), entries }, null, 2);
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `opfs-activity-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Collapsible log of every `opfsApi` call — operation, paths, duration,
+ * payload size and outcome — newest first, for finding out what the
+ * explorer actually did when something looks wrong.
+ */
+export function ActivityPanel({ onClose, formatBytes }: ActivityPanelProps) {
+  const entries = useSyncExternalStore(activityLog.subscribe, activityLog.getSnapshot);
+  const [query, setQuery] = useState('');
+  const [status, setStatus] = useState<ActivityEntry['status'] | 'all'>('all');
+
+  const visible = useMemo(() => filterActivity(entries, query, status).reverse(), [entries, query, status]);
+
+  const toolButton = 'flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-dt-hover hover:text-dt-text disabled:opacity-40 disabled:hover:bg-transparent transition-colors';
+
+  return (
+    <section className="h-48 border-t border-dt-border bg-dt-bg flex flex-col shrink-0" aria-label="Activity">
+      <div className="flex items-center gap-2 px-2 py-1 border-b border-dt-border bg-dt-surface text-[10px] text-dt-text-secondary shrink-0">
+        <span className="font-medium text-dt-text">Activity</span>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Filter by operation, path or error"
+          className="w-56 bg-dt-bg border border-dt-border rounded px-1.5 py-0.5 text-[10px] text-dt-text focus:border-[var(--dt-focus)] focus:outline-none"
+          aria-label="Filter activity"
+        />
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as ActivityEntry['status'] | 'all')}
+          className="bg-dt-bg border border-dt-border rounded px-1 py-0.5 text-[10px] text-dt-text focus:border-[var(--dt-focus)] focus:outline-none"
+          aria-label="Show calls"
+        >
+          <option value="all">All calls</option>
+          <option value="ok">Succeeded</option>
+          <option value="error">Failed</option>
+          <option value="cancelled">Cancelled</option>
+        </select>
+        <span aria-live="polite">{visible.length} of {entries.length}</span>
+        <div className="ml-auto flex items-center gap-1">
+          <button onClick={() => exportActivity(visible)} disabled={visible.length === 0} className={toolButton} title="Export the calls shown as JSON">
+            <Download size={11} aria-hidden="true" /> Export
+          </button>
+          <button onClick={activityLog.clear} disabled={entries.length === 0} className={toolButton}>
+            <Trash2 size={11} aria-hidden="true" /> Clear
+          </button>
+          <button onClick={onClose} className={toolButton} aria-label="Close activity panel">
+            <X size={11} aria-hidden="true" />
+          </button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-[10px] text-dt-text-secondary" role="status">
+          {entries.length === 0 ? 'No calls recorded yet' : 'No calls match the filter'}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-[10px] text-dt-text">
+            <thead className="sticky top-0 bg-dt-surface text-dt-text-secondary text-left">
+              <tr>
+                <th className="px-2 py-0.5 font-normal w-4"><span className="sr-only">Result</span></th>
+                <th className="px-2 py-0.5 font-normal">Time</th>
+                <th className="px-2 py-0.5 font-normal">Operation</th>
+                <th className="px-2 py-0.5 font-normal">Paths</th>
+                <th className="px-2 py-0.5 font-normal text-right">Duration</th>
+                <th className="px-2 py-0.5 font-normal text-right">Size</th>
+                <th className="px-2 py-0.5 font-normal">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(entry => (
+                <tr key={entry.id} className="border-t border-dt-border/50 hover:bg-dt-hover">
+                  <td className="px-2 py-0.5">{STATUS_ICONS[entry.status]}</td>
+                  <td className="px-2 py-0.5 whitespace-nowrap tabular-nums text-dt-text-secondary">
+                    {new Date(entry.startedAt).toLocaleTimeString()}
+                  </td>
+                  <td className="px-2 py-0.5 whitespace-nowrap">{entry.operation}</td>
+                  <td className="px-2 py-0.5 max-w-xs truncate" title={entry.paths.join('\n')}>
+                    {entry.bucket && <span className="opacity-70">{entry.bucket}: </span>}
+                    {entry.paths.length > 3
+                      ? `${entry.paths.slice(0, 3).map(p => p || '/').join(', ')} +${entry.paths.length - 3} more`
+                      : entry.paths.map(p => p || '/').join(' → ')}
+                  </td>
+                  <td className="px-2 py-0.5 whitespace-nowrap tabular-nums text-right">{formatDuration(entry.duration)}</td>
+                  <td className="px-2 py-0.5 whitespace-nowrap tabular-nums text-right">
+                    {entry.payloadSize !== undefined ? formatBytes(entry.payloadSize) : ''}
+                  </td>
+                  <td className={`px-2 py-0.5 max-w-xs truncate ${entry.error ? 'text-red-400' : 'text-dt-text-secondary'}`} title={entry.error?.message ?? entry.result}>
+                    {entry.error ? `${entry.error.code}: ${entry.error.message}` : entry.result}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
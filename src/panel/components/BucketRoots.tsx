@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { Archive, HardDrive } from 'lucide-react';
+import { opfsApi, type StorageBucketInfo } from '../api';
+
+interface BucketRootsProps {
+  /** Re-lists the buckets whenever this changes (e.g. on refresh) */
+  refreshKey: number;
+  /** The bucket shown in the tree; undefined for the default bucket */
+  bucket: string | undefined;
+  onBucketChange: (bucket: string | undefined) => void;
+  /** Formats a byte count for display */
+  formatBytes: (bytes: number) => string;
+}
+
+function describeBucket(info: StorageBucketInfo, formatBytes: (bytes: number) => string): string {
+  const parts: string[] = [];
+  if (info.durability) parts.push(info.durability);
+  if (info.persisted !== null) parts.push(info.persisted ? 'persisted' : 'best-effort');
+  if (info.usage !== null && info.quota !== null) {
+    parts.push(info.quota > 0 ? `${formatBytes(info.usage)} of ${formatBytes(info.quota)}` : formatBytes(info.usage));
+  }
+  parts.push(info.expires === null ? 'no expiry' : `expires ${new Date(info.expires).toLocaleString()}`);
+  return parts.join(' · ');
+}
+
+/**
+ * Lists the origin's storage buckets as separate roots when the page uses the
+ * Storage Buckets API. Hidden when there's only the default bucket.
+ */
+export function BucketRoots({ refreshKey, bucket, onBucketChange, formatBytes }: BucketRootsProps) {
+  const [buckets, setBuckets] = useState<StorageBucketInfo[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    opfsApi.listBuckets()
+      .then(list => {
+        if (cancelled) return;
+        setBuckets(list);
+        // The bucket was deleted by the page
+        if (bucket && !list.some(info => info.name === bucket)) onBucketChange(undefined);
+      })
+      .catch(() => {
+        // Buckets are nice-to-have; the default bucket always works
+        if (!cancelled) setBuckets([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, bucket, onBucketChange]);
+
+  if (buckets.length === 0) return null;
+
+  const rootClass = (selected: boolean) =>
+    `w-full flex items-start gap-1.5 px-2 py-1 text-left rounded transition-colors ${
+      selected ? 'bg-dt-selection text-dt-selection-text' : 'text-dt-text-secondary hover:bg-dt-hover'
+    }`;
+
+  return (
+    <div className="border-b border-dt-border p-1 max-h-40 overflow-y-auto" role="group" aria-label="Storage buckets">
+      <button
+        onClick={() => onBucketChange(undefined)}
+        className={rootClass(!bucket)}
+        aria-pressed={!bucket}
+      >
+        <HardDrive size={12} className="mt-px shrink-0" aria-hidden="true" />
+        <span className="text-[11px]">Default bucket</span>
+      </button>
+      {buckets.map(info => (
+        <button
+          key={info.name}
+          onClick={() => onBucketChange(info.name)}
+          className={rootClass(bucket === info.name)}
+          aria-pressed={bucket === info.name}
+        >
+          <Archive size={12} className="mt-px shrink-0" aria-hidden="true" />
+          <span className="min-w-0">
+            <span className="block text-[11px] truncate" title={info.name}>{info.name}</span>
+            <span className="block text-[10px] opacity-70 truncate">{describeBucket(info, formatBytes)}</span>
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
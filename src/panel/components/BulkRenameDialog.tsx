@@ -0,0 +1,239 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Check } from 'lucide-react';
+import {
+  DEFAULT_RENAME_RULE, planRenames, type NameCase, type RenamePlanItem, type RenameRule, type RenameSource,
+} from '../bulkRename';
+
+/** How renaming one entry went: `error` is unset when it was renamed */
+export interface RenameResult {
+  path: string;
+  error?: string;
+}
+
+interface BulkRenameDialogProps {
+  /** Entries to rename, in the order they're numbered */
+  entries: RenameSource[];
+  /** Names already in each entry's folder, keyed by folder path */
+  siblings: ReadonlyMap<string, ReadonlySet<string>>;
+  /** Renames the planned entries (the ones without a problem) and reports on each */
+  onApply: (items: RenamePlanItem[]) => Promise<RenameResult[]>;
+  onClose: () => void;
+}
+
+/**
+ * Renames a multi-selection by one rule — find/replace (optionally a regex
+ * with capture groups), prefix and suffix, a case change and `{n}` numbers —
+ * previewing every new name and flagging the ones that can't be used. Once
+ * applied, it reports how each rename went.
+ */
+export function BulkRenameDialog({ entries, siblings, onApply, onClose }: BulkRenameDialogProps) {
+  const [rule, setRule] = useState<RenameRule>(DEFAULT_RENAME_RULE);
+  const [applying, setApplying] = useState(false);
+  const [results, setResults] = useState<Map<string, RenameResult> | null>(null);
+
+  const { plan, ruleError } = useMemo(() => {
+    try {
+      return { plan: planRenames(entries, rule, siblings), ruleError: null };
+    } catch (err) {
+      return { plan: null, ruleError: err instanceof Error ? err.message : String(err) };
+    }
+  }, [entries, rule, siblings]);
+
+  const ready = plan?.filter(item => item.newName !== item.name && !item.problem) ?? [];
+  const problems = plan?.filter(item => item.problem).length ?? 0;
+  const renamed = results ? [...results.values()].filter(result => !result.error).length : 0;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !applying) onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [applying, onClose]);
+
+  const update = (change: Partial<RenameRule>) => setRule(prev => ({ ...prev, ...change }));
+
+  const apply = async () => {
+    setApplying(true);
+    try {
+      const report = await onApply(ready);
+      setResults(new Map(report.map(result => [result.path, result])));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-dt-bg border border-dt-border rounded px-2 py-1 text-xs text-dt-text focus:border-[var(--dt-focus)] focus:outline-none disabled:opacity-50';
+  const field = (label: string, key: 'find' | 'replace' | 'prefix' | 'suffix', placeholder?: string) => (
+    <label className="block">
+      <span className="block mb-0.5 text-dt-text-secondary">{label}</span>
+      <input
+        type="text"
+        className={`${inputClass} font-mono`}
+        value={rule[key]}
+        placeholder={placeholder}
+        onChange={(e) => update({ [key]: e.target.value })}
+        autoComplete="off"
+        spellCheck="false"
+        disabled={applying || !!results}
+      />
+    </label>
+  );
+  const toggle = (label: string, key: 'regex' | 'caseSensitive' | 'includeExtension') => (
+    <label className="flex items-center gap-1.5 text-dt-text-secondary cursor-pointer">
+      <input
+        type="checkbox"
+        checked={rule[key]}
+        onChange={(e) => update({ [key]: e.target.checked })}
+        disabled={applying || !!results}
+      />
+      {label}
+    </label>
+  );
+
+  const status = (item: RenamePlanItem) => {
+    const result = results?.get(item.path);
+    if (result) {
+      return result.error
+        ? <span className="text-red-400" title={result.error}>{result.error}</span>
+        : <span className="flex items-center gap-1 text-green-500"><Check size={11} aria-hidden="true" /> Renamed</span>;
+    }
+    if (item.problem) {
+      return <span className="flex items-center gap-1 text-yellow-500"><AlertCircle size={11} className="shrink-0" aria-hidden="true" /> {item.problem}</span>;
+    }
+    return item.newName === item.name ? <span className="text-dt-text-secondary">Unchanged</span> : null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-[1px]">
+      <div
+        className="bg-dt-surface border border-dt-border shadow-xl rounded-lg w-[640px] max-w-[95vw] max-h-[90vh] flex flex-col overflow-hidden modal-content-enter"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="bulk-rename-title"
+      >
+        <div className="flex items-center justify-between px-4 py-2 border-b border-dt-border bg-dt-bg">
+          <h3 id="bulk-rename-title" className="font-semibold text-dt-text text-sm">Rename {entries.length} Items</h3>
+        </div>
+
+        <div className="p-4 space-y-3 text-xs overflow-hidden flex flex-col min-h-0">
+          <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+            {field('Find', 'find', rule.regex ? 'Regular expression' : 'Text to replace')}
+            {field('Replace with', 'replace', rule.regex ? '$1 inserts a capture group' : undefined)}
+            {field('Prefix', 'prefix')}
+            {field('Suffix', 'suffix')}
+            <label className="block">
+              <span className="block mb-0.5 text-dt-text-secondary">Case</span>
+              <select
+                className={inputClass}
+                value={rule.case}
+                onChange={(e) => update({ case: e.target.value as NameCase })}
+                disabled={applying || !!results}
+              >
+                <option value="keep">Keep</option>
+                <option value="lower">lowercase</option>
+                <option value="upper">UPPERCASE</option>
+                <option value="title">Title Case</option>
+              </select>
+            </label>
+            <div className="grid grid-cols-2 gap-x-2">
+              <label className="block">
+                <span className="block mb-0.5 text-dt-text-secondary">{'{n}'} starts at</span>
+                <input
+                  type="number"
+                  className={inputClass}
+                  value={rule.start}
+                  onChange={(e) => update({ start: Number.parseInt(e.target.value, 10) || 0 })}
+                  disabled={applying || !!results}
+                />
+              </label>
+              <label className="block">
+                <span className="block mb-0.5 text-dt-text-secondary">Digits</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  className={inputClass}
+                  value={rule.digits}
+                  onChange={(e) => update({ digits: Math.min(10, Math.max(1, Number.parseInt(e.target.value, 10) || 1)) })}
+                  disabled={applying || !!results}
+                />
+              </label>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+            {toggle('Regular expression', 'regex')}
+            {toggle('Match case', 'caseSensitive')}
+            {toggle('Include extension', 'includeExtension')}
+            <span className="text-dt-text-secondary">{'{n}'} in any field inserts a number, in selection order.</span>
+          </div>
+
+          {ruleError ? (
+            <p className="flex items-start gap-1.5 text-red-400" role="alert">
+              <AlertCircle size={12} className="shrink-0 mt-0.5" aria-hidden="true" />
+              <span>{ruleError}</span>
+            </p>
+          ) : (
+            <div className="border border-dt-border rounded overflow-auto min-h-0 max-h-[40vh]">
+              <table className="w-full text-left">
+                <thead className="sticky top-0 bg-dt-bg text-dt-text-secondary">
+                  <tr>
+                    <th className="px-2 py-1 font-medium">Current name</th>
+                    <th className="px-2 py-1 font-medium">New name</th>
+                    <th className="px-2 py-1 font-medium w-[35%]">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan!.map(item => (
+                    <tr key={item.path} className="border-t border-dt-border">
+                      <td className="px-2 py-1 font-mono text-dt-text-secondary truncate max-w-0" title={item.path}>{item.name}</td>
+                      <td className={`px-2 py-1 font-mono truncate max-w-0 ${item.problem ? 'text-yellow-500' : 'text-dt-text'}`} title={item.newName}>
+                        {item.newName}
+                      </td>
+                      <td className="px-2 py-1 truncate max-w-0">{status(item)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between px-4 py-2 bg-dt-bg border-t border-dt-border text-xs">
+          <span className="text-dt-text-secondary" aria-live="polite">
+            {results
+              ? `Renamed ${renamed} of ${results.size}`
+              : `${ready.length} to rename${problems > 0 ? ` · ${problems} can't be renamed` : ''}`}
+          </span>
+          <div className="flex space-x-2">
+            {results ? (
+              <button
+                onClick={onClose}
+                className="px-3 py-1.5 rounded text-xs text-white bg-blue-600 hover:bg-blue-500 transition-colors"
+              >
+                Close
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={onClose}
+                  disabled={applying}
+                  className="px-3 py-1.5 rounded text-xs text-dt-text border border-dt-border hover:bg-dt-hover transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={apply}
+                  disabled={applying || ready.length === 0}
+                  className="px-3 py-1.5 rounded text-xs text-white bg-blue-600 hover:bg-blue-500 transition-colors disabled:opacity-60 disabled:pointer-events-none"
+                >
+                  {applying ? 'Working…' : `Rename ${ready.length}`}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,348 @@
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { Camera, File, FileUp, Folder, GitCompare, Trash2, X } from 'lucide-react';
+import { currentOrigin, opfsApi, isOpfsError, type OperationOptions, type SnapshotManifestEntry } from '../api';
+import { baselines, decodeText, listTree } from '../baselines';
+import { compareListings, diffLines, MAX_HASH_BYTES, sha256, type ChangeType, type DiffLine, type TreeChange } from '../compare';
+import { base64ToBytes } from '../paging';
+import { readSnapshot, type Snapshot } from '../snapshots';
+
+// Largest file the diff view reads, on either side
+const MAX_DIFF_BYTES = 1024 * 1024;
+
+const GROUPS: { change: ChangeType; label: string; className: string }[] = [
+  { change: 'added', label: 'Added', className: 'text-green-500' },
+  { change: 'removed', label: 'Removed', className: 'text-red-400' },
+  { change: 'resized', label: 'Resized', className: 'text-yellow-500' },
+  { change: 'modified', label: 'Modified', className: 'text-blue-400' },
+];
+
+interface ComparePanelProps {
+  /** Re-reads the origin being explored whenever this changes (e.g. on frame change) */
+  refreshKey: number;
+  /** The storage bucket being explored; the default bucket when undefined */
+  bucket: string | undefined;
+  onClose: () => void;
+  /** Starts tracking a cancellable operation, as the rest of the explorer does */
+  startOperation: (label: string) => { options: OperationOptions; finish: () => void };
+  onToast: (type: 'success' | 'error' | 'info', message: string) => void;
+  /** Formats a byte count for display */
+  formatBytes: (bytes: number) => string;
+}
+
+/** What the tree is compared against: a stored baseline, or a snapshot file */
+type Source = { type: 'baseline'; id: string } | { type: 'snapshot'; fileName: string; snapshot: Snapshot };
+
+interface Comparison {
+  changes: TreeChange[];
+  /** The text of a file as it was, or null where the source didn't keep it */
+  readBefore: (path: string) => Promise<string | null>;
+  /** Whether same-size files were told apart by hash */
+  hashed: boolean;
+  /** Same-size files that were too large to hash, compared by modification time */
+  unhashed: number;
+}
+
+type DiffView = { path: string; lines: DiffLine[] } | { path: string; note: string } | { path: string; loading: true };
+
+/**
+ * Compares the explored bucket against a baseline captured earlier (kept in
+ * the extension) or an exported snapshot, grouping entries as added,
+ * removed, resized or modified, with a line diff of changed text files.
+ */
+export function ComparePanel({ refreshKey, bucket, onClose, startOperation, onToast, formatBytes }: ComparePanelProps) {
+  const items = useSyncExternalStore(baselines.subscribe, baselines.getSnapshot);
+  const [origin, setOrigin] = useState<string | null>(null);
+  const [source, setSource] = useState<Source | null>(null);
+  const [hash, setHash] = useState(false);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [diff, setDiff] = useState<DiffView | null>(null);
+  const snapshotInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    currentOrigin()
+      .then(next => {
+        if (!cancelled) setOrigin(next);
+      })
+      .catch(() => {
+        if (!cancelled) setOrigin(location.origin);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const visible = useMemo(
+    () => (items ?? []).filter(item => item.origin === origin && item.bucket === bucket),
+    [items, origin, bucket]
+  );
+  // The newest baseline until another source is picked
+  const active: Source | null = source?.type === 'snapshot' || visible.some(item => item.id === source?.id)
+    ? source
+    : visible[0] ? { type: 'baseline', id: visible[0].id } : null;
+
+  const handleCapture = async () => {
+    if (!origin) return;
+    const { options, finish } = startOperation('Capturing baseline');
+    try {
+      const item = await baselines.capture({ ...options, origin, hash });
+      setSource({ type: 'baseline', id: item.id });
+      onToast('success', `Baseline captured: ${item.entryCount} entr${item.entryCount === 1 ? 'y' : 'ies'}`);
+    } catch (err) {
+      if (isOpfsError(err, 'AbortError')) {
+        onToast('info', 'Baseline capture cancelled');
+      } else {
+        onToast('error', `Failed to capture a baseline: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    } finally {
+      finish();
+    }
+  };
+
+  const handleSnapshotPicked = async (file: globalThis.File) => {
+    try {
+      setSource({ type: 'snapshot', fileName: file.name, snapshot: await readSnapshot(file) });
+    } catch (err) {
+      onToast('error', `Failed to read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await baselines.remove(id);
+    } catch (err) {
+      onToast('error', `Failed to delete the baseline: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!active) return;
+    const { options, finish } = startOperation('Comparing');
+    setDiff(null);
+    try {
+      let before: SnapshotManifestEntry[];
+      let readBefore: Comparison['readBefore'];
+      let beforeFile: ((path: string) => globalThis.File | undefined) | null = null;
+      if (active.type === 'baseline') {
+        const { manifest, texts } = await baselines.load(active.id);
+        before = manifest.entries;
+        readBefore = async (path) => texts[path] ?? null;
+      } else {
+        const files = new Map(active.snapshot.entries.map(entry => [entry.path, entry.file]));
+        before = active.snapshot.manifest.entries.map(entry => ({ ...entry }));
+        beforeFile = (path) => files.get(path);
+        readBefore = async (path) => {
+          const file = files.get(path);
+          return file && file.size <= MAX_DIFF_BYTES ? decodeText(new Uint8Array(await file.arrayBuffer())) : null;
+        };
+      }
+      const after = await listTree(options);
+
+      // Only same-size files need a hash to tell whether they changed
+      let unhashed = 0;
+      if (hash) {
+        const previous = new Map(before.filter(entry => entry.kind === 'file').map(entry => [entry.path, entry]));
+        const candidates = after.filter(entry => entry.kind === 'file' && previous.get(entry.path)?.size === entry.size);
+        if (beforeFile) {
+          for (const entry of candidates) {
+            const file = beforeFile(entry.path);
+            if (file && file.size <= MAX_HASH_BYTES) previous.get(entry.path)!.hash = await sha256(file);
+          }
+        }
+        const hashable = candidates.filter(entry => previous.get(entry.path)!.hash);
+        const hashes = await opfsApi.hashFiles(hashable.map(entry => entry.path), options);
+        for (const entry of hashable) entry.hash = hashes[entry.path];
+        unhashed = candidates.filter(entry => !entry.hash || !previous.get(entry.path)!.hash).length;
+      }
+      setComparison({ changes: compareListings(before, after), readBefore, hashed: hash, unhashed });
+    } catch (err) {
+      if (isOpfsError(err, 'AbortError')) {
+        onToast('info', 'Comparison cancelled');
+      } else {
+        onToast('error', `Comparison failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    } finally {
+      finish();
+    }
+  };
+
+  const openDiff = async (change: TreeChange) => {
+    if (!comparison) return;
+    const { path } = change;
+    setDiff({ path, loading: true });
+    try {
+      const before = await comparison.readBefore(path);
+      const range = await opfsApi.readRange(path, 0, MAX_DIFF_BYTES + 1, { bucket });
+      const after = range.size > MAX_DIFF_BYTES ? null : decodeText(base64ToBytes(range.content));
+      if (after === null) {
+        setDiff({ path, note: range.size > MAX_DIFF_BYTES ? 'Too large to diff.' : "It's a binary file; there's no text to diff." });
+      } else if (before === null) {
+        setDiff({ path, note: "The baseline didn't keep this file's text (binary, or too large), so there's nothing to diff against." });
+      } else {
+        const lines = diffLines(before, after);
+        setDiff(lines ? { path, lines } : { path, note: 'Too many lines changed to show a diff.' });
+      }
+    } catch (err) {
+      setDiff({ path, note: `Failed to read the file: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  };
+
+  const toolButton = 'flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-dt-hover hover:text-dt-text disabled:opacity-40 disabled:hover:bg-transparent transition-colors';
+
+  const describe = (change: TreeChange) => {
+    if (change.kind === 'directory') return '';
+    const { before, after } = change;
+    switch (change.change) {
+      case 'added':
+        return formatBytes(after?.size ?? 0);
+      case 'removed':
+        return formatBytes(before?.size ?? 0);
+      case 'resized':
+        return `${formatBytes(before?.size ?? 0)} → ${formatBytes(after?.size ?? 0)}`;
+      case 'modified':
+        return comparison?.hashed && after?.hash ? 'contents changed' : `modified ${after?.lastModified ? new Date(after.lastModified).toLocaleString() : ''}`;
+    }
+  };
+
+  return (
+    <section className="h-64 border-t border-dt-border bg-dt-bg flex flex-col shrink-0" aria-label="Compare">
+      <div className="flex items-center gap-2 px-2 py-1 border-b border-dt-border bg-dt-surface text-[10px] text-dt-text-secondary shrink-0">
+        <span className="font-medium text-dt-text">Compare</span>
+        <label className="flex items-center gap-1 min-w-0">
+          <span className="shrink-0">with</span>
+          <select
+            value={active?.type === 'snapshot' ? 'snapshot' : active?.id ?? ''}
+            onChange={(e) => setSource(e.target.value === 'snapshot' ? source : { type: 'baseline', id: e.target.value })}
+            className="bg-dt-bg border border-dt-border rounded px-1 py-0.5 text-dt-text min-w-0 max-w-[16rem]"
+            aria-label="Baseline to compare with"
+          >
+            {!active && <option value="">No baseline yet</option>}
+            {source?.type === 'snapshot' && <option value="snapshot">{source.fileName}</option>}
+            {visible.map(item => (
+              <option key={item.id} value={item.id}>
+                Baseline {new Date(item.takenAt).toLocaleString()} · {item.entryCount} entries{item.hashed ? ' · hashed' : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+        {active?.type === 'baseline' && (
+          <button onClick={() => handleRemove(active.id)} className={toolButton} aria-label="Delete this baseline" title="Delete this baseline">
+            <Trash2 size={11} aria-hidden="true" />
+          </button>
+        )}
+        <label className="flex items-center gap-1 cursor-pointer" title="Hash file contents, so same-size files are compared by content rather than modification time (reads every file up to 64 MB; larger ones are compared by modification time)">
+          <input type="checkbox" checked={hash} onChange={(e) => setHash(e.target.checked)} />
+          Hash contents
+        </label>
+        <div className="ml-auto flex items-center gap-1">
+          <button onClick={handleCapture} disabled={!origin} className={toolButton} title="Keep a listing of the tree as it is now, to compare against later">
+            <Camera size={11} aria-hidden="true" /> Capture baseline
+          </button>
+          <button onClick={() => snapshotInputRef.current?.click()} className={toolButton} title="Compare against an exported snapshot file">
+            <FileUp size={11} aria-hidden="true" /> Load snapshot…
+          </button>
+          <input
+            ref={snapshotInputRef}
+            type="file"
+            accept=".zip"
+            className="hidden"
+            tabIndex={-1}
+            aria-hidden="true"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleSnapshotPicked(file);
+            }}
+          />
+          <button onClick={handleCompare} disabled={!active} className={toolButton}>
+            <GitCompare size={11} aria-hidden="true" /> Compare
+          </button>
+          <button onClick={onClose} className={toolButton} aria-label="Close compare">
+            <X size={11} aria-hidden="true" />
+          </button>
+        </div>
+      </div>
+
+      {!comparison ? (
+        <div className="flex-1 flex items-center justify-center text-[10px] text-dt-text-secondary px-4 text-center" role="status">
+          {active
+            ? 'Compare the tree as it is now with the selected baseline.'
+            : 'Capture a baseline before your app runs (e.g. a migration), or load an exported snapshot, then compare.'}
+        </div>
+      ) : (
+        <div className="flex-1 flex min-h-0">
+          <div className={`overflow-auto text-[10px] text-dt-text ${diff ? 'w-1/2 border-r border-dt-border' : 'flex-1'}`}>
+            {comparison.unhashed > 0 && (
+              <div className="px-2 py-0.5 text-dt-text-secondary border-b border-dt-border" role="note">
+                {comparison.unhashed} file{comparison.unhashed === 1 ? ' was' : 's were'} not hashed (over {formatBytes(MAX_HASH_BYTES)}, or without a hash in the baseline) and
+                {comparison.unhashed === 1 ? ' was' : ' were'} compared by size and modification time.
+              </div>
+            )}
+            {comparison.changes.length === 0 && (
+              <div className="p-2 text-dt-text-secondary" role="status">No differences.</div>
+            )}
+            {GROUPS.map(group => {
+              const changes = comparison.changes.filter(change => change.change === group.change);
+              if (changes.length === 0) return null;
+              return (
+                <div key={group.change}>
+                  <div className={`sticky top-0 bg-dt-surface px-2 py-0.5 font-medium ${group.className}`}>
+                    {group.label} ({changes.length})
+                  </div>
+                  <ul>
+                    {changes.map(change => {
+                      const diffable = change.kind === 'file' && (change.change === 'resized' || change.change === 'modified');
+                      return (
+                        <li key={`${change.kind}:${change.path}`}>
+                          <button
+                            onClick={() => diffable && openDiff(change)}
+                            disabled={!diffable}
+                            className={`w-full flex items-center gap-1.5 px-2 py-0.5 text-left ${diffable ? 'hover:bg-dt-hover' : 'cursor-default'} ${diff?.path === change.path ? 'bg-dt-hover' : ''}`}
+                            title={diffable ? `Show what changed in /${change.path}` : `/${change.path}`}
+                          >
+                            {change.kind === 'directory'
+                              ? <Folder size={11} className="shrink-0 text-blue-400" aria-label="Folder" />
+                              : <File size={11} className="shrink-0 text-gray-400" aria-label="File" />}
+                            <span className="truncate">/{change.path}</span>
+                            <span className="ml-auto shrink-0 pl-2 text-dt-text-secondary tabular-nums">{describe(change)}</span>
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+
+          {diff && (
+            <div className="w-1/2 flex flex-col min-w-0">
+              <div className="flex items-center gap-2 px-2 py-0.5 border-b border-dt-border text-[10px] text-dt-text-secondary shrink-0">
+                <span className="truncate" title={`/${diff.path}`}>/{diff.path}</span>
+                <button onClick={() => setDiff(null)} className={`${toolButton} ml-auto`} aria-label="Close diff">
+                  <X size={11} aria-hidden="true" />
+                </button>
+              </div>
+              {'lines' in diff ? (
+                <pre className="flex-1 overflow-auto text-[10px] font-mono leading-4" aria-label={`Changes in ${diff.path}`}>
+                  {diff.lines.map((line, i) => (
+                    <div
+                      key={i}
+                      className={line.type === 'added' ? 'bg-green-500/15 text-green-400' : line.type === 'removed' ? 'bg-red-500/15 text-red-400' : 'text-dt-text-secondary'}
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                    </div>
+                  ))}
+                </pre>
+              ) : (
+                <div className="flex-1 p-2 text-[10px] text-dt-text-secondary" role="status">
+                  {'loading' in diff ? 'Loading…' : diff.note}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
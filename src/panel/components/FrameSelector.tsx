@@ -0,0 +1,83 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { Globe } from 'lucide-react';
+import { listFrames, type InspectedFrame } from '../api';
+import { getTargetFrame, setTargetFrame, subscribeTargetFrame } from '../frames';
+
+interface FrameSelectorProps {
+  /** Re-lists the frames whenever this changes (e.g. on refresh) */
+  refreshKey: number;
+  /** Called after the target frame changed, to reload the tree */
+  onFrameChange: () => void;
+}
+
+function describeFrame(frame: InspectedFrame): string {
+  if (frame.isTop) return `${frame.origin} (top)`;
+  try {
+    const { pathname } = new URL(frame.url);
+    return pathname && pathname !== '/' ? `${frame.origin} — ${pathname}` : frame.origin;
+  } catch {
+    return frame.origin;
+  }
+}
+
+/**
+ * Shows the origin being explored and, when the inspected page embeds
+ * iframes, lets the user switch to one of them — each origin has its own OPFS.
+ */
+export function FrameSelector({ refreshKey, onFrameChange }: FrameSelectorProps) {
+  const targetFrame = useSyncExternalStore(subscribeTargetFrame, getTargetFrame);
+  const [frames, setFrames] = useState<InspectedFrame[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listFrames()
+      .then(list => {
+        if (cancelled) return;
+        setFrames(list);
+        // The selected iframe went away (e.g. the page navigated)
+        if (getTargetFrame() && list.length > 0 && !list.some(frame => frame.url === getTargetFrame())) {
+          setTargetFrame(null);
+          onFrameChange();
+        }
+      })
+      .catch(() => {
+        // Listing frames is nice-to-have; keep whatever we had
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, onFrameChange]);
+
+  if (frames.length === 0) return null;
+
+  const current = frames.find(frame => (targetFrame ? frame.url === targetFrame : frame.isTop)) ?? frames[0];
+
+  return (
+    <div className="flex items-center gap-1.5 px-2 py-1 border-b border-dt-border text-[10px] text-dt-text-secondary">
+      <Globe size={11} className="shrink-0" aria-hidden="true" />
+      {frames.length > 1 ? (
+        <select
+          value={current.url}
+          onChange={(e) => {
+            const frame = frames.find(f => f.url === e.target.value);
+            setTargetFrame(frame && !frame.isTop ? frame.url : null);
+            onFrameChange();
+          }}
+          className="flex-1 min-w-0 bg-dt-bg border border-dt-border rounded px-1 py-0.5 text-[10px] text-dt-text focus:border-[var(--dt-focus)] focus:outline-none"
+          aria-label="Frame to explore"
+          title={current.url}
+        >
+          {frames.map(frame => (
+            <option key={frame.url} value={frame.url} title={frame.url}>
+              {describeFrame(frame)}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <span className="truncate" title={current.url} aria-label={`Exploring ${current.origin}`}>
+          {current.origin}
+        </span>
+      )}
+    </div>
+  );
+}
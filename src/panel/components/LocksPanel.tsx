@@ -0,0 +1,129 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, KeyRound, FileSearch } from 'lucide-react';
+import { opfsApi, type WebLockInfo, type WebLocksSnapshot } from '../api';
+import { correlateLockName } from '../webLocks';
+
+/** How often the lock list is re-queried while the panel is open */
+const POLL_INTERVAL_MS = 2000;
+
+interface LocksPanelProps {
+  /** Re-reads the tree's paths for matching whenever this changes (e.g. on refresh) */
+  refreshKey: number;
+  /** Storage bucket shown in the tree; lock names are matched against its paths */
+  bucket: string | undefined;
+  /** Selects a path in the tree */
+  onRevealPath: (path: string) => void;
+}
+
+/**
+ * Lists the Web Locks (`navigator.locks`) held and waited for by the
+ * inspected page and its workers, refreshed live while open. Locks named
+ * after a file in OPFS link to it — the usual reason a file can't be written.
+ */
+export function LocksPanel({ refreshKey, bucket, onRevealPath }: LocksPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [snapshot, setSnapshot] = useState<WebLocksSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [paths, setPaths] = useState<ReadonlySet<string>>(new Set());
+
+  useEffect(() => {
+    if (!expanded) return;
+    let cancelled = false;
+    const query = () => {
+      opfsApi.queryLocks()
+        .then(result => {
+          if (cancelled) return;
+          setSnapshot(result);
+          setError(null);
+        })
+        .catch(err => {
+          if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+        });
+    };
+    query();
+    const timer = setInterval(query, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [expanded]);
+
+  useEffect(() => {
+    if (!expanded) return;
+    const controller = new AbortController();
+    opfsApi.walk('', { bucket, signal: controller.signal })
+      .then(({ entries }) => setPaths(new Set(entries.map(entry => entry.path))))
+      .catch(() => {
+        // Without paths, locks are still listed, just not linked to files
+      });
+    return () => controller.abort();
+  }, [expanded, bucket, refreshKey]);
+
+  const count = snapshot ? snapshot.held.length + snapshot.pending.length : 0;
+
+  return (
+    <div className="border-t border-dt-border text-[10px] text-dt-text-secondary" role="group" aria-label="Web Locks">
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        className="w-full flex items-center gap-1 px-2 py-1 hover:bg-dt-hover hover:text-dt-text transition-colors"
+        aria-expanded={expanded}
+      >
+        {expanded ? <ChevronDown size={10} aria-hidden="true" /> : <ChevronRight size={10} aria-hidden="true" />}
+        <KeyRound size={10} aria-hidden="true" />
+        <span>Web Locks</span>
+        {expanded && snapshot && <span className="ml-auto tabular-nums">{count}</span>}
+      </button>
+      {expanded && (
+        <div className="max-h-40 overflow-y-auto px-1 pb-1">
+          {error ? (
+            <div className="px-1 py-0.5 text-red-400" role="alert">{error}</div>
+          ) : !snapshot ? (
+            <div className="px-1 py-0.5 italic" role="status">Loading...</div>
+          ) : count === 0 ? (
+            <div className="px-1 py-0.5 italic" role="status">No locks held or requested</div>
+          ) : (
+            <>
+              <LockList title="Held" locks={snapshot.held} paths={paths} onRevealPath={onRevealPath} />
+              <LockList title="Pending" locks={snapshot.pending} paths={paths} onRevealPath={onRevealPath} />
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LockList({ title, locks, paths, onRevealPath }: {
+  title: string;
+  locks: WebLockInfo[];
+  paths: ReadonlySet<string>;
+  onRevealPath: (path: string) => void;
+}) {
+  const rows = useMemo(() => locks.map(lock => ({ lock, path: correlateLockName(lock.name, paths) })), [locks, paths]);
+  if (rows.length === 0) return null;
+
+  return (
+    <div>
+      <div className="px-1 pt-1 uppercase tracking-wide opacity-70">{title} ({rows.length})</div>
+      <ul aria-label={`${title} locks`}>
+        {rows.map(({ lock, path }, index) => (
+          <li key={`${lock.name}#${lock.clientId}#${index}`} className="flex items-center gap-1.5 px-1 py-0.5 rounded hover:bg-dt-hover">
+            <span className="truncate flex-1 text-dt-text" title={lock.name}>{lock.name || '(unnamed)'}</span>
+            <span className={lock.mode === 'exclusive' ? 'text-yellow-500' : 'text-blue-400'}>{lock.mode}</span>
+            <span className="max-w-16 truncate opacity-70" title={`Client ${lock.clientId}`}>{lock.clientId.slice(0, 8)}</span>
+            {path && (
+              <button
+                onClick={() => onRevealPath(path)}
+                className="shrink-0 hover:text-dt-text transition-colors"
+                title={`Show ${path} in the tree`}
+                aria-label={`Show ${path} in the tree`}
+              >
+                <FileSearch size={10} aria-hidden="true" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
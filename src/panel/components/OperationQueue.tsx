@@ -0,0 +1,61 @@
+import { useState, useSyncExternalStore } from 'react';
+import { Loader2, Clock } from 'lucide-react';
+import { mutationQueue } from '../api';
+
+const OPERATION_LABELS: Record<string, string> = {
+  write: 'Write',
+  rename: 'Rename',
+  move: 'Move',
+  copy: 'Copy',
+  create: 'Create',
+  delete: 'Delete',
+  batch: 'Batch',
+};
+
+/**
+ * Status bar indicator for OPFS mutations that are running or waiting for
+ * an overlapping one to finish. Click to list them.
+ */
+export function OperationQueue() {
+  const mutations = useSyncExternalStore(mutationQueue.subscribe, mutationQueue.getSnapshot);
+  const [expanded, setExpanded] = useState(false);
+
+  if (mutations.length === 0) return null;
+
+  const running = mutations.filter(m => m.state === 'running').length;
+  const queued = mutations.length - running;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        className="hover:text-dt-text flex items-center gap-1 transition-colors"
+        aria-expanded={expanded}
+        aria-label={`${running} operation${running === 1 ? '' : 's'} running, ${queued} queued`}
+      >
+        <Loader2 size={10} className="animate-spin" aria-hidden="true" />
+        <span>{running} running{queued > 0 && ` · ${queued} queued`}</span>
+      </button>
+      {expanded && (
+        <ul
+          className="absolute bottom-5 right-0 z-[150] w-72 max-h-60 overflow-y-auto bg-dt-surface border border-dt-border shadow-lg rounded p-1"
+          aria-label="Pending operations"
+        >
+          {mutations.map(mutation => (
+            <li key={mutation.id} className="flex items-center gap-1.5 px-1.5 py-1 text-[10px]">
+              {mutation.state === 'running'
+                ? <Loader2 size={10} className="animate-spin text-blue-400 shrink-0" aria-hidden="true" />
+                : <Clock size={10} className="text-dt-text-secondary shrink-0" aria-hidden="true" />}
+              <span className="text-dt-text shrink-0">{OPERATION_LABELS[mutation.operation] ?? mutation.operation}</span>
+              <span className="truncate flex-1" title={mutation.paths.join(' → ')}>
+                {mutation.bucket && <span className="opacity-70">{mutation.bucket}: </span>}
+                {mutation.paths.map(p => p || '/').join(' → ')}
+              </span>
+              <span className="shrink-0 opacity-70">{mutation.state === 'running' ? 'running' : 'queued'}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Download, FileText, Binary, AlertCircle } from 'lucide-react';
+import { opfsApi } from '../api';
+import {
+  base64ToBytes, decodeTextPage, textPageRange, toHexRows,
+  TEXT_PAGE_SIZE, HEX_PAGE_SIZE, type HexRow,
+} from '../paging';
+
+export type PagedViewMode = 'text' | 'hex';
+
+interface PagedFileViewerProps {
+  path: string;
+  /** Size of the file in bytes */
+  size: number;
+  /** Storage bucket the file lives in; the default bucket when omitted */
+  bucket?: string;
+  initialMode: PagedViewMode;
+  onDownload: () => void;
+  /** Formats a byte count for display */
+  formatBytes: (bytes: number) => string;
+}
+
+interface LoadedPage {
+  /** Identifies the request this page answers */
+  key: string;
+  text?: string;
+  rows?: HexRow[];
+  truncated?: boolean;
+  error?: string;
+}
+
+/**
+ * Read-only viewer for files too large to load at once. Pages through the
+ * file with `opfsApi.readRange`, as lines of text or as a hex dump, fetching
+ * only the page on screen.
+ */
+export function PagedFileViewer({ path, size, bucket, initialMode, onDownload, formatBytes }: PagedFileViewerProps) {
+  const [mode, setMode] = useState<PagedViewMode>(initialMode);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [page, setPage] = useState<LoadedPage | null>(null);
+  const [pageInput, setPageInput] = useState('1');
+
+  const pageSize = mode === 'text' ? TEXT_PAGE_SIZE : HEX_PAGE_SIZE;
+  const pageCount = Math.max(1, Math.ceil(size / pageSize));
+  const start = pageIndex * pageSize;
+  const key = `${bucket ?? ''}:${path}:${mode}:${pageIndex}`;
+  const loading = page?.key !== key;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const range = mode === 'text' ? textPageRange(start) : { offset: start, length: HEX_PAGE_SIZE };
+    opfsApi.readRange(path, range.offset, range.length, { bucket, signal: controller.signal })
+      .then(result => {
+        const bytes = base64ToBytes(result.content);
+        if (mode === 'text') {
+          const { text, truncated } = decodeTextPage(bytes, result.offset, start, result.size);
+          setPage({ key, text, truncated });
+        } else {
+          setPage({ key, rows: toHexRows(bytes, result.offset) });
+        }
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setPage({ key, error: err instanceof Error ? err.message : String(err) });
+        }
+      });
+    return () => controller.abort();
+  }, [path, bucket, mode, start, key]);
+
+  const goTo = (index: number) => {
+    const next = Math.min(pageCount - 1, Math.max(0, index));
+    setPageIndex(next);
+    setPageInput(String(next + 1));
+  };
+
+  const switchMode = (next: PagedViewMode) => {
+    if (next === mode) return;
+    // Stay at roughly the same place in the file
+    const nextPageSize = next === 'text' ? TEXT_PAGE_SIZE : HEX_PAGE_SIZE;
+    const index = Math.floor(start / nextPageSize);
+    setMode(next);
+    setPageIndex(index);
+    setPageInput(String(index + 1));
+  };
+
+  const navButton = 'p-1 rounded text-dt-text-secondary hover:bg-dt-hover hover:text-dt-text disabled:opacity-30 disabled:hover:bg-transparent transition-colors';
+  const modeButton = (active: boolean) =>
+    `flex items-center gap-1 px-2 py-0.5 rounded text-[10px] transition-colors ${
+      active ? 'bg-dt-selection text-dt-selection-text' : 'text-dt-text-secondary hover:bg-dt-hover'
+    }`;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-2 px-3 py-1 border-b border-dt-border bg-dt-surface text-[10px] text-dt-text-secondary shrink-0" role="toolbar" aria-label="Page navigation">
+        <div className="flex items-center gap-0.5" role="group" aria-label="View as">
+          <button onClick={() => switchMode('text')} className={modeButton(mode === 'text')} aria-pressed={mode === 'text'}>
+            <FileText size={11} aria-hidden="true" /> Text
+          </button>
+          <button onClick={() => switchMode('hex')} className={modeButton(mode === 'hex')} aria-pressed={mode === 'hex'}>
+            <Binary size={11} aria-hidden="true" /> Hex
+          </button>
+        </div>
+        <div className="flex items-center gap-0.5">
+          <button onClick={() => goTo(0)} disabled={pageIndex === 0} className={navButton} aria-label="First page" title="First page">
+            <ChevronsLeft size={12} aria-hidden="true" />
+          </button>
+          <button onClick={() => goTo(pageIndex - 1)} disabled={pageIndex === 0} className={navButton} aria-label="Previous page" title="Previous page">
+            <ChevronLeft size={12} aria-hidden="true" />
+          </button>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              const value = parseInt(pageInput, 10);
+              if (Number.isFinite(value)) goTo(value - 1);
+              else setPageInput(String(pageIndex + 1));
+            }}
+            className="flex items-center gap-1"
+          >
+            <input
+              value={pageInput}
+              onChange={(e) => setPageInput(e.target.value)}
+              onBlur={() => setPageInput(String(pageIndex + 1))}
+              className="w-12 bg-dt-bg border border-dt-border rounded px-1 py-0.5 text-center text-dt-text focus:border-[var(--dt-focus)] focus:outline-none"
+              aria-label="Page number"
+              inputMode="numeric"
+            />
+            <span>of {pageCount}</span>
+          </form>
+          <button onClick={() => goTo(pageIndex + 1)} disabled={pageIndex >= pageCount - 1} className={navButton} aria-label="Next page" title="Next page">
+            <ChevronRight size={12} aria-hidden="true" />
+          </button>
+          <button onClick={() => goTo(pageCount - 1)} disabled={pageIndex >= pageCount - 1} className={navButton} aria-label="Last page" title="Last page">
+            <ChevronsRight size={12} aria-hidden="true" />
+          </button>
+        </div>
+        <span className="truncate">
+          {formatBytes(start)}–{formatBytes(Math.min(size, start + pageSize))} of {formatBytes(size)}
+        </span>
+        <button onClick={onDownload} className="ml-auto flex items-center gap-1 px-2 py-0.5 rounded hover:bg-dt-hover hover:text-dt-text transition-colors">
+          <Download size={11} aria-hidden="true" /> Download
+        </button>
+      </div>
+
+      {page?.error && page.key === key ? (
+        <div className="flex items-center gap-2 p-4 text-xs text-red-400" role="alert">
+          <AlertCircle size={14} aria-hidden="true" />
+          {page.error}
+        </div>
+      ) : (
+        <pre
+          className={`flex-1 overflow-auto p-3 font-mono text-[11px] leading-4 text-dt-text whitespace-pre ${loading ? 'opacity-50' : ''}`}
+          aria-busy={loading}
+          aria-label={`Page ${pageIndex + 1} of ${pageCount}`}
+        >
+          {mode === 'text'
+            ? page?.text
+            : page?.rows?.map(row => (
+                <div key={row.offset}>
+                  <span className="text-dt-text-secondary select-none">{row.offset}  </span>
+                  {row.hex.padEnd(47, ' ')}
+                  <span className="text-dt-text-secondary">  {row.ascii}</span>
+                </div>
+              ))}
+        </pre>
+      )}
+      {mode === 'text' && page?.truncated && page.key === key && (
+        <div className="px-3 py-1 border-t border-dt-border text-[10px] text-yellow-500 shrink-0">
+          A very long line continues past this page.
+        </div>
+      )}
+    </div>
+  );
+}
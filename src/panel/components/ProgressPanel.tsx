@@ -0,0 +1,65 @@
+import { X } from 'lucide-react';
+import type { OperationProgress } from '../api';
+
+export interface ActiveOperation {
+  label: string;
+  progress: OperationProgress | null;
+}
+
+interface ProgressPanelProps {
+  operation: ActiveOperation;
+  /** Formats a byte count for display */
+  formatBytes: (bytes: number) => string;
+  onCancel: () => void;
+}
+
+function describeProgress({ unit, done, total }: OperationProgress, formatBytes: (bytes: number) => string): string {
+  if (unit === 'bytes') {
+    return total > 0 ? `${formatBytes(done)} of ${formatBytes(total)}` : formatBytes(done);
+  }
+  const noun = (total || done) === 1 ? 'item' : 'items';
+  return total > 0 ? `${done} of ${total} ${noun}` : `${done} ${noun}`;
+}
+
+export function ProgressPanel({ operation, formatBytes, onCancel }: ProgressPanelProps) {
+  const { label, progress } = operation;
+  const percent = progress && progress.total > 0
+    ? Math.min(100, Math.round((progress.done / progress.total) * 100))
+    : null;
+
+  return (
+    <div
+      className="fixed bottom-8 left-4 z-[200] w-72 bg-dt-surface border border-dt-border shadow-lg rounded-lg p-2.5 toast-enter"
+      role="status"
+      aria-live="polite"
+    >
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="text-xs text-dt-text truncate" title={label}>{label}</span>
+        <button
+          onClick={onCancel}
+          className="ml-2 flex items-center px-1.5 py-0.5 rounded text-[10px] text-dt-text-secondary hover:text-dt-text hover:bg-dt-hover transition-colors shrink-0"
+          aria-label={`Cancel: ${label}`}
+        >
+          <X size={12} className="mr-0.5" aria-hidden="true" />
+          Cancel
+        </button>
+      </div>
+      <div
+        className="h-1 bg-dt-border rounded-full overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent ?? undefined}
+        aria-label={label}
+      >
+        <div
+          className={`h-full bg-blue-500 transition-all ${percent === null ? 'w-1/3 animate-pulse' : ''}`}
+          style={percent === null ? undefined : { width: `${percent}%` }}
+        />
+      </div>
+      {progress && (
+        <div className="mt-1 text-[10px] text-dt-text-secondary">{describeProgress(progress, formatBytes)}</div>
+      )}
+    </div>
+  );
+}
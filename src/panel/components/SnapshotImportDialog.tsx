@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import type { Snapshot } from '../snapshots';
+
+export type SnapshotImportMode = 'merge' | 'replace';
+
+interface SnapshotImportDialogProps {
+  snapshot: Snapshot;
+  /** Name of the picked archive */
+  fileName: string;
+  /** The origin being explored, which the snapshot is imported into */
+  origin: string;
+  /** The storage bucket it's imported into; the default bucket when undefined */
+  bucket: string | undefined;
+  onImport: (mode: SnapshotImportMode) => void;
+  onCancel: () => void;
+  /** Formats a byte count for display */
+  formatBytes: (bytes: number) => string;
+}
+
+/**
+ * Describes a picked snapshot — where and when it was taken, what's in it —
+ * and asks whether to merge it into the explored OPFS or replace everything.
+ */
+export function SnapshotImportDialog({ snapshot, fileName, origin, bucket, onImport, onCancel, formatBytes }: SnapshotImportDialogProps) {
+  const [mode, setMode] = useState<SnapshotImportMode>('merge');
+  const { manifest } = snapshot;
+  const files = manifest.entries.filter(entry => entry.kind === 'file');
+  const folders = manifest.entries.length - files.length;
+  const size = files.reduce((total, entry) => total + (entry.size ?? 0), 0);
+  const into = bucket ? `the "${bucket}" bucket` : 'the default bucket';
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onCancel]);
+
+  const option = (value: SnapshotImportMode, label: string, description: string) => (
+    <label className="flex items-start gap-2 p-2 rounded border border-dt-border hover:bg-dt-hover cursor-pointer">
+      <input
+        type="radio"
+        name="snapshot-import-mode"
+        className="mt-0.5"
+        checked={mode === value}
+        onChange={() => setMode(value)}
+      />
+      <span>
+        <span className="block text-dt-text">{label}</span>
+        <span className="block text-dt-text-secondary">{description}</span>
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-[1px]">
+      <div
+        className="bg-dt-surface border border-dt-border shadow-xl rounded-lg w-[400px] overflow-hidden modal-content-enter"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="snapshot-import-title"
+      >
+        <div className="flex items-center justify-between px-4 py-2 border-b border-dt-border bg-dt-bg">
+          <h3 id="snapshot-import-title" className="font-semibold text-dt-text text-sm">Import Snapshot</h3>
+        </div>
+        <div className="p-4 space-y-3 text-xs">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+            <dt className="text-dt-text-secondary">File</dt>
+            <dd className="text-dt-text truncate" title={fileName}>{fileName}</dd>
+            <dt className="text-dt-text-secondary">Exported from</dt>
+            <dd className="text-dt-text truncate" title={manifest.origin}>
+              {manifest.origin}{manifest.bucket && <span className="text-dt-text-secondary"> ({manifest.bucket} bucket)</span>}
+            </dd>
+            <dt className="text-dt-text-secondary">Taken</dt>
+            <dd className="text-dt-text">{new Date(manifest.exportedAt).toLocaleString()}</dd>
+            <dt className="text-dt-text-secondary">Contents</dt>
+            <dd className="text-dt-text">
+              {files.length} file{files.length === 1 ? '' : 's'}, {folders} folder{folders === 1 ? '' : 's'} · {formatBytes(size)}
+            </dd>
+          </dl>
+
+          {manifest.origin !== origin && (
+            <p className="flex items-start gap-1.5 text-yellow-500">
+              <AlertCircle size={12} className="shrink-0 mt-0.5" aria-hidden="true" />
+              <span>It's imported into {origin}, a different origin.</span>
+            </p>
+          )}
+
+          <fieldset className="space-y-1.5">
+            <legend className="sr-only">How to import</legend>
+            {option('merge', 'Merge', `Add the snapshot's files to ${into}; you're asked about each file that already exists.`)}
+            {option('replace', 'Replace everything', `Permanently delete everything in ${into} first (the Trash isn't used), then restore the snapshot.`)}
+          </fieldset>
+        </div>
+
+        <div className="flex justify-end px-4 py-2 space-x-2 bg-dt-bg border-t border-dt-border">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 rounded text-xs text-dt-text border border-dt-border hover:bg-dt-hover transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(mode)}
+            className={`px-3 py-1.5 rounded text-xs text-white transition-colors ${
+              mode === 'replace' ? 'bg-red-600 hover:bg-red-500' : 'bg-blue-600 hover:bg-blue-500'
+            }`}
+          >
+            {mode === 'replace' ? 'Replace and Import' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
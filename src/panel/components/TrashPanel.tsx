@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { File, Folder, RotateCcw, Trash2, X } from 'lucide-react';
+import { currentOrigin } from '../api';
+import { trash, DEFAULT_TRASH_CAPACITY, type TrashItem } from '../trash';
+
+interface TrashPanelProps {
+  /** Re-reads the origin being explored whenever this changes (e.g. on frame change) */
+  refreshKey: number;
+  onClose: () => void;
+  onRestore: (item: TrashItem) => void;
+  /** Drops an item from the Trash for good */
+  onRemove: (item: TrashItem) => void;
+  /** Drops every item of the origin */
+  onEmpty: (origin: string, count: number) => void;
+  /** Formats a byte count for display */
+  formatBytes: (bytes: number) => string;
+}
+
+/**
+ * Entries deleted from the explored origin's OPFS, newest first, with their
+ * original paths — restore them to where they were, or drop them for good.
+ */
+export function TrashPanel({ refreshKey, onClose, onRestore, onRemove, onEmpty, formatBytes }: TrashPanelProps) {
+  const items = useSyncExternalStore(trash.subscribe, trash.getSnapshot);
+  const [origin, setOrigin] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    currentOrigin()
+      .then(next => {
+        if (!cancelled) setOrigin(next);
+      })
+      .catch(() => {
+        if (!cancelled) setOrigin(location.origin);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const visible = useMemo(() => (items ?? []).filter(item => item.origin === origin), [items, origin]);
+  const used = visible.reduce((total, item) => total + item.size, 0);
+
+  const toolButton = 'flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-dt-hover hover:text-dt-text disabled:opacity-40 disabled:hover:bg-transparent transition-colors';
+
+  return (
+    <section className="h-48 border-t border-dt-border bg-dt-bg flex flex-col shrink-0" aria-label="Trash">
+      <div className="flex items-center gap-2 px-2 py-1 border-b border-dt-border bg-dt-surface text-[10px] text-dt-text-secondary shrink-0">
+        <span className="font-medium text-dt-text">Trash</span>
+        {origin && <span className="truncate" title={origin}>{origin}</span>}
+        <span title="This origin's oldest items are dropped when its share of the Trash is full">
+          {formatBytes(used)} of {formatBytes(DEFAULT_TRASH_CAPACITY)} used
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => origin && onEmpty(origin, visible.length)}
+            disabled={visible.length === 0}
+            className={toolButton}
+            title="Permanently delete everything in the Trash for this origin"
+          >
+            <Trash2 size={11} aria-hidden="true" /> Empty
+          </button>
+          <button onClick={onClose} className={toolButton} aria-label="Close trash">
+            <X size={11} aria-hidden="true" />
+          </button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-[10px] text-dt-text-secondary" role="status">
+          {items === null || origin === null ? 'Loading...' : 'The Trash is empty'}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-[10px] text-dt-text">
+            <thead className="sticky top-0 bg-dt-surface text-dt-text-secondary text-left">
+              <tr>
+                <th className="px-2 py-0.5 font-normal">Name</th>
+                <th className="px-2 py-0.5 font-normal">Original location</th>
+                <th className="px-2 py-0.5 font-normal">Deleted</th>
+                <th className="px-2 py-0.5 font-normal text-right">Size</th>
+                <th className="px-2 py-0.5 font-normal"><span className="sr-only">Actions</span></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(item => {
+                const name = item.path.split('/').pop();
+                return (
+                  <tr key={item.id} className="border-t border-dt-border/50 hover:bg-dt-hover">
+                    <td className="px-2 py-0.5 max-w-[12rem]">
+                      <span className="flex items-center gap-1.5 truncate" title={name}>
+                        {item.kind === 'directory'
+                          ? <Folder size={11} className="shrink-0 text-blue-400" aria-label="Folder" />
+                          : <File size={11} className="shrink-0 text-gray-400" aria-label="File" />}
+                        <span className="truncate">{name}</span>
+                      </span>
+                    </td>
+                    <td className="px-2 py-0.5 max-w-xs truncate text-dt-text-secondary" title={item.path}>
+                      {item.bucket && <span className="opacity-70">{item.bucket}: </span>}
+                      /{item.path}
+                    </td>
+                    <td className="px-2 py-0.5 whitespace-nowrap tabular-nums text-dt-text-secondary">
+                      {new Date(item.deletedAt).toLocaleString()}
+                    </td>
+                    <td className="px-2 py-0.5 whitespace-nowrap tabular-nums text-right">
+                      {formatBytes(item.size)}
+                      {item.kind === 'directory' && (
+                        <span className="text-dt-text-secondary"> · {item.entryCount} item{item.entryCount === 1 ? '' : 's'}</span>
+                      )}
+                    </td>
+                    <td className="px-2 py-0.5 whitespace-nowrap">
+                      <div className="flex items-center justify-end gap-1">
+                        <button onClick={() => onRestore(item)} className={toolButton} title={`Restore to /${item.path}`}>
+                          <RotateCcw size={11} aria-hidden="true" /> Restore
+                        </button>
+                        <button
+                          onClick={() => onRemove(item)}
+                          className={toolButton}
+                          aria-label={`Permanently delete ${name}`}
+                          title="Delete permanently"
+                        >
+                          <X size={11} aria-hidden="true" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
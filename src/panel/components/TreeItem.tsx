@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { ChevronRight, ChevronDown, Folder, FileJson, FileCode, FileText, Image, File, FileType, Database } from 'lucide-react';
-import { opfsApi } from '../api';
+import { ChevronRight, ChevronDown, Folder, FileJson, FileCode, FileText, Image, File, FileType, Database, Lock } from 'lucide-react';
+import { opfsApi, isOpfsError } from '../api';
 import type { FileEntry } from '../api';
 
 // Helper to format file sizes compactly
@@ -22,9 +22,19 @@ interface TreeItemProps {
   onDrop?: (e: React.DragEvent, targetEntry: FileEntry) => void;
   onDragStart?: (e: React.DragEvent, entry: FileEntry) => void;
   refreshTrigger?: number;
+  /** Storage bucket the entry lives in; the default bucket when omitted */
+  bucket?: string;
   expandedPaths: Set<string>;
   onToggleExpand: (path: string) => void;
   onFocusPath?: (path: string) => void;
+  /** Directory listings fetched ahead of time (e.g. by "Expand All"), by path */
+  prefetched?: Map<string, FileEntry[]>;
+  /** Show the entry's parent folder after its name, for flat lists like search results */
+  showParentPath?: boolean;
+  /** Paths cut to the clipboard, shown dimmed until they're pasted */
+  cutPaths?: ReadonlySet<string>;
+  /** Files found locked when probed, shown with a lock badge */
+  lockedPaths?: ReadonlySet<string>;
 }
 
 export function TreeItem({
@@ -37,9 +47,14 @@ export function TreeItem({
   onDrop,
   onDragStart,
   refreshTrigger,
+  bucket,
   expandedPaths,
   onToggleExpand,
   onFocusPath,
+  prefetched,
+  showParentPath,
+  cutPaths,
+  lockedPaths,
 }: TreeItemProps) {
   const [children, setChildren] = useState<FileEntry[]>([]);
   const [loading, setLoading] = useState(false);
@@ -51,6 +66,7 @@ export function TreeItem({
   const isSelected = selectedPaths.has(entry.path);
   const isFocused = focusedPath === entry.path;
   const isMultiSelect = selectedPaths.size > 1;
+  const locked = entry.locked || lockedPaths?.has(entry.path);
   const paddingLeft = `${depth * 12 + 4}px`;
 
   // Scroll into view when focused via keyboard
@@ -61,27 +77,32 @@ export function TreeItem({
   }, [isFocused]);
 
   const fetchChildren = useCallback(async () => {
+      const listing = prefetched?.get(entry.path);
+      if (listing) {
+        setChildren(listing);
+        setError(null);
+        return;
+      }
       setLoading(true);
       try {
-        const files = await opfsApi.list(entry.path);
+        const files = await opfsApi.list(entry.path, { bucket });
         setChildren(files);
         setError(null);
       } catch (err) {
-        const message = err instanceof Error ? err.message : String(err);
         // A directory that appears in its parent's listing but can't itself
         // be resolved is a corrupted/"ghost" OPFS entry (can happen after an
         // interrupted operation, e.g. the page being paused at a debugger
         // breakpoint). Surface a clearer, actionable message instead of the
         // raw NotFoundError.
-        if (/not.*found/i.test(message)) {
+        if (isOpfsError(err, 'NotFoundError')) {
           setError('This folder appears to be corrupted and its contents can\'t be read. You can still delete it.');
         } else {
-          setError(message);
+          setError(err instanceof Error ? err.message : String(err));
         }
       } finally {
         setLoading(false);
       }
-  }, [entry.path]);
+  }, [entry.path, bucket, prefetched]);
 
   useEffect(() => {
       if (expanded) {
@@ -215,7 +236,7 @@ export function TreeItem({
       role="treeitem"
       aria-expanded={entry.kind === 'directory' ? expanded : undefined}
       aria-selected={isSelected}
-      aria-label={`${entry.kind === 'directory' ? 'Folder' : 'File'}: ${entry.name}${entry.size ? `, ${formatSize(entry.size)}` : ''}${isSelected && isMultiSelect ? ', selected' : ''}`}
+      aria-label={`${entry.kind === 'directory' ? 'Folder' : 'File'}: ${entry.name}${locked ? ', locked' : ''}${entry.size ? `, ${formatSize(entry.size)}` : ''}${isSelected && isMultiSelect ? ', selected' : ''}`}
     >
       <div
         ref={itemRef}
@@ -229,6 +250,7 @@ export function TreeItem({
             ${!isSelected && !isDragOver ? 'hover:bg-dt-hover text-dt-text' : ''}
             ${isDragOver ? 'bg-blue-500/30 ring-1 ring-inset ring-blue-500 text-dt-text' : ''}
             ${isFocused ? 'tree-item-focused' : ''}
+            ${cutPaths?.has(entry.path) ? 'opacity-50' : ''}
         `}
         style={{ paddingLeft }}
         onClick={handleClick}
@@ -265,7 +287,24 @@ export function TreeItem({
             {getIcon()}
         </span>
 
-        <span className="truncate text-[11px] leading-tight flex-1">{entry.name}</span>
+        <span className="truncate text-[11px] leading-tight flex-1">
+          {entry.name}
+          {showParentPath && entry.path.includes('/') && (
+            <span className="ml-1.5 text-[10px] text-dt-text-secondary/70">
+              {entry.path.slice(0, entry.path.lastIndexOf('/'))}
+            </span>
+          )}
+        </span>
+
+        {locked && (
+          <span
+            className="ml-1 shrink-0 text-yellow-500"
+            title="Locked — the page has this file open with a sync access handle (e.g. SQLite in a worker)"
+            aria-hidden="true"
+          >
+            <Lock size={10} />
+          </span>
+        )}
 
         {entry.kind === 'file' && entry.size !== undefined && (
           <span className="text-[9px] text-dt-text-secondary/60 ml-1 shrink-0 tabular-nums">
@@ -295,9 +334,13 @@ export function TreeItem({
                 onDrop={onDrop}
                 onDragStart={onDragStart}
                 refreshTrigger={refreshTrigger}
+                bucket={bucket}
                 expandedPaths={expandedPaths}
                 onToggleExpand={onToggleExpand}
                 onFocusPath={onFocusPath}
+                prefetched={prefetched}
+                cutPaths={cutPaths}
+                lockedPaths={lockedPaths}
               />
             ))
           )}
@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import type { FileEntry } from '../api';
+
+export type ConflictAction = 'overwrite' | 'rename' | 'skip';
+
+interface UploadConflictDialogProps {
+  /** The file being uploaded */
+  file: File;
+  /** What's already at its path — a file, or a folder of the same name */
+  existing: FileEntry;
+  /** The name "Keep both" uploads the file under */
+  keepBothName: string;
+  /** Files still to upload after this one, which "apply to all" covers */
+  remaining: number;
+  onResolve: (action: ConflictAction, applyToAll: boolean) => void;
+  /** Formats a byte count for display */
+  formatBytes: (bytes: number) => string;
+}
+
+/**
+ * Asks what to do about an upload whose name is taken, showing the existing
+ * entry and the incoming file side by side, with the answer optionally
+ * applied to every remaining conflict of the upload.
+ */
+export function UploadConflictDialog({ file, existing, keepBothName, remaining, onResolve, formatBytes }: UploadConflictDialogProps) {
+  const [applyToAll, setApplyToAll] = useState(false);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const isFolder = existing.kind === 'directory';
+  const location = existing.path.includes('/') ? existing.path.slice(0, existing.path.lastIndexOf('/')) : 'the root';
+
+  useEffect(() => {
+    dialogRef.current?.querySelector<HTMLElement>('button:not(:disabled)')?.focus();
+  }, []);
+
+  const newer = (a?: number, b?: number) => a !== undefined && b !== undefined && a > b;
+  const column = (label: string, size: number | undefined, lastModified: number | undefined, isNewer: boolean, isLarger: boolean) => (
+    <div className="flex-1 min-w-0 p-2 rounded border border-dt-border bg-dt-bg">
+      <div className="mb-1 font-semibold text-dt-text">{label}</div>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5">
+        <dt className="text-dt-text-secondary">Size</dt>
+        <dd className="text-dt-text">
+          {size === undefined ? '—' : formatBytes(size)}
+          {isLarger && <span className="text-dt-text-secondary"> (larger)</span>}
+        </dd>
+        <dt className="text-dt-text-secondary">Modified</dt>
+        <dd className="text-dt-text">
+          {lastModified === undefined ? '—' : new Date(lastModified).toLocaleString()}
+          {isNewer && <span className="text-dt-text-secondary"> (newer)</span>}
+        </dd>
+      </dl>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-[1px]">
+      <div
+        ref={dialogRef}
+        className="bg-dt-surface border border-dt-border shadow-xl rounded-lg w-[440px] overflow-hidden modal-content-enter"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="conflict-title"
+        aria-describedby="conflict-desc"
+      >
+        <div className="flex items-center justify-between px-4 py-2 border-b border-dt-border bg-dt-bg">
+          <h3 id="conflict-title" className="font-semibold text-dt-text text-sm">{isFolder ? 'Folder' : 'File'} Already Exists</h3>
+        </div>
+        <div className="p-4 text-xs">
+          <p id="conflict-desc" className="text-dt-text mb-3">
+            A {isFolder ? 'folder' : 'file'} named <span className="font-semibold">"{file.name}"</span> already exists in {location}.
+          </p>
+          {isFolder ? null : (
+            <div className="flex gap-2 mb-4">
+              {column('Existing', existing.size, existing.lastModified,
+                newer(existing.lastModified, file.lastModified), existing.size !== undefined && existing.size > file.size)}
+              {column('Incoming', file.size, file.lastModified,
+                newer(file.lastModified, existing.lastModified), existing.size !== undefined && file.size > existing.size)}
+            </div>
+          )}
+          <div className="space-y-2">
+            <button
+              onClick={() => onResolve('overwrite', applyToAll)}
+              disabled={isFolder}
+              title={isFolder ? "A folder can't be replaced by a file" : undefined}
+              className="w-full px-3 py-2 rounded text-xs bg-red-600/20 text-red-400 border border-red-600/30 hover:bg-red-600/30 flex items-center justify-center gap-2 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+            >
+              <Trash2 size={12} aria-hidden="true" /> Replace existing file
+            </button>
+            <button
+              onClick={() => onResolve('rename', applyToAll)}
+              className="w-full px-3 py-2 rounded text-xs bg-blue-600/20 text-blue-400 border border-blue-600/30 hover:bg-blue-600/30 transition-colors truncate"
+            >
+              Keep both (upload as "{keepBothName}")
+            </button>
+            <button
+              onClick={() => onResolve('skip', applyToAll)}
+              className="w-full px-3 py-2 rounded text-xs text-dt-text-secondary border border-dt-border hover:bg-dt-hover transition-colors"
+            >
+              Skip this file
+            </button>
+          </div>
+          {remaining > 0 && (
+            <label className="flex items-center gap-2 mt-3 text-dt-text-secondary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={applyToAll}
+                onChange={(e) => setApplyToAll(e.target.checked)}
+              />
+              Apply to all remaining conflicts ({remaining} more file{remaining === 1 ? '' : 's'} to upload)
+            </label>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { createOpfsRuntime } from "../page/runtime";
+import { createRuntimeBackend, toOperationContext, type OpfsBackend } from "./backend";
+
+/**
+ * Creates a backend that runs the OPFS runtime directly in the current page,
+ * against its own `navigator.storage.getDirectory()` — no DevTools, bridge or
+ * eval involved. Used by the standalone explorer embedded in an app.
+ */
+export function createDirectBackend(): OpfsBackend {
+  const runtime = createOpfsRuntime();
+  return createRuntimeBackend((op, args, options) => runtime.invoke(op, args, toOperationContext(options)));
+}
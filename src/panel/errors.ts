@@ -0,0 +1,107 @@
+/**
+ * What went wrong, independent of the message text. Failures reported by the
+ * File System API keep their DOMException name; the rest are raised by the
+ * explorer itself.
+ */
+export type OpfsErrorCode =
+  // DOMException names reported by the browser
+  | "NotFoundError"
+  | "NoModificationAllowedError"
+  | "QuotaExceededError"
+  | "TypeMismatchError"
+  | "SecurityError"
+  | "InvalidModificationError"
+  | "InvalidStateError"
+  | "NotAllowedError"
+  | "AbortError"
+  // Raised by the explorer
+  | "TimeoutError"
+  | "NotSecureContextError"
+  | "NotSupportedError"
+  | "ConnectionLostError"
+  | "UnknownError";
+
+const KNOWN_CODES = new Set<string>([
+  "NotFoundError",
+  "NoModificationAllowedError",
+  "QuotaExceededError",
+  "TypeMismatchError",
+  "SecurityError",
+  "InvalidModificationError",
+  "InvalidStateError",
+  "NotAllowedError",
+  "AbortError",
+  "TimeoutError",
+  "NotSecureContextError",
+  "NotSupportedError",
+  "ConnectionLostError",
+]);
+
+/**
+ * Error thrown by every `opfsApi` operation. Branch on `code` rather than on
+ * the message, which is meant for display.
+ */
+export class OpfsError extends Error {
+  readonly code: OpfsErrorCode;
+  /** The operation that failed, e.g. "rename" */
+  readonly operation: string;
+  /** The path the operation was called with (the source path for moves) */
+  readonly path: string | undefined;
+
+  constructor(
+    code: OpfsErrorCode,
+    message: string,
+    context: { operation: string; path?: string; cause?: unknown }
+  ) {
+    super(message, { cause: context.cause });
+    this.name = "OpfsError";
+    this.code = code;
+    this.operation = context.operation;
+    this.path = context.path;
+  }
+}
+
+/**
+ * Creates a plain Error carrying an error name, the way errors travel between
+ * the page and the panel before they're turned into an OpfsError.
+ */
+export function namedError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+/**
+ * The error a cancelled operation rejects with.
+ */
+export function abortError(): Error {
+  return namedError("AbortError", "The operation was cancelled.");
+}
+
+/**
+ * Converts anything thrown by a backend or transport into an OpfsError for
+ * the given operation. OpfsErrors pass through unchanged.
+ */
+export function toOpfsError(err: unknown, operation: string, path?: string): OpfsError {
+  if (err instanceof OpfsError) return err;
+
+  const name = err && typeof err === "object" && "name" in err ? String(err.name) : "";
+  const message = err instanceof Error || (err && typeof err === "object" && "message" in err)
+    ? String((err as { message: unknown }).message)
+    : String(err);
+
+  let code: OpfsErrorCode = KNOWN_CODES.has(name) ? (name as OpfsErrorCode) : "UnknownError";
+  // Extension messaging reports a missing content script by message only
+  if (code === "UnknownError" && /Could not establish connection|Receiving end does not exist/.test(message)) {
+    code = "ConnectionLostError";
+  }
+
+  return new OpfsError(code, message, { operation, path, cause: err });
+}
+
+/**
+ * True if `err` is an OpfsError, optionally with one of the given codes.
+ */
+export function isOpfsError(err: unknown, ...codes: OpfsErrorCode[]): err is OpfsError {
+  return err instanceof OpfsError && (codes.length === 0 || codes.includes(err.code));
+}
@@ -0,0 +1,55 @@
+/**
+ * Which frame of the inspected page the explorer operates on.
+ *
+ * OPFS is partitioned by origin (and, for third-party iframes, by top-level
+ * site), so an embedded cross-origin iframe has its own file system that the
+ * top frame can't see. Both transports follow the target frame: the eval
+ * fallback passes it as `frameURL`, and the bridge attaches to the content
+ * script running in that frame.
+ */
+
+export interface InspectedFrame {
+  /** The frame's document URL, as matched by `inspectedWindow.eval({ frameURL })` */
+  url: string;
+  /** The origin whose OPFS the frame sees, or the URL for opaque origins */
+  origin: string;
+  /** Whether this is the inspected page's top-level frame */
+  isTop: boolean;
+}
+
+let targetFrameURL: string | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * The URL of the frame operations run in, or null for the top frame.
+ */
+export function getTargetFrame(): string | null {
+  return targetFrameURL;
+}
+
+/**
+ * Switch the frame operations run in. Pass null for the top frame.
+ */
+export function setTargetFrame(url: string | null): void {
+  if (url === targetFrameURL) return;
+  targetFrameURL = url;
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeTargetFrame(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * The origin shown for a frame URL. Opaque origins (about:blank, data:,
+ * sandboxed frames) report "null", so those fall back to the URL itself.
+ */
+export function frameOrigin(url: string): string {
+  try {
+    const { origin } = new URL(url);
+    return origin && origin !== "null" ? origin : url;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * IndexedDB plumbing for the panel's own databases — the Trash and
+ * baselines: promises for requests and transactions, databases opened on
+ * first use, and the in-memory list of stored items the UI subscribes to.
+ */
+
+/** Wraps an IndexedDB request in a promise */
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Resolves once a transaction commits; rejects if it fails or is aborted */
+export function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * A database of object stores keyed by `id`, opened (and created) on first
+ * use. Returns a function starting a transaction over all of its stores; a
+ * failed open is retried on the next one.
+ */
+export function openStores(name: string, stores: string[]): (mode: IDBTransactionMode) => Promise<IDBTransaction> {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    db ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(name, 1);
+      req.onupgradeneeded = () => {
+        for (const store of stores) req.result.createObjectStore(store, { keyPath: "id" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        db = null;
+        reject(req.error);
+      };
+    });
+    return db;
+  };
+  return async (mode) => (await open()).transaction(stores, mode);
+}
+
+/** Stored items as the panel lists them, loaded once and kept in order */
+export interface StoredList<T> {
+  /** The items, loading them on first use */
+  load(): Promise<readonly T[]>;
+  /** Replaces the items and notifies subscribers */
+  publish(next: readonly T[]): void;
+  /** The items, or null until they've been loaded. Replaced on every change. */
+  getSnapshot(): readonly T[] | null;
+  /** Subscribing loads the items */
+  subscribe(listener: () => void): () => void;
+}
+
+/** Creates a list of the items `getAll` reads from storage, sorted by `order` */
+export function createStoredList<T>(getAll: () => Promise<T[]>, order: (a: T, b: T) => number): StoredList<T> {
+  let items: readonly T[] | null = null;
+  let loading: Promise<readonly T[]> | null = null;
+  const listeners = new Set<() => void>();
+
+  const publish = (next: readonly T[]) => {
+    items = [...next].sort(order);
+    listeners.forEach(listener => listener());
+  };
+
+  const load = (): Promise<readonly T[]> => {
+    if (items) return Promise.resolve(items);
+    loading ??= getAll().then(all => {
+      if (!items) publish(all);
+      return items!;
+    }).finally(() => {
+      loading = null;
+    });
+    return loading;
+  };
+
+  return {
+    load,
+    publish,
+    getSnapshot: () => items,
+    subscribe(listener) {
+      listeners.add(listener);
+      load().catch(() => {
+        // Nothing to list; the operations that change the list report their own errors
+      });
+      return () => listeners.delete(listener);
+    },
+  };
+}
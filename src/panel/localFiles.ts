@@ -0,0 +1,59 @@
+/**
+ * Reads files and folders dropped on the panel or picked from the user's
+ * computer into entries with paths relative to the drop, so folders can be
+ * recreated in OPFS instead of being flattened.
+ */
+
+/** A file or folder from the user's computer */
+export interface LocalEntry {
+  /** Path relative to the drop or the picked folder's parent, e.g. "fixtures/users.json" */
+  path: string;
+  kind: "file" | "directory";
+  file?: File;
+}
+
+/**
+ * The files and folders of a drop, folders walked recursively, parents
+ * before their contents. Must be called while the drop event is being
+ * dispatched: the browser empties the DataTransfer once it returns. Falls
+ * back to the flat file list where entries can't be read.
+ */
+export function readDataTransfer(dataTransfer: DataTransfer): Promise<LocalEntry[]> {
+  const roots = Array.from(dataTransfer.items ?? [])
+    .filter(item => item.kind === "file")
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+  if (roots.length === 0 || roots.some(root => !root)) {
+    return Promise.resolve(fromFiles(Array.from(dataTransfer.files)));
+  }
+
+  return (async () => {
+    const entries: LocalEntry[] = [];
+    for (const root of roots) await walk(root!, root!.name, entries);
+    return entries;
+  })();
+}
+
+/**
+ * Entries for files from a file input. Files picked with a directory
+ * picker (`webkitdirectory`) keep their path under the picked folder; the
+ * folders themselves are implied by those paths.
+ */
+export function fromFiles(files: File[]): LocalEntry[] {
+  return files.map(file => ({ path: file.webkitRelativePath || file.name, kind: "file", file }));
+}
+
+async function walk(entry: FileSystemEntry, path: string, out: LocalEntry[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    out.push({ path, kind: "file", file });
+    return;
+  }
+  out.push({ path, kind: "directory" });
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries hands out a batch at a time (100 in Chrome); an empty one ends the listing
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    for (const child of batch) await walk(child, `${path}/${child.name}`, out);
+  }
+}
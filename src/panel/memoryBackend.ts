@@ -0,0 +1,221 @@
+import { createOpfsRuntime } from "../page/runtime";
+import { createRuntimeBackend, toOperationContext, type OpfsBackend } from "./backend";
+
+/**
+ * Initial contents for an in-memory backend. Strings and byte arrays become
+ * files; nested objects become directories.
+ */
+export interface MemorySeed {
+  [name: string]: string | Uint8Array | MemorySeed;
+}
+
+interface MemoryFile {
+  kind: "file";
+  data: Uint8Array;
+  lastModified: number;
+}
+
+interface MemoryDirectory {
+  kind: "directory";
+  children: Map<string, MemoryNode>;
+}
+
+type MemoryNode = MemoryFile | MemoryDirectory;
+
+/** Quota reported by the in-memory backend's storage estimate */
+const MEMORY_QUOTA = 512 * 1024 * 1024;
+
+// Same messages Chromium uses, so the UI sees realistic errors
+function notFoundError() {
+  return new DOMException("A requested file or directory could not be found at the time an operation was processed.", "NotFoundError");
+}
+
+function typeMismatchError() {
+  return new DOMException("The path supplied exists, but was not an entry of requested type.", "TypeMismatchError");
+}
+
+async function toBytes(data: unknown): Promise<Uint8Array> {
+  if (typeof data === "string") return new TextEncoder().encode(data);
+  if (data instanceof Uint8Array) return data.slice();
+  if (data instanceof ArrayBuffer) return new Uint8Array(data.slice(0));
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+  if (data instanceof Blob) return new Uint8Array(await data.arrayBuffer());
+  throw new TypeError("Unsupported data passed to write()");
+}
+
+function seedDirectory(seed: MemorySeed, now: number): MemoryDirectory {
+  const dir: MemoryDirectory = { kind: "directory", children: new Map() };
+  for (const [name, value] of Object.entries(seed)) {
+    if (typeof value === "string") {
+      dir.children.set(name, { kind: "file", data: new TextEncoder().encode(value), lastModified: now });
+    } else if (value instanceof Uint8Array) {
+      dir.children.set(name, { kind: "file", data: value.slice(), lastModified: now });
+    } else {
+      dir.children.set(name, seedDirectory(value, now));
+    }
+  }
+  return dir;
+}
+
+function totalSize(node: MemoryNode): number {
+  if (node.kind === "file") return node.data.byteLength;
+  let size = 0;
+  node.children.forEach(child => { size += totalSize(child); });
+  return size;
+}
+
+// Minimal FileSystemFileHandle over a memory node. Like OPFS, writes are
+// buffered and only replace the file's contents when the stream is closed.
+function fileHandle(name: string, node: MemoryFile) {
+  return {
+    kind: "file" as const,
+    name,
+    async getFile() {
+      const file = new File([node.data as Uint8Array<ArrayBuffer>], name, { lastModified: node.lastModified });
+      // Not every environment's File can stream (jsdom's can't)
+      if (!("stream" in file)) {
+        const data = node.data.slice();
+        Object.assign(file, {
+          stream: () => new ReadableStream<Uint8Array>({
+            start(controller) {
+              controller.enqueue(data);
+              controller.close();
+            },
+          }),
+        });
+      }
+      return file;
+    },
+    async createWritable() {
+      let chunks: Uint8Array[] = [];
+      // A real WritableStream, so files can be piped into it, plus the
+      // write() shortcut of FileSystemWritableFileStream
+      const stream = new WritableStream<unknown>({
+        async write(data) {
+          chunks.push(await toBytes(data));
+        },
+        close() {
+          const size = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+          const data = new Uint8Array(size);
+          let offset = 0;
+          for (const chunk of chunks) {
+            data.set(chunk, offset);
+            offset += chunk.byteLength;
+          }
+          node.data = data;
+          node.lastModified = Date.now();
+        },
+        abort() {
+          chunks = [];
+        },
+      });
+      return Object.assign(stream, {
+        async write(data: unknown) {
+          const writer = stream.getWriter();
+          try {
+            await writer.write(data);
+          } finally {
+            writer.releaseLock();
+          }
+        },
+      });
+    },
+  };
+}
+
+// Minimal FileSystemDirectoryHandle over a memory node — just what the OPFS
+// runtime uses. There is no move(), so the runtime takes its copy-and-delete
+// path as it does in browsers without FileSystemHandle.move().
+function directoryHandle(name: string, node: MemoryDirectory): FileSystemDirectoryHandle {
+  const handleFor = (childName: string, child: MemoryNode) =>
+    child.kind === "file" ? fileHandle(childName, child) : directoryHandle(childName, child);
+
+  const handle = {
+    kind: "directory" as const,
+    name,
+    async getDirectoryHandle(childName: string, options?: { create?: boolean }) {
+      let child = node.children.get(childName);
+      if (!child) {
+        if (!options?.create) throw notFoundError();
+        child = { kind: "directory", children: new Map() };
+        node.children.set(childName, child);
+      }
+      if (child.kind !== "directory") throw typeMismatchError();
+      return directoryHandle(childName, child);
+    },
+    async getFileHandle(childName: string, options?: { create?: boolean }) {
+      let child = node.children.get(childName);
+      if (!child) {
+        if (!options?.create) throw notFoundError();
+        child = { kind: "file", data: new Uint8Array(0), lastModified: Date.now() };
+        node.children.set(childName, child);
+      }
+      if (child.kind !== "file") throw typeMismatchError();
+      return fileHandle(childName, child);
+    },
+    async removeEntry(childName: string, options?: { recursive?: boolean }) {
+      const child = node.children.get(childName);
+      if (!child) throw notFoundError();
+      if (child.kind === "directory" && child.children.size > 0 && !options?.recursive) {
+        throw new DOMException("The directory is not empty.", "InvalidModificationError");
+      }
+      node.children.delete(childName);
+    },
+    async *entries() {
+      for (const [childName, child] of Array.from(node.children)) {
+        yield [childName, handleFor(childName, child)] as const;
+      }
+    },
+    async *keys() {
+      yield* Array.from(node.children.keys());
+    },
+    async *values() {
+      for (const [childName, child] of Array.from(node.children)) {
+        yield handleFor(childName, child);
+      }
+    },
+  };
+  return handle as unknown as FileSystemDirectoryHandle;
+}
+
+/**
+ * Creates a backend that keeps its files in memory, optionally seeded with
+ * initial contents. It runs the same runtime as the inspected page, so
+ * listings, type detection and error messages behave as they do on a real
+ * OPFS.
+ */
+export function createMemoryBackend(seed: MemorySeed = {}): OpfsBackend {
+  const root = seedDirectory(seed, Date.now());
+  const runtime = createOpfsRuntime({ getRoot: async () => directoryHandle("", root) });
+  const backend = createRuntimeBackend((op, args, options) => runtime.invoke(op, args, toOperationContext(options)));
+  return {
+    ...backend,
+    // There are no named buckets in memory; the runtime rejects those
+    getStorageEstimate: async (options) =>
+      options?.bucket ? backend.getStorageEstimate(options) : { usage: totalSize(root), quota: MEMORY_QUOTA },
+  };
+}
+
+// 1×1 transparent PNG
+const SAMPLE_PNG = Uint8Array.from(
+  atob("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII="),
+  c => c.charCodeAt(0)
+);
+
+/**
+ * Sample contents the panel starts with outside DevTools — one file of each
+ * kind the viewer handles, plus some nesting.
+ */
+export const DEMO_SEED: MemorySeed = {
+  "README.md": "# OPFS Explorer\n\nThis is an **in-memory** file system used outside DevTools. Changes are lost on reload.\n",
+  "config.json": JSON.stringify({ theme: "dark", autosave: true, recent: ["notes.txt"] }, null, 2) + "\n",
+  "notes.txt": "Plain text notes.\n",
+  "assets": {
+    "pixel.png": SAMPLE_PNG,
+    "styles.css": "body {\n  margin: 0;\n}\n",
+  },
+  "data": {
+    "app.sqlite3": new Uint8Array([0x53, 0x51, 0x4c, 0x69, 0x74, 0x65, 0x20, 0x66, 0x6f, 0x72, 0x6d, 0x61, 0x74, 0x20, 0x33, 0x00]),
+    "cache": {},
+  },
+};
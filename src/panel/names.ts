@@ -0,0 +1,61 @@
+/**
+ * Naming helpers for entries created next to existing ones — copies,
+ * duplicates and the like — so they never collide.
+ */
+
+/**
+ * Splits a file name into its base and extension ("report.final.txt" →
+ * "report.final" + ".txt"). Folders, dotfiles (".env") and names without a
+ * dot have no extension.
+ */
+export function splitExtension(name: string, kind: "file" | "directory" = "file"): { base: string; ext: string } {
+  const dot = name.lastIndexOf(".");
+  if (kind === "directory" || dot <= 0) return { base: name, ext: "" };
+  return { base: name.slice(0, dot), ext: name.slice(dot) };
+}
+
+// " (copy)" or " (copy 3)" at the end of a base name
+const COPY_SUFFIX = / \(copy(?: \d+)?\)$/;
+
+/**
+ * The name for a copy of `name` that isn't in `taken`: "file (copy).txt",
+ * then "file (copy 2).txt" and so on. Copying a copy doesn't stack suffixes.
+ */
+export function copyName(name: string, kind: "file" | "directory", taken: ReadonlySet<string>): string {
+  const { base, ext } = splitExtension(name, kind);
+  const stem = base.replace(COPY_SUFFIX, "");
+  for (let n = 1; ; n++) {
+    const candidate = `${stem} (copy${n === 1 ? "" : ` ${n}`})${ext}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
+
+// " (2)" at the end of a base name, capturing the number
+const NUMBER_SUFFIX = / \((\d+)\)$/;
+
+/**
+ * The name for a second entry called `name` that isn't in `taken`:
+ * "file (1).txt", then "file (2).txt" and so on — the way uploads keep both
+ * files. A name that's already numbered continues from its number, so
+ * "file (5).txt" becomes "file (6).txt".
+ */
+export function numberedName(name: string, kind: "file" | "directory", taken: ReadonlySet<string>): string {
+  const { base, ext } = splitExtension(name, kind);
+  const match = NUMBER_SUFFIX.exec(base);
+  const stem = match ? base.slice(0, match.index) : base;
+  for (let n = match ? Number(match[1]) + 1 : 1; ; n++) {
+    const candidate = `${stem} (${n})${ext}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
+
+/** The folder containing `path` ("" for entries at the root) */
+export function parentPath(path: string): string {
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? "" : path.slice(0, slash);
+}
+
+/** Joins a folder path and an entry name */
+export function joinPath(dir: string, name: string): string {
+  return dir ? `${dir}/${name}` : name;
+}
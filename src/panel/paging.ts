@@ -0,0 +1,131 @@
+/**
+ * Helpers for viewing files too large to load at once, one page of bytes at
+ * a time through `opfsApi.readRange`.
+ */
+
+/** Bytes per page of the text viewer */
+export const TEXT_PAGE_SIZE = 256 * 1024;
+
+/**
+ * How far past the end of a page the text viewer reads to finish the page's
+ * last line. Longer lines are cut off.
+ */
+export const LINE_OVERSCAN = 64 * 1024;
+
+/** Bytes per page of the hex viewer — 256 rows of 16 bytes */
+export const HEX_PAGE_SIZE = 4096;
+
+const NEWLINE = 0x0a;
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // fromCharCode takes its arguments on the stack, so go a slice at a time
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * The byte range to read for the text page starting at `start`: one byte
+ * before it, to tell whether the page starts on a line boundary, and
+ * LINE_OVERSCAN bytes after it.
+ */
+export function textPageRange(start: number, pageSize = TEXT_PAGE_SIZE): { offset: number; length: number } {
+  const offset = Math.max(0, start - 1);
+  return { offset, length: start + pageSize - offset + LINE_OVERSCAN };
+}
+
+export interface TextPage {
+  text: string;
+  /** The page's last line didn't end within the overscan and was cut off */
+  truncated: boolean;
+}
+
+/**
+ * Decodes the lines that start within [start, start + pageSize) from bytes
+ * read at `offset` (see textPageRange). Lines that began on the previous
+ * page are skipped, and the last line runs past the page end to its newline,
+ * so consecutive pages show every line exactly once and never split a UTF-8
+ * character mid-line.
+ */
+export function decodeTextPage(
+  bytes: Uint8Array,
+  offset: number,
+  start: number,
+  fileSize: number,
+  pageSize = TEXT_PAGE_SIZE
+): TextPage {
+  const pageStart = start - offset;
+  const pageEnd = pageStart + pageSize;
+
+  let begin = 0;
+  // Where the line running into the page from the previous one ends
+  let carriedLineEnd = -1;
+  if (start > 0) {
+    // bytes[0] is the byte before the page; a newline there means the page
+    // starts on a fresh line
+    carriedLineEnd = bytes.indexOf(NEWLINE);
+    begin = carriedLineEnd === -1 ? bytes.length : carriedLineEnd + 1;
+  }
+
+  let end = bytes.length;
+  let truncated = false;
+  if (pageEnd < bytes.length) {
+    const newline = bytes.indexOf(NEWLINE, pageEnd - 1);
+    if (newline === -1) {
+      // Unless the file simply ends without a newline
+      truncated = offset + bytes.length < fileSize;
+    } else {
+      end = newline + 1;
+    }
+  }
+
+  if (begin >= end) {
+    // No line starts on this page. The previous page showed the line it's
+    // part of, unless that line ran past its overscan — then show this
+    // page's share of it raw.
+    if (carriedLineEnd !== -1 && offset + carriedLineEnd < start + LINE_OVERSCAN) {
+      return { text: "", truncated: false };
+    }
+    begin = pageStart;
+    end = Math.min(bytes.length, pageEnd);
+    truncated = true;
+  }
+
+  return {
+    text: new TextDecoder().decode(bytes.subarray(begin, end)),
+    truncated,
+  };
+}
+
+export interface HexRow {
+  /** Offset of the row's first byte, as 8 hex digits */
+  offset: string;
+  /** Up to 16 bytes as hex pairs */
+  hex: string;
+  /** The same bytes as printable ASCII, with "." for everything else */
+  ascii: string;
+}
+
+export function toHexRows(bytes: Uint8Array, offset: number): HexRow[] {
+  const rows: HexRow[] = [];
+  for (let i = 0; i < bytes.length; i += 16) {
+    const row = bytes.subarray(i, i + 16);
+    rows.push({
+      offset: (offset + i).toString(16).padStart(8, "0"),
+      hex: Array.from(row, byte => byte.toString(16).padStart(2, "0")).join(" "),
+      ascii: Array.from(row, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".")).join(""),
+    });
+  }
+  return rows;
+}
@@ -0,0 +1,141 @@
+import { abortError } from "./errors";
+
+/**
+ * A mutation waiting for, or holding, its paths.
+ */
+export interface ScheduledMutation {
+  id: number;
+  /** The opfsApi operation, e.g. "move" */
+  operation: string;
+  /** Every path the operation touches (source and destination for moves) */
+  paths: string[];
+  /** Storage bucket the paths are in; the default bucket when undefined */
+  bucket?: string;
+  state: "queued" | "running";
+  queuedAt: number;
+  startedAt?: number;
+}
+
+export interface MutationScheduler {
+  /**
+   * Runs `run` once no earlier mutation touching an overlapping path of the
+   * same bucket is queued or running. Aborting `signal` while still queued
+   * drops the mutation and rejects with an AbortError.
+   */
+  schedule<T>(
+    operation: string,
+    paths: string[],
+    run: () => Promise<T>,
+    signal?: AbortSignal,
+    bucket?: string
+  ): Promise<T>;
+  /** Queued and running mutations, oldest first. Replaced on every change. */
+  getSnapshot(): readonly ScheduledMutation[];
+  subscribe(listener: () => void): () => void;
+}
+
+interface Task extends ScheduledMutation {
+  start: () => void;
+}
+
+function normalizePath(path: string): string {
+  return path.split("/").filter(Boolean).join("/");
+}
+
+/**
+ * Two paths overlap when they're the same entry or one contains the other.
+ * The root ("") contains everything.
+ */
+export function pathsOverlap(a: string, b: string): boolean {
+  if (a === b || a === "" || b === "") return true;
+  return a.startsWith(b + "/") || b.startsWith(a + "/");
+}
+
+/**
+ * Creates a scheduler that serializes mutations on overlapping paths —
+ * an entry and its ancestors or descendants — in the order they were
+ * issued, while mutations on unrelated paths run in parallel.
+ *
+ * Concurrent create/rename/delete calls against the same entry are a known
+ * cause of corrupted "ghost" entries, and they're easy to trigger while the
+ * inspected page is paused at a breakpoint and calls pile up.
+ */
+export function createMutationScheduler(): MutationScheduler {
+  let tasks: Task[] = [];
+  let snapshot: readonly ScheduledMutation[] = [];
+  let nextId = 1;
+  const listeners = new Set<() => void>();
+
+  const publish = () => {
+    snapshot = tasks.map(({ id, operation, paths, bucket, state, queuedAt, startedAt }) => ({
+      id, operation, paths, bucket, state, queuedAt, startedAt,
+    }));
+    listeners.forEach(listener => listener());
+  };
+
+  // Start every queued task that no earlier task overlaps
+  const pump = () => {
+    let changed = false;
+    tasks.forEach((task, index) => {
+      if (task.state !== "queued") return;
+      const blocked = tasks.slice(0, index).some(earlier =>
+        earlier.bucket === task.bucket &&
+        earlier.paths.some(a => task.paths.some(b => pathsOverlap(a, b)))
+      );
+      if (blocked) return;
+      task.state = "running";
+      task.startedAt = Date.now();
+      task.start();
+      changed = true;
+    });
+    if (changed) publish();
+  };
+
+  const remove = (task: Task) => {
+    tasks = tasks.filter(t => t !== task);
+    publish();
+    pump();
+  };
+
+  return {
+    schedule(operation, paths, run, signal, bucket) {
+      if (signal?.aborted) return Promise.reject(abortError());
+
+      return new Promise((resolve, reject) => {
+        const onAbort = () => {
+          if (task.state !== "queued") return;
+          remove(task);
+          reject(abortError());
+        };
+
+        const task: Task = {
+          id: nextId++,
+          operation,
+          paths: paths.map(normalizePath),
+          bucket,
+          state: "queued",
+          queuedAt: Date.now(),
+          start: () => {
+            signal?.removeEventListener("abort", onAbort);
+            // Run outside pump(), so that a synchronous throw rejects this
+            // task instead of stalling the queue
+            Promise.resolve()
+              .then(run)
+              .then(resolve, reject)
+              .finally(() => remove(task));
+          },
+        };
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+        tasks = [...tasks, task];
+        publish();
+        pump();
+      });
+    },
+    getSnapshot: () => snapshot,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import type { SnapshotManifest } from "./api";
+import { readArchive } from "./archives";
+import { namedError } from "./errors";
+import type { LocalEntry } from "./localFiles";
+
+/**
+ * OPFS snapshots: a whole bucket exported as one ZIP (see
+ * `ZipOptions.snapshot`), with the files under "files/" and a manifest of
+ * their paths, sizes and modification times, so a broken local state can
+ * be captured on one machine and replayed on another.
+ */
+
+/** A snapshot archive read back */
+export interface Snapshot {
+  manifest: SnapshotManifest;
+  /** Files and folders to restore, with paths from the bucket root */
+  entries: LocalEntry[];
+}
+
+const FILES_PREFIX = "files/";
+
+/** Download name of a snapshot, e.g. "opfs-snapshot-localhost_5173-2026-10-19T09-30-00.zip" */
+export function snapshotFileName(origin: string, at = new Date()): string {
+  const host = origin.replace(/^[a-z-]+:\/\//, "").replace(/[^\w.-]+/g, "_");
+  return `opfs-snapshot-${host}-${at.toISOString().slice(0, 19).replace(/:/g, "-")}.zip`;
+}
+
+/**
+ * Reads a snapshot archive. Rejects with a NotSupportedError for archives
+ * without a valid manifest.json, including ones from a newer version.
+ */
+export async function readSnapshot(archive: Blob): Promise<Snapshot> {
+  const all = await readArchive(archive);
+  const manifestFile = all.find(entry => entry.path === "manifest.json")?.file;
+  if (!manifestFile) throw namedError("NotSupportedError", "Not an OPFS snapshot: the archive has no manifest.json.");
+
+  let manifest: SnapshotManifest;
+  try {
+    manifest = JSON.parse(await manifestFile.text());
+  } catch {
+    throw namedError("NotSupportedError", "The snapshot's manifest.json isn't valid JSON.");
+  }
+  if (manifest?.format !== "opfs-snapshot" || !Array.isArray(manifest.entries)) {
+    throw namedError("NotSupportedError", "Not an OPFS snapshot: manifest.json has a different format.");
+  }
+  if (manifest.version !== 1) {
+    throw namedError("NotSupportedError", `The snapshot is version ${manifest.version}; this explorer reads version 1.`);
+  }
+
+  const entries = all
+    .filter(entry => entry.path.startsWith(FILES_PREFIX))
+    .map(entry => ({ ...entry, path: entry.path.slice(FILES_PREFIX.length) }));
+  return { manifest, entries };
+}
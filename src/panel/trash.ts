@@ -0,0 +1,249 @@
+import { opfsApi, OpfsError, type OperationOptions } from "./api";
+import { committed, createStoredList, openStores, request } from "./idb";
+import { joinPath, parentPath } from "./names";
+import { base64ToBytes } from "./paging";
+
+/**
+ * The Trash: copies of deleted entries kept in the panel's own IndexedDB, so
+ * a delete in the page's OPFS can be undone. Items from every origin share
+ * one store, but each origin has its own size cap: an origin's oldest items
+ * are dropped to make room for its new ones, never another origin's.
+ */
+
+/** Bytes of file content the Trash holds for each origin */
+export const DEFAULT_TRASH_CAPACITY = 100 * 1024 * 1024;
+
+// Files are read a slice at a time
+const READ_CHUNK = 12 * 1024 * 1024;
+
+/** A deleted file or folder, as listed in the Trash */
+export interface TrashItem {
+  id: string;
+  /** Where the entry was, from the root of its bucket */
+  path: string;
+  kind: "file" | "directory";
+  /** Storage bucket it was in; the default bucket when undefined */
+  bucket?: string;
+  /** The origin whose OPFS it was deleted from */
+  origin: string;
+  /** When it was deleted, in ms since the epoch */
+  deletedAt: number;
+  /** Bytes of file content kept */
+  size: number;
+  /** Files and folders inside it (0 for files) */
+  entryCount: number;
+}
+
+/** A file or folder kept with a Trash item, at a path relative to the item ("" for the item itself) */
+export interface TrashContent {
+  path: string;
+  kind: "file" | "directory";
+  /** File bytes */
+  content?: Blob;
+}
+
+/** Where the Trash keeps its items — IndexedDB in the panel */
+export interface TrashStorage {
+  getAll(): Promise<TrashItem[]>;
+  put(item: TrashItem, contents: TrashContent[]): Promise<void>;
+  getContents(id: string): Promise<TrashContent[] | undefined>;
+  delete(id: string): Promise<void>;
+}
+
+export interface Trash {
+  /**
+   * Reads an entry and everything in it into the Trash, before it's deleted.
+   * Rejects with a QuotaExceededError when it's larger than the Trash holds
+   * for an origin; otherwise the origin's oldest items are dropped to make
+   * room. Progress is reported in bytes read.
+   */
+  capture(path: string, options: { origin: string } & OperationOptions): Promise<TrashItem>;
+  /**
+   * Writes an item back to where it was, recreating missing parent folders,
+   * and drops it from the Trash. Rejects with an InvalidModificationError if
+   * something is in the way; a failed or cancelled restore removes what it
+   * wrote. Progress is reported in entries.
+   */
+  restore(id: string, options?: OperationOptions): Promise<void>;
+  /** Drops an item for good */
+  remove(id: string): Promise<void>;
+  /** Drops every item deleted from `origin` */
+  empty(origin: string): Promise<void>;
+  /** Items, newest first, or null until they've been loaded. Replaced on every change. */
+  getSnapshot(): readonly TrashItem[] | null;
+  /** Subscribing loads the items */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Creates a Trash on the given storage, holding up to `capacity` bytes of
+ * file content for each origin.
+ */
+export function createTrash(storage: TrashStorage, capacity = DEFAULT_TRASH_CAPACITY): Trash {
+  const { load, publish, getSnapshot, subscribe } = createStoredList(() => storage.getAll(), (a, b) => b.deletedAt - a.deletedAt);
+
+  const remove = async (id: string) => {
+    await storage.delete(id);
+    publish((await load()).filter(item => item.id !== id));
+  };
+
+  // Reads a file's bytes into a Blob, a slice at a time
+  const readFile = async (path: string, size: number, options: OperationOptions, onRead: (bytes: number) => void) => {
+    const slices: Uint8Array<ArrayBuffer>[] = [];
+    for (let offset = 0; offset < size; offset += READ_CHUNK) {
+      const range = await opfsApi.readRange(path, offset, READ_CHUNK, { bucket: options.bucket, signal: options.signal });
+      slices.push(base64ToBytes(range.content));
+      onRead(range.length);
+      if (range.length < READ_CHUNK) break;
+    }
+    return new Blob(slices);
+  };
+
+  const tooLarge = (path: string, size: number) => new OpfsError(
+    "QuotaExceededError",
+    `"${path}" holds ${Math.ceil(size / 1024 / 1024)} MB, more than the Trash keeps for one origin (${Math.round(capacity / 1024 / 1024)} MB).`,
+    { operation: "trash", path }
+  );
+
+  return {
+    async capture(path, { origin, ...options }) {
+      const listing = await opfsApi.list(parentPath(path), { bucket: options.bucket, signal: options.signal });
+      const entry = listing.find(candidate => candidate.path === path);
+      if (!entry) throw new OpfsError("NotFoundError", `"${path}" was not found.`, { operation: "trash", path });
+
+      let inside: { path: string; kind: "file" | "directory"; size: number }[] = [];
+      if (entry.kind === "directory") {
+        const { entries, truncated } = await opfsApi.walk(path, { includeMeta: true, bucket: options.bucket, signal: options.signal });
+        if (truncated) {
+          throw new OpfsError("QuotaExceededError", `"${path}" holds too many entries for the Trash.`, { operation: "trash", path });
+        }
+        inside = entries.map(child => ({ path: child.path, kind: child.kind, size: child.size ?? 0 }));
+      }
+      const files = entry.kind === "file" ? [{ path, kind: "file" as const, size: entry.size ?? 0 }] : inside.filter(child => child.kind === "file");
+      const size = files.reduce((total, file) => total + file.size, 0);
+      if (size > capacity) throw tooLarge(path, size);
+
+      let done = 0;
+      const contents: TrashContent[] = entry.kind === "directory" ? [{ path: "", kind: "directory" }] : [];
+      for (const child of entry.kind === "file" ? files : inside) {
+        const relative = child.path === path ? "" : child.path.slice(path.length + 1);
+        if (child.kind === "directory") {
+          contents.push({ path: relative, kind: "directory" });
+          continue;
+        }
+        const content = await readFile(child.path, child.size, options, (bytes) => {
+          done += bytes;
+          options.onProgress?.({ unit: "bytes", done, total: size });
+        });
+        contents.push({ path: relative, kind: "file", content });
+      }
+
+      const item: TrashItem = {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        path,
+        kind: entry.kind,
+        bucket: options.bucket,
+        origin,
+        deletedAt: Date.now(),
+        size: done,
+        entryCount: inside.length,
+      };
+      // The origin's oldest items go first when there isn't room
+      const all = await load();
+      const kept = all.filter(existing => existing.origin === origin).sort((a, b) => a.deletedAt - b.deletedAt);
+      let used = kept.reduce((total, existing) => total + existing.size, 0);
+      const dropped = new Set<string>();
+      while (kept.length > 0 && used + item.size > capacity) {
+        const oldest = kept.shift()!;
+        await storage.delete(oldest.id);
+        dropped.add(oldest.id);
+        used -= oldest.size;
+      }
+      await storage.put(item, contents);
+      publish([...all.filter(existing => !dropped.has(existing.id)), item]);
+      return item;
+    },
+
+    async restore(id, options) {
+      const item = (await load()).find(candidate => candidate.id === id);
+      const contents = item && await storage.getContents(id);
+      if (!item || !contents) throw new OpfsError("NotFoundError", "That item is no longer in the Trash.", { operation: "restore" });
+      const target = { bucket: item.bucket, signal: options?.signal };
+      if (await opfsApi.exists(item.path, target)) {
+        throw new OpfsError(
+          "InvalidModificationError",
+          `"${item.path}" already exists. Rename or delete it, then restore again.`,
+          { operation: "restore", path: item.path }
+        );
+      }
+
+      const ancestors = item.path.split("/").slice(0, -1);
+      for (let i = 1; i <= ancestors.length; i++) {
+        await opfsApi.create(ancestors.slice(0, i).join("/"), "directory", target);
+      }
+      try {
+        let done = 0;
+        for (const content of contents) {
+          const path = content.path ? joinPath(item.path, content.path) : item.path;
+          if (content.kind === "directory") {
+            await opfsApi.create(path, "directory", target);
+          } else {
+            await opfsApi.write(path, content.content ?? new Blob(), true, target);
+          }
+          options?.onProgress?.({ unit: "entries", done: ++done, total: contents.length });
+        }
+      } catch (err) {
+        await opfsApi.delete(item.path, { bucket: item.bucket }).catch(() => {});
+        throw err;
+      }
+      await remove(id);
+    },
+
+    remove,
+
+    async empty(origin) {
+      const all = await load();
+      for (const item of all.filter(candidate => candidate.origin === origin)) {
+        await storage.delete(item.id);
+      }
+      publish(all.filter(item => item.origin !== origin));
+    },
+
+    getSnapshot,
+    subscribe,
+  };
+}
+
+/**
+ * Trash storage in an IndexedDB database of the panel (the extension's
+ * origin), opened on first use. Item metadata and contents are kept in
+ * separate stores, so listing the Trash doesn't load every file.
+ */
+export function createIndexedDbTrashStorage(name = "opfs-explorer-trash"): TrashStorage {
+  const transaction = openStores(name, ["items", "contents"]);
+
+  return {
+    async getAll() {
+      return request((await transaction("readonly")).objectStore("items").getAll());
+    },
+    async put(item, contents) {
+      const tx = await transaction("readwrite");
+      tx.objectStore("items").put(item);
+      tx.objectStore("contents").put({ id: item.id, contents });
+      await committed(tx);
+    },
+    async getContents(id) {
+      const record = await request((await transaction("readonly")).objectStore("contents").get(id));
+      return (record as { contents: TrashContent[] } | undefined)?.contents;
+    },
+    async delete(id) {
+      const tx = await transaction("readwrite");
+      tx.objectStore("items").delete(id);
+      tx.objectStore("contents").delete(id);
+      await committed(tx);
+    },
+  };
+}
+
+/** The explorer's Trash */
+export const trash = createTrash(createIndexedDbTrashStorage());
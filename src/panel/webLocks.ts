@@ -0,0 +1,25 @@
+/**
+ * Matches Web Lock names against OPFS paths. Apps that coordinate file
+ * access usually name a lock after the file it guards, often with a prefix
+ * ("sqlite:/db/app.sqlite3", "sync-engine|data/state.json"), so a lock
+ * relates to a file when the file's path appears in the lock name.
+ */
+
+// Characters apps commonly put between a prefix and the path
+const SEPARATORS = /[\s:|#?,;=@]+/;
+
+/**
+ * The OPFS path a lock name refers to, if any. Each part of the name is
+ * tried as a path with any leading directories dropped one by one, longest
+ * match first; leading and trailing slashes are ignored.
+ */
+export function correlateLockName(name: string, paths: ReadonlySet<string>): string | null {
+  for (const part of name.split(SEPARATORS)) {
+    const segments = part.split("/").filter(Boolean);
+    for (let i = 0; i < segments.length; i++) {
+      const candidate = segments.slice(i).join("/");
+      if (paths.has(candidate)) return candidate;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { createActivityLog, filterActivity } from "../panel/activityLog";
+import { activityLog, opfsApi, setBackend } from "../panel/api";
+import { createMemoryBackend } from "../panel/memoryBackend";
+
+describe("activity log", () => {
+  it("keeps the most recent entries up to its capacity", () => {
+    const log = createActivityLog(2);
+    for (const operation of ["list", "write", "delete"]) {
+      log.record({ operation, paths: ["a"], startedAt: 0, duration: 1, status: "ok" });
+    }
+
+    expect(log.getSnapshot().map(e => [e.id, e.operation])).toEqual([[2, "write"], [3, "delete"]]);
+    log.clear();
+    expect(log.getSnapshot()).toEqual([]);
+  });
+
+  it("filters by text and status", () => {
+    const log = createActivityLog();
+    log.record({ operation: "rename", paths: ["docs/a.txt", "docs/b.txt"], startedAt: 0, duration: 5, status: "ok" });
+    log.record({
+      operation: "delete", paths: ["cache"], startedAt: 0, duration: 2, status: "error",
+      error: { code: "NoModificationAllowedError", message: "Locked" },
+    });
+
+    expect(filterActivity(log.getSnapshot(), "b.txt").map(e => e.operation)).toEqual(["rename"]);
+    expect(filterActivity(log.getSnapshot(), "locked").map(e => e.operation)).toEqual(["delete"]);
+    expect(filterActivity(log.getSnapshot(), "", "error").map(e => e.operation)).toEqual(["delete"]);
+  });
+
+  it("records opfsApi calls with their outcome", async () => {
+    setBackend(createMemoryBackend({ "a.txt": "hi" }));
+    activityLog.clear();
+
+    await opfsApi.write("b.txt", "héllo");
+    await opfsApi.list("");
+    await expect(opfsApi.rename("missing.txt", "c.txt")).rejects.toThrow();
+
+    expect(activityLog.getSnapshot()).toMatchObject([
+      { operation: "write", paths: ["b.txt"], payloadSize: 6, status: "ok" },
+      { operation: "list", paths: [""], result: "2 entries", status: "ok" },
+      { operation: "rename", paths: ["missing.txt", "c.txt"], status: "error", error: { code: "NotFoundError" } },
+    ]);
+    setBackend(null);
+  });
+});
@@ -38,6 +38,24 @@ describe("opfsApi", () => {
     await expect(opfsApi.list("")).rejects.toThrow("Description error");
   });
 
+  it("should reject with a typed OpfsError carrying the page-side error name, operation and path", async () => {
+    (chrome.devtools.inspectedWindow.eval as Mock).mockImplementation(
+      (code, callback) => {
+        if (code.includes("delete window")) {
+          callback?.(undefined, undefined);
+        } else {
+          callback({ status: "error", error: "A requested file or directory could not be found", name: "NotFoundError" }, undefined);
+        }
+      }
+    );
+
+    const { opfsApi, OpfsError } = await import("../panel/api");
+
+    const error = await opfsApi.rename("docs/a.txt", "b.txt").catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(OpfsError);
+    expect(error).toMatchObject({ code: "NotFoundError", operation: "rename", path: "docs/a.txt" });
+  });
+
   it("should resolve immediately when result is already done", async () => {
     const mockFiles = [{ name: "test.txt", kind: "file", path: "test.txt" }];
 
@@ -81,20 +99,7 @@ describe("opfsApi", () => {
   });
 
   it("delete() should use the self-healing removal helper to recover from corrupted/ghost OPFS entries", async () => {
-    let capturedCode = "";
-
-    (chrome.devtools.inspectedWindow.eval as Mock).mockImplementation(
-      (code, callback) => {
-        if (!capturedCode && !code.includes("delete window")) {
-          capturedCode = code;
-        }
-        if (code.includes("delete window")) {
-          callback?.(undefined, undefined);
-        } else {
-          callback({ status: "done", result: true }, undefined);
-        }
-      }
-    );
+    const page = simulatePage({ delete: true });
 
     const { opfsApi } = await import("../panel/api");
 
@@ -102,30 +107,108 @@ describe("opfsApi", () => {
     // Regression guard: delete() must route through the robust helper that
     // repairs "ghost" entries (visible in listings but not resolvable) by
     // recreating them before removal, rather than calling removeEntry directly.
-    expect(capturedCode).toContain("__opfs_removeEntryRobust");
-    expect(capturedCode).toContain("await __opfs_removeEntryRobust(dirHandle, name)");
+    expect(page.installCode).toContain("removeEntryRobust");
+    expect(page.installCode).toContain("await removeEntryRobust(dirHandle, name)");
   });
 
   it("rename() should surface a clear error for entries that can't be resolved as a file or directory", async () => {
-    let capturedCode = "";
-
-    (chrome.devtools.inspectedWindow.eval as Mock).mockImplementation(
-      (code, callback) => {
-        if (!capturedCode && !code.includes("delete window")) {
-          capturedCode = code;
-        }
-        if (code.includes("delete window")) {
-          callback?.(undefined, undefined);
-        } else {
-          callback({ status: "done", result: true }, undefined);
-        }
-      }
-    );
+    const page = simulatePage({ rename: true });
 
     const { opfsApi } = await import("../panel/api");
 
     await opfsApi.rename("some/dir", "renamed");
-    expect(capturedCode).toContain("corrupted");
-    expect(capturedCode).toContain("__opfs_removeEntryRobust(dirHandle, oldName)");
+    expect(page.installCode).toContain("corrupted");
+    expect(page.installCode).toContain("removeEntryRobust(dirHandle, oldName)");
+  });
+
+  it("installs the runtime once and then only sends small invocation payloads", async () => {
+    const page = simulatePage({ list: [], exists: true });
+
+    const { opfsApi } = await import("../panel/api");
+
+    await opfsApi.list("a");
+    await opfsApi.exists("a/b.txt");
+    await opfsApi.list("a/b");
+
+    expect(page.installs).toBe(1);
+    expect(page.invocations).toHaveLength(4); // first list is retried after installing
+    for (const code of page.invocations) {
+      expect(code.length).toBeLessThan(1024);
+      expect(code).not.toContain("removeEntryRobust");
+    }
+  });
+
+  it("reinstalls the runtime after the page navigates", async () => {
+    const page = simulatePage({ list: [] });
+
+    const { opfsApi } = await import("../panel/api");
+
+    await opfsApi.list("");
+    page.navigate();
+    await opfsApi.list("");
+
+    expect(page.installs).toBe(2);
+  });
+
+  it("nests walk results into a tree", async () => {
+    const page = simulatePage({
+      walk: {
+        entries: [
+          { name: "a", kind: "directory", path: "a", depth: 0 },
+          { name: "b", kind: "directory", path: "a/b", depth: 1 },
+          { name: "c.txt", kind: "file", path: "a/b/c.txt", depth: 2 },
+          { name: "d.txt", kind: "file", path: "a/d.txt", depth: 1 },
+          { name: "e.txt", kind: "file", path: "e.txt", depth: 0 },
+        ],
+        truncated: false,
+      },
+    });
+
+    const { opfsApi } = await import("../panel/api");
+
+    const { entries } = await opfsApi.walk("", { nested: true });
+    expect(entries).toMatchObject([
+      { path: "a", children: [{ path: "a/b", children: [{ path: "a/b/c.txt" }] }, { path: "a/d.txt" }] },
+      { path: "e.txt" },
+    ]);
+    expect(entries[1]).not.toHaveProperty("depth");
+    expect(page.invocations).toHaveLength(2);
   });
 });
+
+/**
+ * Fakes the inspected page for the eval transport: tracks whether the
+ * runtime has been installed and answers invocations with canned results
+ * keyed by operation name.
+ */
+function simulatePage(results: Record<string, unknown>) {
+  const page = {
+    installed: false,
+    installs: 0,
+    installCode: "",
+    invocations: [] as string[],
+    navigate() {
+      page.installed = false;
+    },
+  };
+
+  (chrome.devtools.inspectedWindow.eval as Mock).mockImplementation(
+    (code: string, callback) => {
+      if (code.includes("delete window")) {
+        callback?.(undefined, undefined);
+      } else if (code.includes("Object.defineProperty(window")) {
+        page.installed = true;
+        page.installs++;
+        page.installCode = code;
+        callback({ status: "done", result: true }, undefined);
+      } else {
+        page.invocations.push(code);
+        const op = /runtime\.start\("[^"]*", "(\w+)"/.exec(code)?.[1] ?? "";
+        const result = page.installed ? results[op] : { __opfsRuntimeMissing: true };
+        callback({ status: "done", result }, undefined);
+      }
+    }
+  );
+
+  return page;
+}
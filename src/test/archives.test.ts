@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { isArchive, readArchive } from "../panel/archives";
+
+const encoder = new TextEncoder();
+
+// A ZIP with stored (uncompressed) entries, laid out the way zip tools do
+function buildZip(entries: { name: string; data?: string }[]): Blob {
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = encoder.encode(entry.data ?? "");
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(12, (2024 - 1980) << 9 | 3 << 5 | 15, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, name.length, true);
+    local.push(new Uint8Array(header.buffer), name, data);
+
+    const record = new DataView(new ArrayBuffer(46));
+    record.setUint32(0, 0x02014b50, true);
+    record.setUint16(14, (2024 - 1980) << 9 | 3 << 5 | 15, true);
+    record.setUint32(20, data.length, true);
+    record.setUint32(24, data.length, true);
+    record.setUint16(28, name.length, true);
+    record.setUint32(42, offset, true);
+    central.push(new Uint8Array(record.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+  const centralSize = central.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...local, ...central, new Uint8Array(end.buffer)]);
+}
+
+// A ustar archive; type "5" entries are folders
+function buildTar(entries: { name: string; type?: string; data?: string }[]): Blob {
+  const blocks: Uint8Array[] = [];
+  const field = (header: Uint8Array, offset: number, text: string) => header.set(encoder.encode(text), offset);
+  for (const entry of entries) {
+    const data = encoder.encode(entry.data ?? "");
+    const header = new Uint8Array(512);
+    field(header, 0, entry.name);
+    field(header, 124, data.length.toString(8).padStart(11, "0"));
+    field(header, 136, (1700000000).toString(8).padStart(11, "0"));
+    field(header, 156, entry.type ?? "0");
+    field(header, 257, "ustar");
+    blocks.push(header, new Uint8Array(Math.ceil(data.length / 512) * 512));
+    blocks[blocks.length - 1].set(data);
+  }
+  blocks.push(new Uint8Array(1024));
+  return new Blob(blocks);
+}
+
+const text = (file: File | undefined) => file!.text();
+
+describe("archive import", () => {
+  it("recognizes archives by their extension", () => {
+    expect(isArchive(new File([], "backup.ZIP"))).toBe(true);
+    expect(isArchive(new File([], "logs.tar.gz"))).toBe(true);
+    expect(isArchive(new File([], "logs.tgz"))).toBe(true);
+    expect(isArchive(new File([], "notes.gz"))).toBe(false);
+  });
+
+  it("reads the folders and files of a ZIP", async () => {
+    const entries = await readArchive(buildZip([
+      { name: "data/" },
+      { name: "data/users.json", data: "[1,2]" },
+      { name: "readme.txt", data: "hello" },
+    ]));
+
+    expect(entries.map(({ path, kind }) => ({ path, kind }))).toEqual([
+      { path: "data", kind: "directory" },
+      { path: "data/users.json", kind: "file" },
+      { path: "readme.txt", kind: "file" },
+    ]);
+    expect(entries[1].file!.name).toBe("users.json");
+    expect(await text(entries[1].file)).toBe("[1,2]");
+    expect(new Date(entries[2].file!.lastModified).getFullYear()).toBe(2024);
+  });
+
+  it("reads the folders and files of a tar", async () => {
+    const entries = await readArchive(buildTar([
+      { name: "logs/", type: "5" },
+      { name: "logs/today.log", data: "x".repeat(600) },
+      { name: "logs/link", type: "2" },
+      { name: "config.ini", data: "a=1" },
+    ]));
+
+    expect(entries.map(({ path, kind }) => ({ path, kind }))).toEqual([
+      { path: "logs", kind: "directory" },
+      { path: "logs/today.log", kind: "file" },
+      { path: "config.ini", kind: "file" },
+    ]);
+    expect((await text(entries[1].file)).length).toBe(600);
+    expect(await text(entries[2].file)).toBe("a=1");
+    expect(entries[2].file!.lastModified).toBe(1700000000 * 1000);
+  });
+
+  it("leaves out entries that would land outside the target folder", async () => {
+    const entries = await readArchive(buildZip([
+      { name: "../escape.txt", data: "no" },
+      { name: "/abs/./file.txt", data: "ok" },
+      { name: "__MACOSX/._file.txt", data: "fork" },
+    ]));
+
+    expect(entries.map(entry => entry.path)).toEqual(["abs/file.txt"]);
+  });
+
+  it("rejects files that aren't archives", async () => {
+    await expect(readArchive(new Blob(["plain text"]))).rejects.toMatchObject({ name: "NotSupportedError" });
+  });
+});
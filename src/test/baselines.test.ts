@@ -0,0 +1,62 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createBaselines, listTree, type BaselineData, type BaselineItem, type BaselineStorage } from "../panel/baselines";
+import { opfsApi, setBackend } from "../panel/api";
+import { compareListings } from "../panel/compare";
+import { createMemoryBackend } from "../panel/memoryBackend";
+
+// Baseline storage kept in a Map, standing in for IndexedDB
+function mapStorage(): BaselineStorage {
+  const records = new Map<string, { item: BaselineItem; data: BaselineData }>();
+  return {
+    getAll: async () => [...records.values()].map(record => record.item),
+    put: async (item, data) => {
+      records.set(item.id, { item, data });
+    },
+    getData: async (id) => records.get(id)?.data,
+    delete: async (id) => {
+      records.delete(id);
+    },
+  };
+}
+
+const origin = "https://app.example";
+
+describe("baselines", () => {
+  afterEach(() => setBackend(null));
+
+  it("keeps a listing with hashes and the text of text files", async () => {
+    setBackend(createMemoryBackend({ data: { "a.txt": "alpha", "1.bin": new Uint8Array([0, 255, 7]) }, "b.json": "{}" }));
+    const baselines = createBaselines(mapStorage());
+
+    const item = await baselines.capture({ origin, hash: true });
+    expect(item).toMatchObject({ origin, entryCount: 4, hashed: true });
+    expect(baselines.getSnapshot()).toEqual([item]);
+
+    const { manifest, texts } = await baselines.load(item.id);
+    expect(texts).toEqual({ "data/a.txt": "alpha", "b.json": "{}" });
+    const a = manifest.entries.find(entry => entry.path === "data/a.txt");
+    // SHA-256 of "alpha"
+    expect(a).toMatchObject({ kind: "file", size: 5, hash: "8ed3f6ad685b959ead7022518e1af76cd816f8e8ec7ccdda1ed4018e8f2223f8" });
+
+    await baselines.remove(item.id);
+    await expect(baselines.load(item.id)).rejects.toMatchObject({ code: "NotFoundError" });
+  });
+
+  it("shows what changed since the baseline was taken", async () => {
+    setBackend(createMemoryBackend({ data: { "a.txt": "alpha", "old.txt": "old" } }));
+    const baselines = createBaselines(mapStorage());
+    const item = await baselines.capture({ origin });
+
+    await opfsApi.write("data/a.txt", btoa("alpha, grown"), true);
+    await opfsApi.delete("data/old.txt");
+    await opfsApi.create("data/new.txt", "file");
+
+    const { manifest } = await baselines.load(item.id);
+    const changes = compareListings(manifest.entries, await listTree());
+    expect(changes.map(({ path, change }) => `${change} ${path}`)).toEqual([
+      "resized data/a.txt",
+      "added data/new.txt",
+      "removed data/old.txt",
+    ]);
+  });
+});
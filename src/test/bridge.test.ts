@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from "vitest";
+import type { BridgeMessage } from "../page/protocol";
+
+// Minimal stand-in for a chrome.runtime.Port whose other end is driven by
+// the test through `reply`.
+function createFakePort(onPost: (message: BridgeMessage, reply: (m: BridgeMessage) => void) => void) {
+  const messageListeners: ((m: BridgeMessage) => void)[] = [];
+  const disconnectListeners: (() => void)[] = [];
+  const reply = (m: BridgeMessage) => messageListeners.forEach(l => l(m));
+  return {
+    name: "opfs-explorer-panel",
+    postMessage: vi.fn((m: BridgeMessage) => queueMicrotask(() => onPost(m, reply))),
+    disconnect: vi.fn(() => disconnectListeners.forEach(l => l())),
+    onMessage: { addListener: (l: (m: BridgeMessage) => void) => messageListeners.push(l) },
+    onDisconnect: { addListener: (l: () => void) => disconnectListeners.push(l) },
+  };
+}
+
+const runtime = chrome.runtime as unknown as { connect?: Mock };
+
+describe("content-script bridge", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    delete runtime.connect;
+  });
+
+  it("routes operations through the port instead of eval when the content script answers", async () => {
+    runtime.connect = vi.fn(() =>
+      createFakePort((message, reply) => {
+        if (message.type === "attach") reply({ type: "ready", session: "s1" });
+        if (message.type === "invoke" && message.op === "list") {
+          reply({ type: "result", id: message.id, result: [{ name: "a.txt", kind: "file", path: "a.txt" }] });
+        }
+      })
+    );
+
+    const { opfsApi } = await import("../panel/api");
+
+    await expect(opfsApi.list("")).resolves.toEqual([{ name: "a.txt", kind: "file", path: "a.txt" }]);
+    expect(chrome.devtools.inspectedWindow.eval).not.toHaveBeenCalled();
+  });
+
+  it("rejects with the page-side error message and name", async () => {
+    runtime.connect = vi.fn(() =>
+      createFakePort((message, reply) => {
+        if (message.type === "attach") reply({ type: "ready", session: "s1" });
+        if (message.type === "invoke") reply({ type: "error", id: message.id, error: "Boom", name: "QuotaExceededError" });
+      })
+    );
+
+    const { opfsApi } = await import("../panel/api");
+
+    await expect(opfsApi.delete("x")).rejects.toThrow("Boom");
+    await expect(opfsApi.delete("x")).rejects.toMatchObject({ code: "QuotaExceededError", operation: "delete", path: "x" });
+  });
+
+  it("forwards progress and sends a cancel message when the signal aborts", async () => {
+    const sent: BridgeMessage[] = [];
+    runtime.connect = vi.fn(() =>
+      createFakePort((message, reply) => {
+        sent.push(message);
+        if (message.type === "attach") reply({ type: "ready", session: "s1" });
+        if (message.type === "invoke") {
+          reply({ type: "progress", id: message.id, progress: { unit: "bytes", done: 5, total: 10 } });
+        }
+        if (message.type === "cancel") {
+          reply({ type: "error", id: message.id, error: "The operation was cancelled.", name: "AbortError" });
+        }
+      })
+    );
+
+    const { opfsApi } = await import("../panel/api");
+
+    const controller = new AbortController();
+    const onProgress = vi.fn(() => controller.abort());
+    await expect(
+      opfsApi.write("big.txt", "AAAA", false, { signal: controller.signal, onProgress })
+    ).rejects.toMatchObject({ code: "AbortError" });
+    expect(onProgress).toHaveBeenCalledWith({ unit: "bytes", done: 5, total: 10 });
+    expect(sent.map(m => m.type)).toEqual(["attach", "invoke", "cancel"]);
+  });
+
+  it("streams binary writes in chunks and commits only after the last one", async () => {
+    const invoked: { op: string; args: Record<string, unknown> }[] = [];
+    runtime.connect = vi.fn(() =>
+      createFakePort((message, reply) => {
+        if (message.type === "attach") reply({ type: "ready", session: "s1" });
+        if (message.type !== "invoke") return;
+        invoked.push({ op: message.op, args: message.args as Record<string, unknown> });
+        reply({ type: "result", id: message.id, result: message.op === "openWrite" ? { stream: "w1" } : true });
+      })
+    );
+
+    const { opfsApi } = await import("../panel/api");
+
+    // 1 MB of base64 per chunk, so this takes two
+    const payload = "A".repeat(1024 * 1024 + 8);
+    const controller = new AbortController();
+    const onProgress = vi.fn();
+    await opfsApi.write("model.bin", payload, true, { bucket: "models", onProgress });
+
+    expect(invoked.map(call => call.op)).toEqual(["openWrite", "writeChunk", "writeChunk", "closeWrite"]);
+    expect(invoked[0].args).toEqual({ path: "model.bin", bucket: "models" });
+    expect(invoked[2].args).toEqual({ stream: "w1", content: "AAAAAAAA" });
+    expect(invoked[3].args).toEqual({ stream: "w1", commit: true });
+    expect(onProgress).toHaveBeenLastCalledWith({ unit: "bytes", done: 786438, total: 786438 });
+
+    // Cancelling part-way discards the stream instead
+    invoked.length = 0;
+    await expect(
+      opfsApi.write("model.bin", payload, true, { signal: controller.signal, onProgress: () => controller.abort() })
+    ).rejects.toMatchObject({ code: "AbortError" });
+    expect(invoked.map(call => call.op)).toEqual(["openWrite", "writeChunk", "closeWrite"]);
+    expect(invoked[2].args).toEqual({ stream: "w1", commit: false });
+
+    // Files are read a slice at a time and each slice is encoded on its own
+    invoked.length = 0;
+    const file = new File([new Uint8Array(768 * 1024).fill(0xff), "hi"], "upload.bin");
+    await opfsApi.write("upload.bin", file, true, { onProgress });
+    expect(invoked.map(call => call.op)).toEqual(["openWrite", "writeChunk", "writeChunk", "closeWrite"]);
+    expect((invoked[1].args.content as string).length).toBe(1024 * 1024);
+    expect(invoked[2].args).toEqual({ stream: "w1", content: btoa("hi") });
+    expect(onProgress).toHaveBeenLastCalledWith({ unit: "bytes", done: 768 * 1024 + 2, total: 768 * 1024 + 2 });
+  });
+
+  it("attaches to the selected frame and sticks with the first matching content script", async () => {
+    const sent: BridgeMessage[] = [];
+    runtime.connect = vi.fn(() =>
+      createFakePort((message, reply) => {
+        sent.push(message);
+        if (message.type === "attach") {
+          // Two frames share the URL; both answer
+          reply({ type: "ready", session: "first" });
+          reply({ type: "ready", session: "second" });
+        }
+        if (message.type === "invoke") reply({ type: "result", id: message.id, result: true });
+      })
+    );
+
+    const { opfsApi } = await import("../panel/api");
+    const { setTargetFrame } = await import("../panel/frames");
+
+    setTargetFrame("https://editor.example/frame.html");
+    await expect(opfsApi.exists("a.txt")).resolves.toBe(true);
+    expect(sent[0]).toEqual({ type: "attach", tabId: 123, frameURL: "https://editor.example/frame.html" });
+    expect(sent[1]).toMatchObject({ type: "invoke", session: "first" });
+
+    // Switching back to the top frame re-attaches
+    setTargetFrame(null);
+    await opfsApi.exists("a.txt");
+    expect(runtime.connect).toHaveBeenCalledTimes(2);
+    expect(sent[2]).toEqual({ type: "attach", tabId: 123 });
+  });
+
+  it("falls back to eval when the content script isn't reachable", async () => {
+    runtime.connect = vi.fn(() =>
+      createFakePort((message, reply) => {
+        if (message.type === "attach") reply({ type: "detached" });
+      })
+    );
+    (chrome.devtools.inspectedWindow.eval as Mock).mockImplementation((code, callback) => {
+      if (code.includes("delete window")) {
+        callback?.(undefined, undefined);
+      } else {
+        callback({ status: "done", result: true }, undefined);
+      }
+    });
+
+    const { opfsApi } = await import("../panel/api");
+
+    await expect(opfsApi.exists("a.txt")).resolves.toBe(true);
+    expect(chrome.devtools.inspectedWindow.eval).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_RENAME_RULE, planRenames, type RenameSource } from "../panel/bulkRename";
+
+const file = (path: string): RenameSource => ({ path, name: path.split("/").pop()!, kind: "file" });
+
+describe("bulk rename", () => {
+  it("replaces with capture groups, changes case and numbers entries in order", () => {
+    const entries = [file("logs/IMG_2023.JPG"), file("logs/IMG_2024.JPG")];
+    const plan = planRenames(entries, {
+      ...DEFAULT_RENAME_RULE,
+      find: "^IMG_(\\d+)$",
+      replace: "photo-$1",
+      regex: true,
+      case: "lower",
+      suffix: "-{n}",
+      start: 7,
+      digits: 3,
+    }, new Map([["logs", new Set(["IMG_2023.JPG", "IMG_2024.JPG"])]]));
+
+    expect(plan.map(item => item.newName)).toEqual(["photo-2023-007.JPG", "photo-2024-008.JPG"]);
+    expect(plan.every(item => !item.problem)).toBe(true);
+  });
+
+  it("replaces plain text literally, and renames the extension only when asked", () => {
+    const entries = [file("a.b.txt")];
+    const siblings = new Map([["", new Set(["a.b.txt"])]]);
+    expect(planRenames(entries, { ...DEFAULT_RENAME_RULE, find: ".", replace: "$" }, siblings)[0].newName).toBe("a$b.txt");
+    expect(planRenames(entries, { ...DEFAULT_RENAME_RULE, case: "upper", includeExtension: true }, siblings)[0].newName).toBe("A.B.TXT");
+  });
+
+  it("flags names that are taken, shared or invalid", () => {
+    const entries = [file("a.txt"), file("b.txt"), file("c.txt")];
+    const siblings = new Map([["", new Set(["a.txt", "b.txt", "c.txt", "x.txt"])]]);
+
+    const plan = planRenames(entries, { ...DEFAULT_RENAME_RULE, find: "[ab]", replace: "x", regex: true }, siblings);
+    expect(plan.map(item => item.problem)).toEqual(['"x.txt" already exists', '"x.txt" already exists', undefined]);
+
+    const shared = planRenames(entries.slice(0, 2), { ...DEFAULT_RENAME_RULE, find: "[ab]", replace: "y", regex: true }, siblings);
+    expect(shared.map(item => item.problem)).toEqual(['Another entry would also be named "y.txt"', 'Another entry would also be named "y.txt"']);
+
+    const invalid = planRenames([file("a.txt")], { ...DEFAULT_RENAME_RULE, prefix: "dir/" }, siblings);
+    expect(invalid[0].problem).toBe("Names can't contain / or \\");
+  });
+
+  it("rejects an invalid regular expression", () => {
+    expect(() => planRenames([file("a.txt")], { ...DEFAULT_RENAME_RULE, find: "(", regex: true }, new Map())).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { compareListings, diffLines } from "../panel/compare";
+
+describe("compare", () => {
+  it("groups entries as added, removed, resized and modified", () => {
+    const changes = compareListings(
+      [
+        { path: "data", kind: "directory" },
+        { path: "data/old.txt", kind: "file", size: 3, lastModified: 1 },
+        { path: "data/grown.txt", kind: "file", size: 3, lastModified: 1 },
+        { path: "data/touched.txt", kind: "file", size: 3, lastModified: 1 },
+        { path: "data/same.txt", kind: "file", size: 3, lastModified: 1 },
+        { path: "cache", kind: "file", size: 0, lastModified: 1 },
+      ],
+      [
+        { path: "data", kind: "directory" },
+        { path: "data/new.txt", kind: "file", size: 1, lastModified: 2 },
+        { path: "data/grown.txt", kind: "file", size: 9, lastModified: 2 },
+        { path: "data/touched.txt", kind: "file", size: 3, lastModified: 2 },
+        { path: "data/same.txt", kind: "file", size: 3, lastModified: 1 },
+        { path: "cache", kind: "directory" },
+      ]
+    );
+
+    expect(changes.map(({ path, kind, change }) => `${change} ${kind} ${path}`)).toEqual([
+      "removed file cache",
+      "added directory cache",
+      "resized file data/grown.txt",
+      "added file data/new.txt",
+      "removed file data/old.txt",
+      "modified file data/touched.txt",
+    ]);
+  });
+
+  it("lets hashes decide whether same-size files changed", () => {
+    const changes = compareListings(
+      [
+        { path: "a", kind: "file", size: 1, lastModified: 1, hash: "aa" },
+        { path: "b", kind: "file", size: 1, lastModified: 1, hash: "bb" },
+      ],
+      [
+        { path: "a", kind: "file", size: 1, lastModified: 5, hash: "aa" },
+        { path: "b", kind: "file", size: 1, lastModified: 1, hash: "b2" },
+      ]
+    );
+
+    expect(changes.map(change => change.path)).toEqual(["b"]);
+  });
+
+  it("diffs text line by line", () => {
+    expect(diffLines("a\nb\nc\nd", "a\nc\nd\ne")).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "same", text: "c" },
+      { type: "same", text: "d" },
+      { type: "added", text: "e" },
+    ]);
+    expect(diffLines("same", "same")).toEqual([{ type: "same", text: "same" }]);
+    expect(diffLines("", "x")).toEqual([{ type: "removed", text: "" }, { type: "added", text: "x" }]);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { fromFiles, readDataTransfer } from "../panel/localFiles";
+
+// Just enough of the File and Directory Entries API for a dropped tree;
+// directory readers hand out one child per batch, like a long listing would
+function fileEntry(name: string, content: string): FileSystemFileEntry {
+  return {
+    name,
+    isFile: true,
+    isDirectory: false,
+    file: (resolve: (file: File) => void) => resolve(new File([content], name)),
+  } as unknown as FileSystemFileEntry;
+}
+
+function directoryEntry(name: string, children: FileSystemEntry[]): FileSystemDirectoryEntry {
+  return {
+    name,
+    isFile: false,
+    isDirectory: true,
+    createReader: () => {
+      const remaining = [...children];
+      return { readEntries: (resolve: (batch: FileSystemEntry[]) => void) => resolve(remaining.splice(0, 1)) };
+    },
+  } as unknown as FileSystemDirectoryEntry;
+}
+
+function drop(roots: FileSystemEntry[]): DataTransfer {
+  return {
+    items: roots.map(root => ({ kind: "file", webkitGetAsEntry: () => root })),
+    files: [],
+  } as unknown as DataTransfer;
+}
+
+describe("local files", () => {
+  it("walks dropped folders, parents before their contents", async () => {
+    const entries = await readDataTransfer(drop([
+      directoryEntry("fixtures", [
+        fileEntry("users.json", "[]"),
+        directoryEntry("empty", []),
+        directoryEntry("nested", [fileEntry("a.txt", "a")]),
+      ]),
+      fileEntry("notes.txt", "hi"),
+    ]));
+
+    expect(entries.map(({ path, kind }) => ({ path, kind }))).toEqual([
+      { path: "fixtures", kind: "directory" },
+      { path: "fixtures/users.json", kind: "file" },
+      { path: "fixtures/empty", kind: "directory" },
+      { path: "fixtures/nested", kind: "directory" },
+      { path: "fixtures/nested/a.txt", kind: "file" },
+      { path: "notes.txt", kind: "file" },
+    ]);
+    expect(await entries[4].file!.text()).toBe("a");
+  });
+
+  it("falls back to the flat file list without entries", async () => {
+    const file = new File(["x"], "plain.txt");
+    const entries = await readDataTransfer({ items: undefined, files: [file] } as unknown as DataTransfer);
+
+    expect(entries).toEqual([{ path: "plain.txt", kind: "file", file }]);
+  });
+
+  it("keeps the paths of files picked with a directory picker", () => {
+    const file = new File(["x"], "a.txt");
+    Object.defineProperty(file, "webkitRelativePath", { value: "fixtures/nested/a.txt" });
+
+    expect(fromFiles([file])[0].path).toBe("fixtures/nested/a.txt");
+  });
+});
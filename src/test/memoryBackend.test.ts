@@ -0,0 +1,218 @@
+import { describe, it, expect, vi } from "vitest";
+import { createMemoryBackend } from "../panel/memoryBackend";
+
+describe("in-memory backend", () => {
+  it("lists seeded contents with directories first", async () => {
+    const backend = createMemoryBackend({
+      "b.txt": "hello",
+      "a": { "nested.json": "{}" },
+    });
+
+    const entries = await backend.list("");
+    expect(entries.map(e => [e.name, e.kind])).toEqual([
+      ["a", "directory"],
+      ["b.txt", "file"],
+    ]);
+    expect(entries[1].size).toBe(5);
+    await expect(backend.list("a")).resolves.toMatchObject([{ name: "nested.json", path: "a/nested.json" }]);
+  });
+
+  it("writes and reads text and binary files", async () => {
+    const backend = createMemoryBackend();
+
+    await backend.create("docs", "directory");
+    await backend.write("docs/note.md", "# Title");
+    await backend.write("docs/blob.bin", btoa("\x00\x01\x02"), true);
+
+    await expect(backend.readWithMeta("docs/note.md")).resolves.toMatchObject({
+      content: "# Title",
+      detectedType: "text",
+      isBase64: false,
+    });
+    await expect(backend.readWithMeta("docs/blob.bin")).resolves.toMatchObject({
+      detectedType: "binary",
+      size: 3,
+    });
+    await expect(backend.getStorageEstimate()).resolves.toMatchObject({ usage: 10 });
+
+    await backend.write("docs/upload.bin", new Blob([new Uint8Array([3, 4, 5, 6])]));
+    await expect(backend.readRange("docs/upload.bin", 0, 10)).resolves.toMatchObject({ content: btoa("\x03\x04\x05\x06"), size: 4 });
+  });
+
+  it("reads byte ranges, clamped to the end of the file", async () => {
+    const backend = createMemoryBackend({ "log.ndjson": "{\"a\":1}\n{\"b\":2}\n" });
+
+    const range = await backend.readRange("log.ndjson", 8, 100);
+    expect(range).toMatchObject({ offset: 8, length: 8, size: 16 });
+    expect(atob(range.content)).toBe("{\"b\":2}\n");
+    await expect(backend.readRange("log.ndjson", 50, 10)).resolves.toMatchObject({ offset: 16, length: 0 });
+  });
+
+  it("renames, moves and deletes directories recursively", async () => {
+    const backend = createMemoryBackend({ src: { lib: { "index.ts": "export {};" } }, dest: {} });
+
+    await backend.rename("src/lib", "core");
+    await expect(backend.exists("src/lib")).resolves.toBe(false);
+    await expect(backend.exists("src/core/index.ts")).resolves.toBe(true);
+
+    await backend.move("src/core", "dest/core");
+    await expect(backend.list("dest/core")).resolves.toMatchObject([{ name: "index.ts" }]);
+
+    await backend.delete("dest");
+    await expect(backend.exists("dest")).resolves.toBe(false);
+  });
+
+  it("copies files and directories recursively, refusing to overwrite", async () => {
+    const backend = createMemoryBackend({ src: { "a.txt": "alpha", lib: { "b.bin": new Uint8Array([1, 2, 3]) } } });
+
+    await backend.copy("src", "copy");
+    await expect(backend.readWithMeta("copy/a.txt")).resolves.toMatchObject({ content: "alpha" });
+    await expect(backend.list("copy/lib")).resolves.toMatchObject([{ name: "b.bin", size: 3 }]);
+    await expect(backend.exists("src/lib/b.bin")).resolves.toBe(true);
+
+    await backend.copy("src/a.txt", "src/a (copy).txt");
+    await expect(backend.readWithMeta("src/a (copy).txt")).resolves.toMatchObject({ content: "alpha" });
+
+    await expect(backend.copy("src/a.txt", "copy/a.txt")).rejects.toMatchObject({ name: "InvalidModificationError" });
+    await expect(backend.copy("src", "src/lib/src")).rejects.toMatchObject({ name: "InvalidModificationError" });
+    await expect(backend.exists("src/lib/src")).resolves.toBe(false);
+  });
+
+  it("downloads folders and selections as one ZIP archive with relative paths", async () => {
+    const backend = createMemoryBackend({ data: { "a.txt": "alpha", runs: { "1.log": "one" }, empty: {} }, "top.txt": "top" });
+    const archives: Blob[] = [];
+    vi.spyOn(URL, "createObjectURL").mockImplementation((blob) => {
+      archives.push(blob as Blob);
+      return "blob:archive";
+    });
+    vi.spyOn(URL, "revokeObjectURL").mockImplementation(() => {});
+    vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+
+    // Reads the names and stored contents back through the central directory
+    const unzip = async (blob: Blob) => {
+      const bytes = new Uint8Array(await blob.arrayBuffer());
+      const view = new DataView(bytes.buffer);
+      const end = bytes.length - 22;
+      expect(view.getUint32(end, true)).toBe(0x06054b50);
+      const files: Record<string, string> = {};
+      let record = view.getUint32(end + 16, true);
+      for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+        const nameLength = view.getUint16(record + 28, true);
+        const name = new TextDecoder().decode(bytes.subarray(record + 46, record + 46 + nameLength));
+        const local = view.getUint32(record + 42, true);
+        const dataStart = local + 30 + view.getUint16(local + 26, true);
+        files[name] = new TextDecoder().decode(bytes.subarray(dataStart, dataStart + view.getUint32(record + 20, true)));
+        record += 46 + nameLength;
+      }
+      return files;
+    };
+
+    await expect(backend.downloadZip(["data"], { name: "data.zip", compress: false })).resolves.toMatchObject({ entries: 5 });
+    expect(await unzip(archives[0])).toEqual({
+      "data/": "", "data/empty/": "", "data/runs/": "", "data/runs/1.log": "one", "data/a.txt": "alpha",
+    });
+
+    await backend.downloadZip(["data/runs", "data/runs/1.log", "top.txt"], { name: "mixed.zip", compress: false });
+    expect(Object.keys(await unzip(archives[1])).sort()).toEqual(["data/runs/", "data/runs/1.log", "top.txt"]);
+    vi.restoreAllMocks();
+  });
+
+  it("walks a subtree depth-first, up to a depth and an entry limit", async () => {
+    const backend = createMemoryBackend({
+      "top.txt": "x",
+      "a": { "b": { "deep.txt": "deep" }, "c.txt": "c" },
+    });
+
+    const { entries, truncated } = await backend.walk("");
+    expect(entries.map(e => [e.path, e.depth])).toEqual([
+      ["a", 0],
+      ["a/b", 1],
+      ["a/b/deep.txt", 2],
+      ["a/c.txt", 1],
+      ["top.txt", 0],
+    ]);
+    expect(truncated).toBe(false);
+    expect(entries[2].size).toBeUndefined();
+
+    await expect(backend.walk("a", { maxDepth: 1, includeMeta: true })).resolves.toMatchObject({
+      entries: [{ path: "a/b", depth: 0 }, { path: "a/c.txt", size: 1 }],
+    });
+    const limited = await backend.walk("", { limit: 2 });
+    expect(limited.entries.map(e => e.path)).toEqual(["a", "a/b"]);
+    expect(limited.truncated).toBe(true);
+  });
+
+  it("runs batches, reporting each operation and optionally stopping on failure", async () => {
+    const backend = createMemoryBackend({ "cache": { "1.bin": "a", "2.bin": "b" } });
+    const progress: number[] = [];
+
+    const results = await backend.batch([
+      { op: "create", path: "logs", kind: "directory" },
+      { op: "write", path: "logs/today.log", content: "ok" },
+      { op: "delete", path: "missing/1.bin" },
+      { op: "move", oldPath: "cache/1.bin", newPath: "logs/1.bin" },
+      { op: "delete", path: "cache" },
+    ], { onProgress: p => progress.push(p.done) });
+
+    expect(results.map(r => r.ok)).toEqual([true, true, false, true, true]);
+    expect(results[2].error).toMatchObject({ name: "NotFoundError" });
+    expect(progress).toEqual([1, 2, 3, 4, 5]);
+    expect((await backend.list("")).map(e => e.path)).toEqual(["logs"]);
+    expect((await backend.list("logs")).map(e => e.name)).toEqual(["1.bin", "today.log"]);
+
+    await expect(backend.batch([
+      { op: "delete", path: "nope/1.bin" },
+      { op: "delete", path: "logs" },
+    ], { stopOnError: true })).resolves.toEqual([
+      { ok: false, error: expect.objectContaining({ name: "NotFoundError" }) },
+      { ok: false, skipped: true },
+    ]);
+    await expect(backend.exists("logs")).resolves.toBe(true);
+  });
+
+  it("rejects with OPFS-style errors for missing entries", async () => {
+    const backend = createMemoryBackend({ "file.txt": "x" });
+
+    await expect(backend.list("missing")).rejects.toMatchObject({ name: "NotFoundError" });
+    await expect(backend.list("file.txt")).rejects.toMatchObject({ name: "TypeMismatchError" });
+  });
+
+  it("has no named storage buckets", async () => {
+    const backend = createMemoryBackend({ "file.txt": "x" });
+
+    await expect(backend.listBuckets()).resolves.toEqual([]);
+    await expect(backend.list("", { bucket: "caches" })).rejects.toMatchObject({ name: "NotFoundError" });
+    await expect(backend.getStorageEstimate({ bucket: "caches" })).rejects.toMatchObject({ name: "NotFoundError" });
+  });
+
+  it("reports progress and stops a recursive delete when cancelled", async () => {
+    const backend = createMemoryBackend({ big: { a: "1", b: "2", c: { d: "3" } } });
+    const controller = new AbortController();
+    const progress: number[] = [];
+
+    await expect(
+      backend.delete("big", {
+        signal: controller.signal,
+        onProgress: (p) => {
+          progress.push(p.done);
+          expect(p).toMatchObject({ unit: "entries", total: 5 });
+          if (p.done === 2) controller.abort();
+        },
+      })
+    ).rejects.toMatchObject({ name: "AbortError" });
+
+    expect(progress).toEqual([1, 2]);
+    await expect(backend.exists("big")).resolves.toBe(true);
+  });
+
+  it("leaves a file unchanged when a write is cancelled", async () => {
+    const backend = createMemoryBackend({ "data.txt": "original" });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      backend.write("data.txt", "replacement", false, { signal: controller.signal })
+    ).rejects.toMatchObject({ name: "AbortError" });
+    await expect(backend.readWithMeta("data.txt")).resolves.toMatchObject({ content: "original" });
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { copyName, numberedName, splitExtension } from "../panel/names";
+
+describe("entry names", () => {
+  it("splits off the last extension, except for folders and dotfiles", () => {
+    expect(splitExtension("report.final.txt")).toEqual({ base: "report.final", ext: ".txt" });
+    expect(splitExtension(".env")).toEqual({ base: ".env", ext: "" });
+    expect(splitExtension("v1.2", "directory")).toEqual({ base: "v1.2", ext: "" });
+  });
+
+  it("names copies after the original, skipping taken names", () => {
+    expect(copyName("file.txt", "file", new Set(["file.txt"]))).toBe("file (copy).txt");
+    expect(copyName("file.txt", "file", new Set(["file.txt", "file (copy).txt"]))).toBe("file (copy 2).txt");
+    expect(copyName("file (copy).txt", "file", new Set(["file (copy).txt"]))).toBe("file (copy 2).txt");
+    expect(copyName("data.v2", "directory", new Set())).toBe("data.v2 (copy)");
+  });
+
+  it("numbers a second file of the same name", () => {
+    expect(numberedName("photo.jpg", "file", new Set(["photo.jpg"]))).toBe("photo (1).jpg");
+    expect(numberedName("photo.jpg", "file", new Set(["photo.jpg", "photo (1).jpg"]))).toBe("photo (2).jpg");
+    expect(numberedName("photo (1).jpg", "file", new Set(["photo (1).jpg"]))).toBe("photo (2).jpg");
+    expect(numberedName("photo (5).jpg", "file", new Set(["photo (5).jpg", "photo (6).jpg"]))).toBe("photo (7).jpg");
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { decodeTextPage, textPageRange, toHexRows } from "../panel/paging";
+
+// Reads the text page at `start` from `file`, the way the viewer does
+function readPage(file: string, start: number, pageSize: number) {
+  const bytes = new TextEncoder().encode(file);
+  const { offset, length } = textPageRange(start, pageSize);
+  return decodeTextPage(bytes.slice(offset, offset + length), offset, start, bytes.length, pageSize);
+}
+
+describe("paged viewer helpers", () => {
+  it("shows every line exactly once across consecutive text pages", () => {
+    const file = "alpha\nbravo\ncharlie\ndelta\necho\n";
+    const pages = [0, 8, 16, 24].map(start => readPage(file, start, 8).text);
+
+    expect(pages).toEqual(["alpha\nbravo\n", "charlie\n", "delta\n", "echo\n"]);
+    expect(pages.join("")).toBe(file);
+  });
+
+  it("keeps a line that starts exactly on the page boundary", () => {
+    expect(readPage("1234567\nnext\n", 8, 8).text).toBe("next\n");
+  });
+
+  it("doesn't split multi-byte characters", () => {
+    const file = "héllo wörld\nçava\n";
+    expect(readPage(file, 0, 4).text).toBe("héllo wörld\n");
+    expect(readPage(file, 4, 4).text).toBe("");
+  });
+
+  it("shows lines longer than the overscan page by page", () => {
+    const file = "x".repeat(200 * 1024) + "\n";
+    const page = readPage(file, 32 * 1024, 32 * 1024);
+    expect(page).toEqual({ text: "x".repeat(32 * 1024), truncated: true });
+  });
+
+  it("formats hex rows with offsets and printable ASCII", () => {
+    const rows = toHexRows(new TextEncoder().encode("SQLite format 3\u0000!"), 32);
+    expect(rows).toEqual([
+      { offset: "00000020", hex: "53 51 4c 69 74 65 20 66 6f 72 6d 61 74 20 33 00", ascii: "SQLite format 3." },
+      { offset: "00000030", hex: "21", ascii: "!" },
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { createOpfsRuntime } from "../page/runtime";
+
+// A file whose createWritable() fails the way it does while the page holds
+// a sync access handle on it
+function fakeFile(name: string, locked: boolean) {
+  return {
+    kind: "file" as const,
+    name,
+    async getFile() {
+      return new File(["data"], name);
+    },
+    async createWritable() {
+      if (locked) throw new DOMException("Access Handles cannot be created if there is another open Access Handle or Writable stream associated with the same file.", "NoModificationAllowedError");
+      return { async abort() {} };
+    },
+  };
+}
+
+function fakeDirectory(name: string, children: Record<string, ReturnType<typeof fakeFile> | FileSystemDirectoryHandle>) {
+  return {
+    kind: "directory" as const,
+    name,
+    async getFileHandle(child: string) {
+      const handle = children[child];
+      if (!handle || handle.kind !== "file") throw new DOMException("Not found", "NotFoundError");
+      return handle;
+    },
+    async getDirectoryHandle(child: string) {
+      const handle = children[child];
+      if (!handle || handle.kind !== "directory") throw new DOMException("Not found", "NotFoundError");
+      return handle;
+    },
+    async *entries() {
+      yield* Object.entries(children);
+    },
+  } as unknown as FileSystemDirectoryHandle;
+}
+
+// A directory whose files can be written, kept as their committed contents
+function writableDirectory(files: Map<string, string>) {
+  const fileHandle = (name: string) => ({
+    kind: "file" as const,
+    name,
+    async createWritable() {
+      let data = files.get(name) ?? "";
+      return {
+        async write(chunk: Uint8Array) { data += new TextDecoder().decode(chunk); },
+        async close() { files.set(name, data); },
+        async abort() {},
+      };
+    },
+  });
+  return {
+    kind: "directory" as const,
+    name: "",
+    async getFileHandle(name: string, options?: { create?: boolean }) {
+      if (!files.has(name)) {
+        if (!options?.create) throw new DOMException("Not found", "NotFoundError");
+        files.set(name, "");
+      }
+      return fileHandle(name);
+    },
+    async removeEntry(name: string) {
+      if (!files.delete(name)) throw new DOMException("Not found", "NotFoundError");
+    },
+  } as unknown as FileSystemDirectoryHandle;
+}
+
+describe("OPFS runtime", () => {
+  const root = fakeDirectory("", {
+    "notes.txt": fakeFile("notes.txt", false),
+    "sqlite": fakeDirectory("sqlite", {
+      "app.db": fakeFile("app.db", true),
+      "app.db-journal": fakeFile("app.db-journal", false),
+    }),
+  });
+  const runtime = createOpfsRuntime({ getRoot: async () => root });
+
+  it("leaves locked files to probeLocks when listing", async () => {
+    const entries = await runtime.invoke("list", { path: "sqlite" });
+    expect(entries.map(entry => entry.name)).toEqual(["app.db", "app.db-journal"]);
+    expect(entries.some(entry => entry.locked)).toBe(false);
+    await expect(runtime.invoke("probeLocks", { paths: ["sqlite/app.db"] })).resolves.toEqual(["sqlite/app.db"]);
+  });
+
+  it("finds locked files among and below the given paths", async () => {
+    await expect(runtime.invoke("probeLocks", { paths: ["notes.txt", "sqlite", "missing"] })).resolves.toEqual(["sqlite/app.db"]);
+    await expect(runtime.invoke("probeLocks", { paths: ["sqlite/app.db-journal"] })).resolves.toEqual([]);
+  });
+
+  it("removes a file an upload created when the upload is cancelled", async () => {
+    const files = new Map([["old.txt", "old"]]);
+    const uploads = createOpfsRuntime({ getRoot: async () => writableDirectory(files) });
+    const chunk = btoa("new");
+
+    for (const path of ["new.txt", "old.txt"]) {
+      const { stream } = await uploads.invoke("openWrite", { path });
+      await uploads.invoke("writeChunk", { stream, content: chunk });
+      await uploads.invoke("closeWrite", { stream, commit: false });
+    }
+    expect([...files]).toEqual([["old.txt", "old"]]);
+
+    const { stream } = await uploads.invoke("openWrite", { path: "new.txt" });
+    await uploads.invoke("writeChunk", { stream, content: chunk });
+    await uploads.invoke("closeWrite", { stream, commit: true });
+    expect(files.get("new.txt")).toBe("new");
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { createMutationScheduler, pathsOverlap } from "../panel/scheduler";
+
+// A promise the test resolves by hand, to hold an operation "in flight"
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+const tick = () => new Promise(r => setTimeout(r, 0));
+
+describe("mutation scheduler", () => {
+  it("treats an entry, its ancestors and its descendants as overlapping", () => {
+    expect(pathsOverlap("a/b", "a/b")).toBe(true);
+    expect(pathsOverlap("a", "a/b/c")).toBe(true);
+    expect(pathsOverlap("", "x")).toBe(true);
+    expect(pathsOverlap("a/b", "a/bc")).toBe(false);
+    expect(pathsOverlap("a/b", "a/c")).toBe(false);
+  });
+
+  it("serializes overlapping mutations and runs unrelated ones in parallel", async () => {
+    const scheduler = createMutationScheduler();
+    const started: string[] = [];
+    const gate = deferred();
+
+    const first = scheduler.schedule("delete", ["docs"], async () => {
+      started.push("delete docs");
+      await gate.promise;
+    });
+    const second = scheduler.schedule("write", ["docs/a.txt"], async () => {
+      started.push("write docs/a.txt");
+    });
+    const third = scheduler.schedule("write", ["images/b.png"], async () => {
+      started.push("write images/b.png");
+    });
+
+    await tick();
+    expect(started).toEqual(["delete docs", "write images/b.png"]);
+    expect(scheduler.getSnapshot().map(m => [m.operation, m.state])).toEqual([
+      ["delete", "running"],
+      ["write", "queued"],
+    ]);
+
+    gate.resolve();
+    await Promise.all([first, second, third]);
+    expect(started).toEqual(["delete docs", "write images/b.png", "write docs/a.txt"]);
+    expect(scheduler.getSnapshot()).toEqual([]);
+  });
+
+  it("only serializes paths within the same bucket", async () => {
+    const scheduler = createMutationScheduler();
+    const started: string[] = [];
+    const gate = deferred();
+
+    const first = scheduler.schedule("delete", ["cache"], async () => {
+      started.push("default");
+      await gate.promise;
+    });
+    const second = scheduler.schedule("delete", ["cache"], async () => {
+      started.push("images");
+    }, undefined, "images");
+
+    await second;
+    expect(started).toEqual(["default", "images"]);
+    gate.resolve();
+    await first;
+  });
+
+  it("drops a queued mutation when its signal aborts", async () => {
+    const scheduler = createMutationScheduler();
+    const gate = deferred();
+    const controller = new AbortController();
+    let ran = false;
+
+    const first = scheduler.schedule("move", ["a", "b"], () => gate.promise);
+    const second = scheduler.schedule("delete", ["b/c"], async () => { ran = true; }, controller.signal);
+
+    controller.abort();
+    await expect(second).rejects.toMatchObject({ name: "AbortError" });
+    gate.resolve();
+    await first;
+    expect(ran).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createMemoryBackend } from "../panel/memoryBackend";
+import { readSnapshot, snapshotFileName } from "../panel/snapshots";
+
+describe("snapshots", () => {
+  // The manifest is a File made in the runtime, and jsdom's can't stream
+  const streams = "stream" in Blob.prototype;
+  // Downloaded archives, in order
+  let archives: Blob[];
+
+  beforeEach(() => {
+    archives = [];
+    vi.spyOn(URL, "createObjectURL").mockImplementation((blob) => {
+      archives.push(blob as Blob);
+      return "blob:archive";
+    });
+    vi.spyOn(URL, "revokeObjectURL").mockImplementation(() => {});
+    vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+    if (streams) return;
+    Object.defineProperty(Blob.prototype, "stream", {
+      configurable: true,
+      value(this: Blob) {
+        const bytes = this.arrayBuffer();
+        return new ReadableStream<Uint8Array>({
+          async start(controller) {
+            controller.enqueue(new Uint8Array(await bytes));
+            controller.close();
+          },
+        });
+      },
+    });
+  });
+
+  afterEach(() => {
+    if (!streams) delete (Blob.prototype as { stream?: unknown }).stream;
+    vi.restoreAllMocks();
+  });
+
+  it("exports a bucket with a manifest and reads it back", async () => {
+    const backend = createMemoryBackend({ data: { "a.txt": "alpha", empty: {} }, "top.txt": "top" });
+
+    await backend.downloadZip([""], { name: "s.zip", compress: false, snapshot: { origin: "https://app.example" } });
+    const { manifest, entries } = await readSnapshot(archives[0]);
+
+    expect(manifest).toMatchObject({ format: "opfs-snapshot", version: 1, origin: "https://app.example" });
+    expect(manifest.bucket).toBeUndefined();
+    expect(manifest.entries.map(({ path, kind, size }) => ({ path, kind, size })).sort((a, b) => a.path.localeCompare(b.path))).toEqual([
+      { path: "data", kind: "directory", size: undefined },
+      { path: "data/a.txt", kind: "file", size: 5 },
+      { path: "data/empty", kind: "directory", size: undefined },
+      { path: "top.txt", kind: "file", size: 3 },
+    ]);
+    expect(entries.map(entry => entry.path).sort()).toEqual(["data", "data/a.txt", "data/empty", "top.txt"]);
+    expect(await entries.find(entry => entry.path === "data/a.txt")!.file!.text()).toBe("alpha");
+  });
+
+  it("refuses archives that aren't snapshots", async () => {
+    const backend = createMemoryBackend({ "top.txt": "top" });
+
+    await backend.downloadZip([""], { name: "plain.zip", compress: false });
+    await expect(readSnapshot(archives[0])).rejects.toMatchObject({ name: "NotSupportedError" });
+  });
+
+  it("names downloads after the origin and time", () => {
+    expect(snapshotFileName("http://localhost:5173", new Date("2026-10-19T09:30:00Z")))
+      .toBe("opfs-snapshot-localhost_5173-2026-10-19T09-30-00.zip");
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createTrash, type TrashContent, type TrashItem, type TrashStorage } from "../panel/trash";
+import { opfsApi, setBackend } from "../panel/api";
+import { createMemoryBackend } from "../panel/memoryBackend";
+
+// Trash storage kept in a Map, standing in for IndexedDB
+function mapStorage(): TrashStorage & { records: Map<string, { item: TrashItem; contents: TrashContent[] }> } {
+  const records = new Map<string, { item: TrashItem; contents: TrashContent[] }>();
+  return {
+    records,
+    getAll: async () => [...records.values()].map(record => record.item),
+    put: async (item, contents) => {
+      records.set(item.id, { item, contents });
+    },
+    getContents: async (id) => records.get(id)?.contents,
+    delete: async (id) => {
+      records.delete(id);
+    },
+  };
+}
+
+const origin = "https://app.example";
+
+describe("trash", () => {
+  afterEach(() => setBackend(null));
+
+  it("keeps a deleted folder's contents and restores them where they were", async () => {
+    setBackend(createMemoryBackend({ data: { "a.txt": "alpha", runs: { "1.bin": new Uint8Array([0, 255, 7]) }, empty: {} } }));
+    const storage = mapStorage();
+    const trash = createTrash(storage);
+
+    const item = await trash.capture("data", { origin });
+    expect(item).toMatchObject({ path: "data", kind: "directory", origin, size: 8, entryCount: 4 });
+    const kept = storage.records.get(item.id)!.contents.find(content => content.path === "runs/1.bin");
+    expect(kept?.content).toBeInstanceOf(Blob);
+    expect(kept?.content?.size).toBe(3);
+    await opfsApi.delete("data");
+
+    await trash.restore(item.id);
+    await expect(opfsApi.readWithMeta("data/a.txt")).resolves.toMatchObject({ content: "alpha" });
+    const range = await opfsApi.readRange("data/runs/1.bin", 0, 10);
+    expect(Array.from(atob(range.content), c => c.charCodeAt(0))).toEqual([0, 255, 7]);
+    await expect(opfsApi.exists("data/empty")).resolves.toBe(true);
+    expect(trash.getSnapshot()).toEqual([]);
+  });
+
+  it("recreates missing parents and refuses to restore over an existing entry", async () => {
+    setBackend(createMemoryBackend({ docs: { notes: { "todo.md": "# todo" } } }));
+    const trash = createTrash(mapStorage());
+
+    const item = await trash.capture("docs/notes/todo.md", { origin });
+    await opfsApi.delete("docs");
+    await trash.restore(item.id);
+    await expect(opfsApi.readWithMeta("docs/notes/todo.md")).resolves.toMatchObject({ content: "# todo" });
+
+    const again = await trash.capture("docs/notes/todo.md", { origin });
+    await expect(trash.restore(again.id)).rejects.toMatchObject({ code: "InvalidModificationError" });
+    expect(trash.getSnapshot()).toHaveLength(1);
+  });
+
+  it("drops an origin's oldest items to stay under its capacity, leaving other origins' alone", async () => {
+    setBackend(createMemoryBackend({ "a.txt": "aaaa", "b.txt": "bbbb", "c.txt": "cccc", "big.txt": "0123456789" }));
+    const storage = mapStorage();
+    const trash = createTrash(storage, 8);
+
+    const other = await trash.capture("a.txt", { origin: "https://other.example" });
+    const a = await trash.capture("a.txt", { origin });
+    await trash.capture("b.txt", { origin });
+    expect(storage.records.size).toBe(3);
+    await trash.capture("c.txt", { origin });
+    expect(storage.records.has(a.id)).toBe(false);
+    expect(storage.records.has(other.id)).toBe(true);
+    expect(trash.getSnapshot()?.map(item => `${item.origin} ${item.path}`).sort()).toEqual([
+      `${origin} b.txt`,
+      `${origin} c.txt`,
+      "https://other.example a.txt",
+    ]);
+
+    await expect(trash.capture("big.txt", { origin })).rejects.toMatchObject({ code: "QuotaExceededError" });
+    await trash.empty(origin);
+    expect(trash.getSnapshot()?.map(item => item.origin)).toEqual(["https://other.example"]);
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { correlateLockName } from "../panel/webLocks";
+
+describe("correlateLockName", () => {
+  const paths = new Set(["db", "db/app.sqlite3", "state.json"]);
+
+  it("finds the path in prefixed and slash-rooted lock names", () => {
+    expect(correlateLockName("db/app.sqlite3", paths)).toBe("db/app.sqlite3");
+    expect(correlateLockName("sqlite:/db/app.sqlite3", paths)).toBe("db/app.sqlite3");
+    expect(correlateLockName("opfs/db/app.sqlite3", paths)).toBe("db/app.sqlite3");
+    expect(correlateLockName("sync-engine|state.json", paths)).toBe("state.json");
+  });
+
+  it("returns null for locks unrelated to any path", () => {
+    expect(correlateLockName("leader-election", paths)).toBeNull();
+    expect(correlateLockName("", paths)).toBeNull();
+  });
+});
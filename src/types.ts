@@ -5,6 +5,41 @@ export interface FileEntry {
   size?: number;
   lastModified?: number;
   mimeType?: string;
+  /**
+   * The page holds a sync access handle on the file (e.g. SQLite wasm in a
+   * worker), so it can't be written, moved or deleted. The explorer's own
+   * listings never set it, since finding out means probing the file: locks
+   * are found on demand with `probeLocks`. A custom backend that knows for
+   * free may set it, and the tree shows it like a probed lock.
+   */
+  locked?: boolean;
+}
+
+/** Options for `walk` */
+export interface WalkOptions {
+  /** Levels to descend: 1 lists only the direct children. Unlimited when omitted */
+  maxDepth?: number;
+  /** Read each file's size, modification time and MIME type (slower on big trees) */
+  includeMeta?: boolean;
+  /** Stop after this many entries; 10,000 when omitted */
+  limit?: number;
+}
+
+/** An entry found by `walk`, with its depth below the walked directory (0 for direct children) */
+export interface WalkEntry extends FileEntry {
+  depth: number;
+}
+
+/** An entry of a nested `walk` result, with the entries found below it when it's a directory */
+export interface WalkNode extends FileEntry {
+  children?: WalkNode[];
+}
+
+export interface WalkResult<T extends FileEntry = WalkEntry> {
+  /** Depth-first, each directory's entries in `list` order */
+  entries: T[];
+  /** The entry limit was hit, so some entries are missing */
+  truncated: boolean;
 }
 
 export interface FileReadResult {
@@ -18,7 +53,121 @@ export interface FileReadResult {
   isLargeText?: boolean;
 }
 
+/** A slice of a file's bytes, as returned by `readRange` */
+export interface FileRange {
+  /** The bytes, base64-encoded */
+  content: string;
+  offset: number;
+  /** Bytes returned — fewer than requested at the end of the file */
+  length: number;
+  /** Size of the whole file */
+  size: number;
+}
+
+/** One operation of a `batch` */
+export type BatchOperation =
+  | { op: 'create'; path: string; kind: 'file' | 'directory' }
+  | { op: 'delete'; path: string }
+  | { op: 'move'; oldPath: string; newPath: string }
+  | { op: 'copy'; src: string; dest: string }
+  /** `content` is text, or base64-encoded bytes when `isBinary` is set */
+  | { op: 'write'; path: string; content: string; isBinary?: boolean }
+  | { op: 'download'; path: string };
+
+/** How one operation of a `batch` went, as reported by the page */
+export interface BatchOperationResult {
+  ok: boolean;
+  /** Not attempted, because an earlier operation failed with `stopOnError` set */
+  skipped?: boolean;
+  /** Why the operation failed, with the DOMException name where there is one */
+  error?: { name: string; message: string };
+}
+
+/** Options for downloading entries as a ZIP archive */
+export interface ZipOptions {
+  /** File name of the download, e.g. "data.zip" */
+  name: string;
+  /**
+   * Deflate files that get smaller for it (where the browser has
+   * CompressionStream); otherwise they're stored as-is. Defaults to true.
+   */
+  compress?: boolean;
+  /**
+   * Makes the archive an OPFS snapshot: the entries go under "files/", next
+   * to a "manifest.json" listing them (a SnapshotManifest).
+   */
+  snapshot?: { origin: string };
+}
+
+/** What went into a downloaded ZIP archive */
+export interface ZipResult {
+  /** Files and folders in the archive */
+  entries: number;
+  /** Size of the archive in bytes */
+  size: number;
+}
+
+/** A file or folder listed in a snapshot's manifest */
+export interface SnapshotManifestEntry {
+  /** Path under "files/" in the archive; from the bucket root for a whole-bucket snapshot */
+  path: string;
+  kind: "file" | "directory";
+  /** Bytes, for files */
+  size?: number;
+  /** When the file was last modified, in ms since the epoch */
+  lastModified?: number;
+  /** SHA-256 of the file's contents, as hex, where it was hashed */
+  hash?: string;
+}
+
+/** The manifest.json of an OPFS snapshot archive */
+export interface SnapshotManifest {
+  format: "opfs-snapshot";
+  version: 1;
+  /** The origin whose OPFS was exported */
+  origin: string;
+  /** The storage bucket exported; the default bucket when absent */
+  bucket?: string;
+  /** When the snapshot was taken, in ms since the epoch */
+  exportedAt: number;
+  entries: SnapshotManifestEntry[];
+}
+
 export interface StorageEstimate {
   usage: number;
   quota: number;
 }
+
+/** A named bucket from the Storage Buckets API; null where the browser didn't report a value */
+export interface StorageBucketInfo {
+  name: string;
+  durability: 'strict' | 'relaxed' | null;
+  persisted: boolean | null;
+  usage: number | null;
+  quota: number | null;
+  /** Expiry as a timestamp in ms, or null when the bucket doesn't expire */
+  expires: number | null;
+}
+
+/** A Web Lock held or requested by a context of the origin (`navigator.locks.query()`) */
+export interface WebLockInfo {
+  name: string;
+  mode: 'exclusive' | 'shared';
+  /** Identifies the window or worker holding or requesting the lock */
+  clientId: string;
+}
+
+export interface WebLocksSnapshot {
+  held: WebLockInfo[];
+  /** Requests waiting for a held lock, in the order they'll be granted */
+  pending: WebLockInfo[];
+}
+
+/** Progress of a long-running operation, reported through `onProgress` */
+export interface OperationProgress {
+  /** What `done` and `total` count */
+  unit: 'bytes' | 'entries';
+  done: number;
+  /** 0 while the total isn't known yet */
+  total: number;
+}
@@ -24,6 +24,7 @@ export default defineConfig({
       input: {
         panel: resolve(__dirname, "panel.html"),
         devtools: resolve(__dirname, "devtools.html"),
+        background: resolve(__dirname, "src/background/main.ts"),
       },
       output: {
         entryFileNames: () => {
@@ -0,0 +1,20 @@
+import { defineConfig } from "vite";
+import { resolve } from "path";
+
+// Content scripts are injected as classic scripts, so they can't import
+// shared chunks the way the panel and background entries do. Build the
+// content script separately as a single self-contained IIFE, after the main
+// build (which empties dist/).
+export default defineConfig({
+  base: "./",
+  publicDir: false,
+  build: {
+    emptyOutDir: false,
+    lib: {
+      entry: resolve(__dirname, "src/content/main.ts"),
+      formats: ["iife"],
+      name: "opfsExplorerContent",
+      fileName: () => "assets/content.js",
+    },
+  },
+});
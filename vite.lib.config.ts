@@ -0,0 +1,30 @@
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+import { resolve } from "path";
+import { readFileSync } from "node:fs";
+
+const pkg = JSON.parse(
+  readFileSync(new URL("./package.json", import.meta.url), "utf-8")
+) as { version: string };
+
+// Library build of the standalone explorer (src/lib.ts) for embedding in
+// an app, e.g. on a debug route. React is left to the host app.
+export default defineConfig({
+  plugins: [react()],
+  publicDir: false,
+  define: {
+    __APP_VERSION__: JSON.stringify(pkg.version),
+  },
+  build: {
+    outDir: "dist-lib",
+    lib: {
+      entry: resolve(__dirname, "src/lib.ts"),
+      formats: ["es"],
+      fileName: () => "opfs-explorer.js",
+      cssFileName: "opfs-explorer",
+    },
+    rollupOptions: {
+      external: [/^react($|\/)/, /^react-dom($|\/)/],
+    },
+  },
+});